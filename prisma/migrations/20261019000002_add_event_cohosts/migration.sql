@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN "coHostInviteToken" TEXT;
+
+-- CreateTable
+CREATE TABLE "event_cohosts" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "voterId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_cohosts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "events_coHostInviteToken_key" ON "events"("coHostInviteToken");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_cohosts_eventId_voterId_key" ON "event_cohosts"("eventId", "voterId");
+
+-- AddForeignKey
+ALTER TABLE "event_cohosts" ADD CONSTRAINT "event_cohosts_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "questions" ADD COLUMN "answeredAt" TIMESTAMP(3);
+
+-- Backfill: best guess for questions answered before this column existed
+UPDATE "questions" q
+SET "answeredAt" = COALESCE(
+  (SELECT a."answeredAt" FROM "answers" a WHERE a."questionId" = q.id),
+  q."createdAt"
+)
+WHERE q."status" = 'ANSWERED';
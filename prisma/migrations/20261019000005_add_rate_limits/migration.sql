@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN "questionRateLimit" INTEGER,
+ADD COLUMN "questionRateWindowSec" INTEGER,
+ADD COLUMN "voteRateLimit" INTEGER,
+ADD COLUMN "voteRateWindowSec" INTEGER;
+
+-- CreateTable
+CREATE TABLE "rate_limit_buckets" (
+    "key" TEXT NOT NULL,
+    "count" INTEGER NOT NULL,
+    "resetAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rate_limit_buckets_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "rate_limit_buckets_resetAt_idx" ON "rate_limit_buckets"("resetAt");
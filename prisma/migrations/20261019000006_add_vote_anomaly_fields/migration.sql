@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "votes" ADD COLUMN "ipHash" TEXT,
+ADD COLUMN "voterIssuedAt" TIMESTAMP(3),
+ADD COLUMN "flaggedAt" TIMESTAMP(3),
+ADD COLUMN "flagReason" TEXT,
+ADD COLUMN "flagDismissedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "votes_questionId_ipHash_idx" ON "votes"("questionId", "ipHash");
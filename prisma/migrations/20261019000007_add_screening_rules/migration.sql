@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "ScreeningMatch" AS ENUM ('word', 'regex', 'email', 'phone', 'employee_id');
+
+-- CreateEnum
+CREATE TYPE "ScreeningAction" AS ENUM ('block', 'hide', 'flag');
+
+-- AlterTable
+ALTER TABLE "questions" ADD COLUMN "flagReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "screening_rules" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT,
+    "match" "ScreeningMatch" NOT NULL,
+    "pattern" TEXT,
+    "action" "ScreeningAction" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "screening_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "screening_rules_eventId_idx" ON "screening_rules"("eventId");
+
+-- AddForeignKey
+ALTER TABLE "screening_rules" ADD CONSTRAINT "screening_rules_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
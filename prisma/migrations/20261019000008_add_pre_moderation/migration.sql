@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN "isModerated" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "questions" ADD COLUMN "isPending" BOOLEAN NOT NULL DEFAULT false;
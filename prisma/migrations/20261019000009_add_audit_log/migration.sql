@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "AuditActorKind" AS ENUM ('admin', 'creator', 'cohost');
+
+-- CreateTable
+CREATE TABLE "audit_entries" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "actorKind" "AuditActorKind" NOT NULL,
+    "actorId" TEXT,
+    "actorName" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "targetType" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "before" JSONB,
+    "after" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_entries_eventId_createdAt_idx" ON "audit_entries"("eventId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_entries_createdAt_idx" ON "audit_entries"("createdAt");
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "questions" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "events_deletedAt_idx" ON "events"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "questions_deletedAt_idx" ON "questions"("deletedAt");
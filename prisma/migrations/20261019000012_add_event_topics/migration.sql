@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "questions" ADD COLUMN "topicId" TEXT;
+
+-- CreateTable
+CREATE TABLE "event_topics" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_topics_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_topics_eventId_name_key" ON "event_topics"("eventId", "name");
+
+-- AddForeignKey
+ALTER TABLE "event_topics" ADD CONSTRAINT "event_topics_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "questions" ADD CONSTRAINT "questions_topicId_fkey" FOREIGN KEY ("topicId") REFERENCES "event_topics"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "questions" ADD COLUMN "directedToId" TEXT;
+
+-- CreateTable
+CREATE TABLE "event_panelists" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "title" TEXT,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_panelists_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_panelists_eventId_name_key" ON "event_panelists"("eventId", "name");
+
+-- AddForeignKey
+ALTER TABLE "event_panelists" ADD CONSTRAINT "event_panelists_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "questions" ADD CONSTRAINT "questions_directedToId_fkey" FOREIGN KEY ("directedToId") REFERENCES "event_panelists"("id") ON DELETE SET NULL ON UPDATE CASCADE;
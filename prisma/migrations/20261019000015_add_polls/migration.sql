@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "PollStatus" AS ENUM ('draft', 'open', 'closed');
+
+-- CreateTable
+CREATE TABLE "polls" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "question" TEXT NOT NULL,
+    "status" "PollStatus" NOT NULL DEFAULT 'draft',
+    "openedAt" TIMESTAMP(3),
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "polls_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "poll_options" (
+    "id" TEXT NOT NULL,
+    "pollId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+
+    CONSTRAINT "poll_options_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "poll_responses" (
+    "id" TEXT NOT NULL,
+    "pollId" TEXT NOT NULL,
+    "optionId" TEXT NOT NULL,
+    "voterId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "poll_responses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "polls_eventId_idx" ON "polls"("eventId");
+
+-- CreateIndex
+CREATE INDEX "poll_responses_optionId_idx" ON "poll_responses"("optionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "poll_responses_pollId_voterId_key" ON "poll_responses"("pollId", "voterId");
+
+-- AddForeignKey
+ALTER TABLE "polls" ADD CONSTRAINT "polls_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "poll_options" ADD CONSTRAINT "poll_options_pollId_fkey" FOREIGN KEY ("pollId") REFERENCES "polls"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "poll_responses" ADD CONSTRAINT "poll_responses_pollId_fkey" FOREIGN KEY ("pollId") REFERENCES "polls"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "poll_responses" ADD CONSTRAINT "poll_responses_optionId_fkey" FOREIGN KEY ("optionId") REFERENCES "poll_options"("id") ON DELETE CASCADE ON UPDATE CASCADE;
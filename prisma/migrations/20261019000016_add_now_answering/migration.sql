@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN "nowAnsweringId" TEXT;
+ALTER TABLE "events" ADD COLUMN "nowAnsweringAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "answering_segments" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "questionId" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" TIMESTAMP(3),
+
+    CONSTRAINT "answering_segments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "answering_segments_eventId_endedAt_idx" ON "answering_segments"("eventId", "endedAt");
+
+-- CreateIndex
+CREATE INDEX "answering_segments_questionId_idx" ON "answering_segments"("questionId");
+
+-- AddForeignKey
+ALTER TABLE "answering_segments" ADD CONSTRAINT "answering_segments_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "questions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
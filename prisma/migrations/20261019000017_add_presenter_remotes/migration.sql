@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "PresenterView" AS ENUM ('questions', 'poll');
+
+-- CreateTable
+CREATE TABLE "presenter_remotes" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "selectedId" TEXT,
+    "view" "PresenterView" NOT NULL DEFAULT 'questions',
+    "pairedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "presenter_remotes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "presenter_remotes_code_key" ON "presenter_remotes"("code");
+
+-- CreateIndex
+CREATE INDEX "presenter_remotes_eventId_idx" ON "presenter_remotes"("eventId");
+
+-- AddForeignKey
+ALTER TABLE "presenter_remotes" ADD CONSTRAINT "presenter_remotes_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "presenter_queue_items" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "questionId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "presenter_queue_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "presenter_queue_items_questionId_key" ON "presenter_queue_items"("questionId");
+
+-- CreateIndex
+CREATE INDEX "presenter_queue_items_eventId_position_idx" ON "presenter_queue_items"("eventId", "position");
+
+-- AddForeignKey
+ALTER TABLE "presenter_queue_items" ADD CONSTRAINT "presenter_queue_items_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "questions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
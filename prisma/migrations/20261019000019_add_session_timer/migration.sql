@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN "durationMinutes" INTEGER;
+ALTER TABLE "events" ADD COLUMN "questionLimitMinutes" INTEGER;
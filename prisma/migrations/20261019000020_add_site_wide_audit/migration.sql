@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "audit_entries" ALTER COLUMN "eventId" DROP NOT NULL;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "comments" ADD COLUMN "isPending" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,41 @@
+/**
+ * Creates (or resets) an admin account.
+ * Run with:  npm run db:create-admin -- <email> <password> [owner|moderator|presenter]
+ *
+ * Use this to bootstrap the first owner; further accounts can be managed
+ * from /admin/users. Requires DATABASE_URL to be set.
+ */
+import { PrismaClient, AdminRole } from "@prisma/client";
+import { hashPassword, validateNewPassword } from "../src/lib/password";
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const [emailArg, password, roleArg = "owner"] = process.argv.slice(2);
+  const email = emailArg?.trim().toLowerCase();
+  if (!email || !password) {
+    throw new Error("Usage: npm run db:create-admin -- <email> <password> [role]");
+  }
+  if (!Object.values(AdminRole).includes(roleArg as AdminRole)) {
+    throw new Error(`Unknown role "${roleArg}" — use owner, moderator or presenter`);
+  }
+  const passwordError = validateNewPassword(password);
+  if (passwordError) throw new Error(passwordError);
+
+  const role = roleArg as AdminRole;
+  const passwordHash = await hashPassword(password);
+  const user = await prisma.adminUser.upsert({
+    where: { email },
+    create: { email, role, passwordHash },
+    update: { role, passwordHash },
+  });
+
+  console.log(`Admin account ready: ${user.email} (${user.role})`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,25 @@
+/**
+ * Permanently deletes events and questions that have been in the trash for
+ * more than 30 days. Run with:  npm run db:purge-trash
+ *
+ * Schedule it daily (cron, a CI schedule, or a Vercel Cron Job running the
+ * same command). Requires DATABASE_URL to be set.
+ */
+import { PrismaClient } from "@prisma/client";
+import { purgeTrash, TRASH_RETENTION_DAYS } from "../src/lib/trash";
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const purged = await purgeTrash(prisma);
+  console.log(
+    `Purged ${purged.events} event(s) and ${purged.questions} question(s) deleted more than ${TRASH_RETENTION_DAYS} days ago`
+  );
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
@@ -8,17 +8,29 @@ export default function LogoutButton() {
 
   if (pathname === "/admin/login") return null;
 
-  async function handleLogout() {
-    await fetch("/api/admin/logout", { method: "POST" });
+  async function handleLogout(everywhere: boolean) {
+    await fetch("/api/admin/logout", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ everywhere }),
+    });
     router.replace("/");
   }
 
   return (
-    <button
-      onClick={handleLogout}
-      className="text-xs text-brand-200 hover:text-white underline"
-    >
-      Log out
-    </button>
+    <span className="flex items-center gap-3">
+      <button
+        onClick={() => handleLogout(true)}
+        className="text-xs text-brand-200 hover:text-white underline"
+      >
+        Log out everywhere
+      </button>
+      <button
+        onClick={() => handleLogout(false)}
+        className="text-xs text-brand-200 hover:text-white underline"
+      >
+        Log out
+      </button>
+    </span>
   );
 }
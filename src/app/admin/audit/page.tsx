@@ -0,0 +1,238 @@
+"use client";
+
+import { Suspense, useCallback, useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import type { AuditTargetType } from "@/lib/audit";
+
+type ActorKind = "admin" | "creator" | "cohost";
+
+type AuditEntry = {
+  id: string;
+  eventId: string | null;
+  actorKind: ActorKind;
+  actorName: string;
+  action: string;
+  targetType: AuditTargetType;
+  targetId: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: string;
+};
+
+type EventOption = { id: string; title: string };
+
+const ACTION_LABELS: Record<string, string> = {
+  "question.answered": "Marked answered",
+  "question.reopened": "Reopened",
+  "question.answer_edited": "Edited answer",
+  "question.hidden": "Hid",
+  "question.unhidden": "Unhid",
+  "question.pinned": "Pinned",
+  "question.unpinned": "Unpinned",
+  "question.approved": "Approved",
+  "question.rejected": "Rejected",
+  "question.unflagged": "Cleared flag",
+  "question.deleted": "Deleted",
+  "question.restored": "Restored",
+  "question.merged": "Merged",
+  "question.retagged": "Changed topic",
+  "questions.imported": "Imported questions",
+  "comment.hidden": "Hid comment",
+  "comment.unhidden": "Unhid comment",
+  "comment.approved": "Approved comment",
+  "comment.rejected": "Rejected comment",
+  "poll.created": "Created poll",
+  "poll.opened": "Opened poll",
+  "poll.closed": "Closed poll",
+  "poll.deleted": "Deleted poll",
+  "event.updated": "Updated event",
+  "event.closed": "Closed event",
+  "event.deleted": "Deleted event",
+  "event.restored": "Restored event",
+  "event.rate_limits_changed": "Changed rate limits",
+  "screening_rule.created": "Added screening rule",
+  "screening_rule.deleted": "Removed screening rule",
+  "vote.discarded": "Discarded flagged vote",
+  "vote.dismissed": "Kept flagged vote",
+  "topic.created": "Added topic",
+  "topic.renamed": "Renamed topic",
+  "topic.deleted": "Removed topic",
+  "panelist.created": "Added panelist",
+  "panelist.updated": "Edited panelist",
+  "panelist.deleted": "Removed panelist",
+  "cohost.invite_reset": "Reset co-host invite",
+  "cohost.invite_disabled": "Disabled co-host invite",
+  "cohost.removed": "Removed co-host",
+  "admin_user.created": "Added admin",
+  "admin_user.updated": "Updated admin",
+  "admin_user.deleted": "Removed admin",
+};
+
+const ACTOR_LABELS: Record<ActorKind, string> = {
+  admin: "Admin",
+  creator: "Host",
+  cohost: "Co-host",
+};
+
+const selectClass =
+  "border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-400";
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return new Date(value).toLocaleString();
+  }
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function Changes({ entry }: { entry: AuditEntry }) {
+  const keys = Array.from(
+    new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})])
+  );
+  if (keys.length === 0) return <p className="text-xs text-gray-400">No fields changed</p>;
+  return (
+    <ul className="text-xs text-gray-600 space-y-0.5">
+      {keys.map((key) => (
+        <li key={key} className="break-words">
+          <span className="font-medium text-gray-800">{key}</span>:{" "}
+          {entry.after === null ? (
+            <span className="line-through">{formatValue(entry.before?.[key])}</span>
+          ) : (
+            <>
+              {formatValue(entry.before?.[key])} → {formatValue(entry.after[key])}
+            </>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function AuditLog() {
+  const searchParams = useSearchParams();
+  const [eventId, setEventId] = useState(searchParams.get("eventId") ?? "");
+  const [action, setAction] = useState("");
+  const [events, setEvents] = useState<EventOption[]>([]);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/admin/events")
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setEvents);
+  }, []);
+
+  const fetchEntries = useCallback(
+    async (cursor?: string) => {
+      setError(null);
+      const params = new URLSearchParams();
+      if (eventId) params.set("eventId", eventId);
+      if (action) params.set("action", action);
+      if (cursor) params.set("cursor", cursor);
+      const res = await fetch(`/api/admin/audit?${params}`);
+      const data = await res.json();
+      setLoading(false);
+      if (!res.ok) {
+        setError(data.error ?? "Failed to load the audit log.");
+        return;
+      }
+      setEntries((prev) => (cursor ? [...prev, ...data.entries] : data.entries));
+      setNextCursor(data.nextCursor);
+    },
+    [eventId, action]
+  );
+
+  useEffect(() => {
+    setLoading(true);
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const eventTitles = new Map(events.map((e) => [e.id, e.title]));
+
+  return (
+    <main className="max-w-3xl mx-auto px-4 py-8">
+      <Link href="/admin" className="text-sm text-brand-700 hover:underline">
+        ← All Events
+      </Link>
+      <h1 className="text-2xl font-bold mt-3 mb-2">Audit Log</h1>
+      <p className="text-sm text-gray-500 mb-6">
+        Every answer, hide, pin, approval and event change made by admins and hosts, newest first.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <select value={eventId} onChange={(e) => setEventId(e.target.value)} className={selectClass}>
+          <option value="">All events</option>
+          {events.map((e) => (
+            <option key={e.id} value={e.id}>
+              {e.title}
+            </option>
+          ))}
+        </select>
+        <select value={action} onChange={(e) => setAction(e.target.value)} className={selectClass}>
+          <option value="">All actions</option>
+          {Object.entries(ACTION_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="text-red-500 text-sm mb-3">{error}</p>}
+
+      {loading ? (
+        <p className="text-gray-400 text-sm">Loading...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-gray-400 text-sm">No changes recorded yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white shadow-sm">
+          {entries.map((entry) => (
+            <li key={entry.id} className="px-4 py-3 space-y-1">
+              <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm">
+                <span className="font-medium">{entry.actorName}</span>
+                <span className="text-[10px] font-medium px-1.5 py-0.5 rounded bg-gray-100 text-gray-600">
+                  {ACTOR_LABELS[entry.actorKind]}
+                </span>
+                <span className="text-gray-700">{ACTION_LABELS[entry.action] ?? entry.action}</span>
+                {entry.targetType !== "event" && (
+                  <code className="text-xs text-gray-400">
+                    {entry.targetType} {entry.targetId}
+                  </code>
+                )}
+                <span className="ml-auto text-xs text-gray-400">
+                  {new Date(entry.createdAt).toLocaleString()}
+                </span>
+              </div>
+              {!eventId && (
+                <p className="text-xs text-gray-400">
+                  {entry.eventId ? (eventTitles.get(entry.eventId) ?? "Deleted event") : "All events"}
+                </p>
+              )}
+              <Changes entry={entry} />
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {nextCursor && (
+        <button
+          onClick={() => fetchEntries(nextCursor)}
+          className="mt-4 px-3 py-1.5 text-xs text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 font-medium transition-colors"
+        >
+          Load more
+        </button>
+      )}
+    </main>
+  );
+}
+
+export default function AdminAuditPage() {
+  return (
+    <Suspense>
+      <AuditLog />
+    </Suspense>
+  );
+}
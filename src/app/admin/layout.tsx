@@ -1,10 +1,15 @@
 import { ReactNode } from "react";
 import Link from "next/link";
+import { cookies } from "next/headers";
+import { can } from "@/lib/auth";
+import { getAdminSession } from "@/lib/session";
 import LogoutButton from "./LogoutButton";
 
 // Middleware already protects /admin/* routes — this layout just provides
 // a consistent admin shell.
-export default function AdminLayout({ children }: { children: ReactNode }) {
+export default async function AdminLayout({ children }: { children: ReactNode }) {
+  const session = await getAdminSession(await cookies());
+
   return (
     <div className="min-h-screen bg-white">
       <header className="sticky top-0 z-50 bg-brand-700 text-white px-6 py-3 flex items-center justify-between">
@@ -15,6 +20,21 @@ export default function AdminLayout({ children }: { children: ReactNode }) {
           <Link href="/" className="text-xs text-brand-200 hover:text-white transition-colors">
             ← Back to events
           </Link>
+          {session && can(session.role, "questions:moderate") && (
+            <Link href="/admin/screening" className="text-xs text-brand-200 hover:text-white transition-colors">
+              Screening
+            </Link>
+          )}
+          {session && can(session.role, "events:view") && (
+            <Link href="/admin/audit" className="text-xs text-brand-200 hover:text-white transition-colors">
+              Audit log
+            </Link>
+          )}
+          {session && can(session.role, "users:manage") && (
+            <Link href="/admin/users" className="text-xs text-brand-200 hover:text-white transition-colors">
+              Accounts
+            </Link>
+          )}
         </div>
         <LogoutButton />
       </header>
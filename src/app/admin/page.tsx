@@ -17,6 +17,15 @@ type Event = {
   _count: { questions: number };
 };
 
+type Trash = {
+  events: { id: string; title: string; questionCount: number; deletedAt: string; purgesAt: string }[];
+  questions: { id: string; text: string; event: { id: string; title: string }; deletedAt: string; purgesAt: string }[];
+};
+
+function daysUntil(iso: string): number {
+  return Math.max(0, Math.ceil((new Date(iso).getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+}
+
 // Convert a datetime-local string (e.g. "2026-03-06T10:30") treated as
 // America/New_York time into a UTC ISO string.
 function etLocalToUtcIso(dtLocalStr: string): string {
@@ -70,7 +79,9 @@ function sortPast(a: Event, b: Event) {
 
 export default function AdminHomePage() {
   const [events, setEvents] = useState<Event[]>([]);
+  const [trash, setTrash] = useState<Trash>({ events: [], questions: [] });
   const [loading, setLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
 
   const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
   const [deleting, setDeleting] = useState(false);
@@ -92,8 +103,9 @@ export default function AdminHomePage() {
   const [editError, setEditError] = useState<string | null>(null);
 
   async function fetchEvents() {
-    const res = await fetch("/api/admin/events");
+    const [res, trashRes] = await Promise.all([fetch("/api/admin/events"), fetch("/api/admin/trash")]);
     if (res.ok) setEvents(await res.json());
+    if (trashRes.ok) setTrash(await trashRes.json());
     setLoading(false);
   }
 
@@ -200,6 +212,24 @@ export default function AdminHomePage() {
     }
   }
 
+  async function restore(type: "event" | "question", id: string) {
+    setRestoringId(id);
+    try {
+      const res = await fetch("/api/admin/trash", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type, id }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        alert(data.error ?? "Failed to restore.");
+      }
+      await fetchEvents();
+    } finally {
+      setRestoringId(null);
+    }
+  }
+
   const companyEvents = events.filter((e) => e.status === "OPEN" && e.type === "company").sort(sortActive);
   const teamEvents = events.filter((e) => e.status === "OPEN" && e.type === "team").sort(sortActive);
   const pastEvents = events.filter((e) => e.status === "CLOSED").sort(sortPast);
@@ -452,6 +482,64 @@ export default function AdminHomePage() {
         </div>
       )}
 
+      {/* Trash */}
+      {(trash.events.length > 0 || trash.questions.length > 0) && (
+        <section className="mt-10">
+          <h2 className="text-xs font-semibold uppercase tracking-widest text-gray-400 mb-1">
+            Trash
+          </h2>
+          <p className="text-xs text-gray-400 mb-3">
+            Deleted events and questions can be restored for 30 days, then they are removed for good.
+          </p>
+          <ul className="space-y-2">
+            {trash.events.map((event) => (
+              <li
+                key={event.id}
+                className="bg-white rounded-xl border border-gray-200 p-4 flex items-center gap-4"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-500 truncate">{event.title}</p>
+                  <p className="text-xs text-gray-400 mt-0.5">
+                    Event · {event.questionCount} question{event.questionCount !== 1 ? "s" : ""} ·
+                    deleted {new Date(event.deletedAt).toLocaleDateString()} · purged in{" "}
+                    {daysUntil(event.purgesAt)} day{daysUntil(event.purgesAt) !== 1 ? "s" : ""}
+                  </p>
+                </div>
+                <button
+                  onClick={() => restore("event", event.id)}
+                  disabled={restoringId === event.id}
+                  className="px-3 py-1.5 text-xs bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 font-medium disabled:opacity-50 transition-colors"
+                >
+                  {restoringId === event.id ? "Restoring..." : "Restore"}
+                </button>
+              </li>
+            ))}
+            {trash.questions.map((question) => (
+              <li
+                key={question.id}
+                className="bg-white rounded-xl border border-gray-200 p-4 flex items-center gap-4"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-500 line-clamp-2">{question.text}</p>
+                  <p className="text-xs text-gray-400 mt-0.5">
+                    Question in {question.event.title} · deleted{" "}
+                    {new Date(question.deletedAt).toLocaleDateString()} · purged in{" "}
+                    {daysUntil(question.purgesAt)} day{daysUntil(question.purgesAt) !== 1 ? "s" : ""}
+                  </p>
+                </div>
+                <button
+                  onClick={() => restore("question", question.id)}
+                  disabled={restoringId === question.id}
+                  className="px-3 py-1.5 text-xs bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 font-medium disabled:opacity-50 transition-colors"
+                >
+                  {restoringId === question.id ? "Restoring..." : "Restore"}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
       {/* Close event modal */}
       {showCloseModal && confirmCloseId && (
         <CloseEventModal
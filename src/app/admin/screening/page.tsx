@@ -0,0 +1,21 @@
+import Link from "next/link";
+import ScreeningRulesEditor from "@/components/ScreeningRulesEditor";
+
+// Global content-screening rules; each event can add its own from its admin page.
+export default function AdminScreeningPage() {
+  return (
+    <main className="max-w-2xl mx-auto px-4 py-8">
+      <Link href="/admin" className="text-sm text-brand-700 hover:underline">
+        ← All Events
+      </Link>
+      <h1 className="text-2xl font-bold mt-3 mb-2">Content Screening</h1>
+      <p className="text-sm text-gray-500 mb-6">
+        Checked whenever a question is submitted or edited, at every event. <strong>Block</strong>{" "}
+        rejects the question and tells the asker why, <strong>Hide for review</strong> sends it
+        to the Hidden tab, and <strong>Flag</strong> publishes it marked for hosts. The strictest
+        matching rule wins.
+      </p>
+      <ScreeningRulesEditor />
+    </main>
+  );
+}
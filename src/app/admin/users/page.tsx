@@ -0,0 +1,246 @@
+"use client";
+
+import { useEffect, useState, FormEvent } from "react";
+import Link from "next/link";
+
+type Role = "owner" | "moderator" | "presenter";
+
+type AdminUser = {
+  id: string;
+  email: string;
+  name: string | null;
+  role: Role;
+  createdAt: string;
+};
+
+const ROLE_LABELS: Record<Role, string> = {
+  owner: "Owner",
+  moderator: "Moderator",
+  presenter: "Presenter",
+};
+
+const ROLE_HINTS: Record<Role, string> = {
+  owner: "Everything, including managing admin accounts and deleting events.",
+  moderator: "Create and edit events, answer, hide and pin questions.",
+  presenter: "Mark questions answered or reopen them.",
+};
+
+const inputClass =
+  "w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-400";
+
+export default function AdminUsersPage() {
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [forbidden, setForbidden] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // New account form
+  const [email, setEmail] = useState("");
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<Role>("moderator");
+  const [creating, setCreating] = useState(false);
+  const [createError, setCreateError] = useState<string | null>(null);
+
+  async function fetchUsers() {
+    const res = await fetch("/api/admin/users");
+    if (res.status === 403) setForbidden(true);
+    if (res.ok) setUsers(await res.json());
+    setLoading(false);
+  }
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  async function handleCreate(e: FormEvent) {
+    e.preventDefault();
+    setCreateError(null);
+    setCreating(true);
+    try {
+      const res = await fetch("/api/admin/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, name: name.trim() || null, password, role }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setCreateError(data.error ?? "Failed to create account.");
+        return;
+      }
+      setEmail("");
+      setName("");
+      setPassword("");
+      setRole("moderator");
+      await fetchUsers();
+    } catch {
+      setCreateError("Network error. Please try again.");
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  async function changeRole(user: AdminUser, next: Role) {
+    setActionError(null);
+    const res = await fetch("/api/admin/users", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id: user.id, role: next }),
+    });
+    if (!res.ok) {
+      const data = await res.json();
+      setActionError(data.error ?? "Failed to change role.");
+    }
+    await fetchUsers();
+  }
+
+  async function removeUser(user: AdminUser) {
+    if (!confirm(`Remove ${user.email}? They will no longer be able to log in.`)) return;
+    setActionError(null);
+    const res = await fetch("/api/admin/users", {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id: user.id }),
+    });
+    if (!res.ok) {
+      const data = await res.json();
+      setActionError(data.error ?? "Failed to remove account.");
+    }
+    await fetchUsers();
+  }
+
+  async function revokeSiteSessions() {
+    if (!confirm("Sign every visitor out of the site? They will need the site password again.")) return;
+    setActionError(null);
+    const res = await fetch("/api/admin/sessions", { method: "DELETE" });
+    const data = await res.json();
+    if (!res.ok) {
+      setActionError(data.error ?? "Failed to revoke site sessions.");
+      return;
+    }
+    alert(`Signed out ${data.revoked} site session${data.revoked === 1 ? "" : "s"}.`);
+  }
+
+  if (forbidden) {
+    return (
+      <main className="max-w-2xl mx-auto px-4 py-12 text-center text-gray-500">
+        Only owners can manage admin accounts.{" "}
+        <Link href="/admin" className="text-brand-700 hover:underline">
+          Back to events
+        </Link>
+      </main>
+    );
+  }
+
+  return (
+    <main className="max-w-2xl mx-auto px-4 py-8">
+      <Link href="/admin" className="text-sm text-brand-700 hover:underline">
+        ← All Events
+      </Link>
+      <h1 className="text-2xl font-bold mt-3 mb-6">Admin Accounts</h1>
+
+      {actionError && <p className="text-red-500 text-sm mb-3">{actionError}</p>}
+
+      {loading ? (
+        <p className="text-gray-400 text-sm">Loading...</p>
+      ) : (
+        <ul className="space-y-3 mb-10">
+          {users.map((user) => (
+            <li
+              key={user.id}
+              className="bg-white rounded-xl border border-gray-200 shadow-sm p-4 flex items-center gap-4"
+            >
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">{user.name ?? user.email}</p>
+                {user.name && <p className="text-xs text-gray-400 truncate">{user.email}</p>}
+              </div>
+              <select
+                value={user.role}
+                onChange={(e) => changeRole(user, e.target.value as Role)}
+                className="border border-gray-300 rounded-lg px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-brand-400"
+              >
+                {(Object.keys(ROLE_LABELS) as Role[]).map((r) => (
+                  <option key={r} value={r}>
+                    {ROLE_LABELS[r]}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => removeUser(user)}
+                className="px-3 py-1.5 text-xs text-red-600 bg-red-50 rounded-lg hover:bg-red-100 font-medium transition-colors"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form
+        onSubmit={handleCreate}
+        className="bg-white rounded-xl border border-gray-200 shadow-sm p-5 space-y-2"
+      >
+        <h2 className="font-semibold mb-1">Add an admin</h2>
+        <input
+          type="email"
+          required
+          placeholder="Email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className={inputClass}
+        />
+        <input
+          type="text"
+          placeholder="Name (optional)"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={100}
+          className={inputClass}
+        />
+        <input
+          type="password"
+          required
+          placeholder="Initial password (min 10 characters)"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className={inputClass}
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as Role)}
+          className={inputClass}
+        >
+          {(Object.keys(ROLE_LABELS) as Role[]).map((r) => (
+            <option key={r} value={r}>
+              {ROLE_LABELS[r]}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-400">{ROLE_HINTS[role]}</p>
+
+        {createError && <p className="text-red-500 text-sm">{createError}</p>}
+
+        <button
+          type="submit"
+          disabled={creating}
+          className="bg-gray-900 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-gray-700 disabled:opacity-50 transition-colors"
+        >
+          {creating ? "Creating..." : "Create Account"}
+        </button>
+      </form>
+
+      <div className="mt-10 bg-white rounded-xl border border-gray-200 shadow-sm p-5">
+        <h2 className="font-semibold mb-1">Site sessions</h2>
+        <p className="text-xs text-gray-400 mb-3">
+          After changing <code>SITE_PASSWORD</code>, sign everyone out so old cookies stop working.
+        </p>
+        <button
+          onClick={revokeSiteSessions}
+          className="px-3 py-1.5 text-xs text-red-600 bg-red-50 rounded-lg hover:bg-red-100 font-medium transition-colors"
+        >
+          Sign out all visitors
+        </button>
+      </div>
+    </main>
+  );
+}
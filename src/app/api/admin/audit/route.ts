@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { can } from "@/lib/auth";
+import { getAdminSession } from "@/lib/session";
+import { AUDIT_ACTIONS, type AuditAction } from "@/lib/audit";
+
+const PAGE_SIZE = 100;
+
+// GET /api/admin/audit?eventId=&action=&targetId=&cursor= — audit entries, newest first (admin)
+// Returns { entries, nextCursor }; pass nextCursor back as cursor for the next page.
+export async function GET(req: NextRequest) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!can(session.role, "events:view")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const params = req.nextUrl.searchParams;
+  const eventId = params.get("eventId") || undefined;
+  const targetId = params.get("targetId") || undefined;
+  const action = params.get("action") || undefined;
+  const cursor = params.get("cursor") || undefined;
+  if (action && !AUDIT_ACTIONS.includes(action as AuditAction)) {
+    return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+  }
+
+  const entries = await prisma.auditEntry.findMany({
+    where: { eventId, targetId, action },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: PAGE_SIZE + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+  });
+
+  const hasMore = entries.length > PAGE_SIZE;
+  const page = hasMore ? entries.slice(0, PAGE_SIZE) : entries;
+  return NextResponse.json({ entries: page, nextCursor: hasMore ? page[page.length - 1].id : null });
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { can } from "@/lib/auth";
+import { getAdminSession } from "@/lib/session";
+import {
+  EXPORT_FORMATS,
+  toCsv,
+  toJson,
+  toMarkdown,
+  type ExportFormat,
+  type ExportQuestion,
+} from "@/lib/export";
+
+type Params = { params: Promise<{ eventId: string }> };
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  md: "text/markdown; charset=utf-8",
+};
+
+// GET /api/admin/events/[eventId]/export?format=csv|json|md — download every question (admin)
+export async function GET(req: NextRequest, { params }: Params) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!can(session.role, "events:view")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { eventId } = await params;
+  const format = (req.nextUrl.searchParams.get("format") ?? "csv") as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json({ error: "format must be csv, json or md" }, { status: 400 });
+  }
+
+  const event = await prisma.event.findUnique({ where: { id: eventId, deletedAt: null } });
+  if (!event) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+
+  const questions = await prisma.question.findMany({
+    where: { eventId, deletedAt: null },
+    orderBy: { createdAt: "asc" },
+    include: { votes: { select: { value: true } }, answer: true },
+  });
+
+  const rows: ExportQuestion[] = questions.map((q) => {
+    const upvotes = q.votes.filter((v) => v.value > 0).length;
+    const downvotes = q.votes.length - upvotes;
+    return {
+      id: q.id,
+      text: q.text,
+      status: q.status,
+      isHidden: q.isHidden,
+      isPending: q.isPending,
+      isPinned: q.pinnedAt !== null,
+      submittedName: q.isAnonymous ? null : q.submittedName,
+      isAnonymous: q.isAnonymous,
+      upvotes,
+      downvotes,
+      score: upvotes - downvotes,
+      createdAt: q.createdAt.toISOString(),
+      answeredAt: q.answeredAt?.toISOString() ?? null,
+      answer: q.answer
+        ? {
+            text: q.answer.text,
+            answeredBy: q.answer.answeredBy,
+            answeredAt: q.answer.answeredAt.toISOString(),
+            link: q.answer.link,
+          }
+        : null,
+    };
+  });
+
+  const exportEvent = {
+    id: event.id,
+    title: event.title,
+    description: event.description,
+    startsAt: event.startsAt?.toISOString() ?? null,
+    status: event.status,
+    exportedAt: new Date().toISOString(),
+  };
+
+  const body =
+    format === "csv"
+      ? toCsv(rows)
+      : format === "json"
+      ? toJson(exportEvent, rows)
+      : toMarkdown(exportEvent, rows);
+
+  const slug = event.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "event";
+  return new NextResponse(body, {
+    headers: {
+      "Content-Type": CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${slug}-questions.${format}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { can } from "@/lib/auth";
+import { getAdminSession } from "@/lib/session";
+import { recordAudit } from "@/lib/audit";
+import { parseImport, type ImportFormat } from "@/lib/import";
+import { publish, toQuestionSnapshot } from "@/lib/realtime";
+
+type Params = { params: Promise<{ eventId: string }> };
+
+// POST /api/admin/events/[eventId]/import — bulk-create pre-submitted questions (admin)
+// Body: { format: "csv" | "json", data: string }
+// All-or-nothing: if any row fails validation nothing is created and every
+// row error is returned as { errors: [{ row, error }] }.
+export async function POST(req: NextRequest, { params }: Params) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!can(session.role, "events:manage")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { eventId } = await params;
+  const event = await prisma.event.findUnique({ where: { id: eventId, deletedAt: null } });
+  if (!event) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+
+  const body = await req.json();
+  const format: ImportFormat | null =
+    body?.format === "csv" || body?.format === "json" ? body.format : null;
+  if (!format) {
+    return NextResponse.json({ error: "format must be csv or json" }, { status: 400 });
+  }
+  if (typeof body?.data !== "string" || !body.data.trim()) {
+    return NextResponse.json({ error: "data is required" }, { status: 400 });
+  }
+
+  const result = parseImport(format, body.data);
+  if (typeof result === "string") {
+    return NextResponse.json({ error: result }, { status: 400 });
+  }
+  if (result.errors.length > 0) {
+    return NextResponse.json(
+      { error: `${result.errors.length} row(s) failed validation`, errors: result.errors },
+      { status: 400 }
+    );
+  }
+
+  const now = new Date();
+  const created = await prisma.$transaction(
+    result.rows.map((row) =>
+      prisma.question.create({
+        data: {
+          eventId,
+          text: row.text,
+          isAnonymous: row.isAnonymous,
+          submittedName: row.submittedName,
+          status: row.status,
+          answeredAt: row.status === "ANSWERED" ? now : null,
+        },
+      })
+    )
+  );
+
+  // One entry for the batch; the question IDs trace each row back to it
+  await recordAudit(req.cookies, "admin", {
+    eventId,
+    action: "questions.imported",
+    targetType: "import",
+    targetId: eventId,
+    after: { format, count: created.length, questionIds: created.map((q) => q.id) },
+  });
+
+  for (const question of created) {
+    publish(eventId, {
+      type: "question.created",
+      question: toQuestionSnapshot({ ...question, votes: [] }),
+      submitterId: null,
+    });
+  }
+
+  return NextResponse.json({ created: created.length }, { status: 201 });
+}
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { can } from "@/lib/auth";
+import { getAdminSession } from "@/lib/session";
+import { auditDiff, recordAudit } from "@/lib/audit";
+import {
+  MAX_PANELISTS_PER_EVENT,
+  getEventPanelists,
+  publishPanelists,
+  validatePanelist,
+} from "@/lib/panelists";
+
+type Params = { params: Promise<{ eventId: string }> };
+
+function readPanelist(body: unknown): { name: string; title: string | null } {
+  const { name, title } = (body ?? {}) as { name?: unknown; title?: unknown };
+  return {
+    name: typeof name === "string" ? name.trim() : "",
+    title: typeof title === "string" && title.trim() ? title.trim() : null,
+  };
+}
+
+// GET /api/admin/events/[eventId]/panelists — the event's panel in display order (admin)
+export async function GET(req: NextRequest, { params }: Params) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!can(session.role, "events:view")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { eventId } = await params;
+  return NextResponse.json(await getEventPanelists(eventId));
+}
+
+// POST /api/admin/events/[eventId]/panelists — add a panelist (admin)
+// Body: { name, title? }
+export async function POST(req: NextRequest, { params }: Params) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!can(session.role, "events:manage")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { eventId } = await params;
+  const event = await prisma.event.findUnique({ where: { id: eventId, deletedAt: null }, select: { id: true } });
+  if (!event) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+
+  const { name, title } = readPanelist(await req.json());
+  const error = validatePanelist(name, title);
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  const existing = await getEventPanelists(eventId);
+  if (existing.length >= MAX_PANELISTS_PER_EVENT) {
+    return NextResponse.json(
+      { error: `Events can have at most ${MAX_PANELISTS_PER_EVENT} panelists` },
+      { status: 400 }
+    );
+  }
+  if (existing.some((p) => p.name.toLowerCase() === name.toLowerCase())) {
+    return NextResponse.json({ error: "That panelist is already listed" }, { status: 409 });
+  }
+
+  const panelist = await prisma.eventPanelist.create({
+    data: { eventId, name, title, position: existing.length },
+    select: { id: true, name: true, title: true },
+  });
+  await recordAudit(req.cookies, "admin", {
+    eventId,
+    action: "panelist.created",
+    targetType: "panelist",
+    targetId: panelist.id,
+    after: { name, title },
+  });
+  await publishPanelists(eventId);
+  return NextResponse.json(panelist, { status: 201 });
+}
+
+// PATCH /api/admin/events/[eventId]/panelists — edit a panelist's name or title (admin)
+// Body: { id, name, title? }
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!can(session.role, "events:manage")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { eventId } = await params;
+  const body = await req.json();
+  const { id } = body ?? {};
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+  const { name, title } = readPanelist(body);
+  const error = validatePanelist(name, title);
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  const existing = await getEventPanelists(eventId);
+  const current = existing.find((p) => p.id === id);
+  if (!current) {
+    return NextResponse.json({ error: "Panelist not found" }, { status: 404 });
+  }
+  if (existing.some((p) => p.id !== id && p.name.toLowerCase() === name.toLowerCase())) {
+    return NextResponse.json({ error: "That panelist is already listed" }, { status: 409 });
+  }
+
+  const panelist = await prisma.eventPanelist.update({
+    where: { id },
+    data: { name, title },
+    select: { id: true, name: true, title: true },
+  });
+  await recordAudit(req.cookies, "admin", {
+    eventId,
+    action: "panelist.updated",
+    targetType: "panelist",
+    targetId: id,
+    ...auditDiff(current, { name, title }),
+  });
+  await publishPanelists(eventId);
+  return NextResponse.json(panelist);
+}
+
+// DELETE /api/admin/events/[eventId]/panelists — remove a panelist; their questions become undirected (admin)
+// Body: { id }
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!can(session.role, "events:manage")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { eventId } = await params;
+  const body = await req.json();
+  const { id } = body ?? {};
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  const panelist = await prisma.eventPanelist.findFirst({ where: { id, eventId } });
+  if (panelist) {
+    await prisma.eventPanelist.deleteMany({ where: { id, eventId } });
+    await recordAudit(req.cookies, "admin", {
+      eventId,
+      action: "panelist.deleted",
+      targetType: "panelist",
+      targetId: panelist.id,
+      before: { name: panelist.name, title: panelist.title },
+    });
+  }
+  await publishPanelists(eventId);
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { can } from "@/lib/auth";
+import { getAdminSession } from "@/lib/session";
+import { auditDiff, recordAudit } from "@/lib/audit";
+import { DEFAULT_RATE_LIMITS, getRateLimitRule, type RateLimitScope } from "@/lib/rateLimit";
+
+type Params = { params: Promise<{ eventId: string }> };
+
+const SCOPES: RateLimitScope[] = ["question", "vote"];
+const MAX_LIMIT = 10_000;
+const MAX_WINDOW_SEC = 24 * 60 * 60;
+
+function toResponse(event: Parameters<typeof getRateLimitRule>[0]) {
+  return {
+    question: {
+      ...getRateLimitRule(event, "question"),
+      isDefault: event.questionRateLimit === null,
+    },
+    vote: {
+      ...getRateLimitRule(event, "vote"),
+      isDefault: event.voteRateLimit === null,
+    },
+    defaults: DEFAULT_RATE_LIMITS,
+  };
+}
+
+// GET /api/admin/events/[eventId]/rate-limits — effective submission/vote limits (admin)
+export async function GET(req: NextRequest, { params }: Params) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!can(session.role, "events:view")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { eventId } = await params;
+  const event = await prisma.event.findUnique({ where: { id: eventId, deletedAt: null } });
+  if (!event) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+  return NextResponse.json(toResponse(event));
+}
+
+// PUT /api/admin/events/[eventId]/rate-limits — override or reset limits (admin)
+// Body: { question?: { limit, windowSec } | null, vote?: { limit, windowSec } | null }
+// null resets that scope to the default.
+export async function PUT(req: NextRequest, { params }: Params) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!can(session.role, "events:manage")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { eventId } = await params;
+  const body = await req.json();
+
+  const data: {
+    questionRateLimit?: number | null;
+    questionRateWindowSec?: number | null;
+    voteRateLimit?: number | null;
+    voteRateWindowSec?: number | null;
+  } = {};
+
+  for (const scope of SCOPES) {
+    if (!(scope in (body ?? {}))) continue;
+    const rule = body[scope];
+    let limit: number | null = null;
+    let windowSec: number | null = null;
+    if (rule !== null) {
+      limit = rule?.limit;
+      windowSec = rule?.windowSec;
+      if (!Number.isInteger(limit) || limit! < 1 || limit! > MAX_LIMIT) {
+        return NextResponse.json(
+          { error: `${scope}.limit must be a whole number from 1 to ${MAX_LIMIT}` },
+          { status: 400 }
+        );
+      }
+      if (!Number.isInteger(windowSec) || windowSec! < 1 || windowSec! > MAX_WINDOW_SEC) {
+        return NextResponse.json(
+          { error: `${scope}.windowSec must be a whole number of seconds up to one day` },
+          { status: 400 }
+        );
+      }
+    }
+    if (scope === "question") {
+      data.questionRateLimit = limit;
+      data.questionRateWindowSec = windowSec;
+    } else {
+      data.voteRateLimit = limit;
+      data.voteRateWindowSec = windowSec;
+    }
+  }
+
+  if (Object.keys(data).length === 0) {
+    return NextResponse.json({ error: "No valid fields to update" }, { status: 400 });
+  }
+
+  const existing = await prisma.event.findUnique({ where: { id: eventId, deletedAt: null } });
+  if (!existing) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+
+  const event = await prisma.event.update({ where: { id: eventId }, data });
+  await recordAudit(req.cookies, "admin", {
+    eventId,
+    action: "event.rate_limits_changed",
+    targetType: "event",
+    targetId: eventId,
+    ...auditDiff(existing, data),
+  });
+  return NextResponse.json(toResponse(event));
+}
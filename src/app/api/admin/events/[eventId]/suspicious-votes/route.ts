@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { can } from "@/lib/auth";
+import { getAdminSession } from "@/lib/session";
+import { recordAudit } from "@/lib/audit";
+import { publishQuestion } from "@/lib/realtime";
+import { FLAG_REASONS, SUSPICIOUS_VOTE_WHERE, type FlagReason } from "@/lib/voteAnomaly";
+
+type Params = { params: Promise<{ eventId: string }> };
+
+// GET /api/admin/events/[eventId]/suspicious-votes — flagged votes awaiting review, by question (admin)
+export async function GET(req: NextRequest, { params }: Params) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!can(session.role, "events:view")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { eventId } = await params;
+  const votes = await prisma.vote.findMany({
+    where: { ...SUSPICIOUS_VOTE_WHERE, question: { eventId, deletedAt: null } },
+    orderBy: { createdAt: "asc" },
+    include: { question: { select: { id: true, text: true } } },
+  });
+
+  const groups = new Map<
+    string,
+    {
+      question: { id: string; text: string };
+      votes: {
+        id: string;
+        value: number;
+        network: string | null;
+        voterIssuedAt: string | null;
+        createdAt: string;
+        reason: string;
+      }[];
+    }
+  >();
+  for (const v of votes) {
+    const group = groups.get(v.questionId) ?? { question: v.question, votes: [] };
+    group.votes.push({
+      id: v.id,
+      value: v.value,
+      // Short prefix of the IP hash — enough to tell networks apart
+      network: v.ipHash?.slice(0, 8) ?? null,
+      voterIssuedAt: v.voterIssuedAt?.toISOString() ?? null,
+      createdAt: v.createdAt.toISOString(),
+      reason: FLAG_REASONS[v.flagReason as FlagReason] ?? v.flagReason ?? "Flagged",
+    });
+    groups.set(v.questionId, group);
+  }
+
+  return NextResponse.json({ groups: Array.from(groups.values()) });
+}
+
+// POST /api/admin/events/[eventId]/suspicious-votes — review flagged votes (admin)
+// Body: { action: "discard" | "dismiss", voteIds: string[] }
+// discard deletes the votes; dismiss keeps them and clears the flag.
+export async function POST(req: NextRequest, { params }: Params) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!can(session.role, "questions:moderate")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { eventId } = await params;
+  const body = await req.json();
+  const action = body?.action;
+  if (action !== "discard" && action !== "dismiss") {
+    return NextResponse.json({ error: "action must be discard or dismiss" }, { status: 400 });
+  }
+  const voteIds: string[] = Array.isArray(body?.voteIds)
+    ? body.voteIds.filter((id: unknown): id is string => typeof id === "string")
+    : [];
+  if (voteIds.length === 0) {
+    return NextResponse.json({ error: "voteIds is required" }, { status: 400 });
+  }
+
+  // Only flagged votes belonging to this event can be reviewed here
+  const where = { id: { in: voteIds }, ...SUSPICIOUS_VOTE_WHERE, question: { eventId } };
+
+  const votes = await prisma.vote.findMany({
+    where,
+    select: { id: true, questionId: true, voterId: true, value: true, flagReason: true },
+  });
+  const reviewed = { where: { id: { in: votes.map((v) => v.id) } } };
+
+  if (action === "dismiss") {
+    await prisma.vote.updateMany({ ...reviewed, data: { flagDismissedAt: new Date() } });
+    for (const v of votes) {
+      await recordAudit(req.cookies, "admin", {
+        eventId,
+        action: "vote.dismissed",
+        targetType: "vote",
+        targetId: v.id,
+        before: { questionId: v.questionId, flagReason: v.flagReason },
+      });
+    }
+    return NextResponse.json({ dismissed: votes.length });
+  }
+
+  await prisma.vote.deleteMany(reviewed);
+  for (const v of votes) {
+    await recordAudit(req.cookies, "admin", {
+      eventId,
+      action: "vote.discarded",
+      targetType: "vote",
+      targetId: v.id,
+      before: { questionId: v.questionId, voterId: v.voterId, value: v.value, flagReason: v.flagReason },
+    });
+  }
+
+  // Push the corrected scores to everyone watching, and clear the discarded
+  // voters' own arrows so their next click starts from no vote
+  const questionIds = Array.from(new Set(votes.map((v) => v.questionId)));
+  for (const questionId of questionIds) {
+    const cleared = votes
+      .filter((v) => v.questionId === questionId)
+      .map((v) => ({ voterId: v.voterId, value: null }));
+    await publishQuestion("question.voted", questionId, cleared);
+  }
+
+  return NextResponse.json({ discarded: votes.length });
+}
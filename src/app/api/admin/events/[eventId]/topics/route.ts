@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { can } from "@/lib/auth";
+import { getAdminSession } from "@/lib/session";
+import { recordAudit } from "@/lib/audit";
+import { MAX_TOPICS_PER_EVENT, getEventTopics, publishTopics, validateTopicName } from "@/lib/topics";
+
+type Params = { params: Promise<{ eventId: string }> };
+
+// GET /api/admin/events/[eventId]/topics — the event's topics in display order (admin)
+export async function GET(req: NextRequest, { params }: Params) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!can(session.role, "events:view")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { eventId } = await params;
+  return NextResponse.json(await getEventTopics(eventId));
+}
+
+// POST /api/admin/events/[eventId]/topics — add a topic (admin)
+// Body: { name }
+export async function POST(req: NextRequest, { params }: Params) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!can(session.role, "events:manage")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { eventId } = await params;
+  const event = await prisma.event.findUnique({ where: { id: eventId, deletedAt: null }, select: { id: true } });
+  if (!event) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+
+  const body = await req.json();
+  const name = typeof body?.name === "string" ? body.name.trim() : "";
+  const error = validateTopicName(name);
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  const existing = await getEventTopics(eventId);
+  if (existing.length >= MAX_TOPICS_PER_EVENT) {
+    return NextResponse.json({ error: `Events can have at most ${MAX_TOPICS_PER_EVENT} topics` }, { status: 400 });
+  }
+  if (existing.some((t) => t.name.toLowerCase() === name.toLowerCase())) {
+    return NextResponse.json({ error: "That topic already exists" }, { status: 409 });
+  }
+
+  const topic = await prisma.eventTopic.create({
+    data: { eventId, name, position: existing.length },
+    select: { id: true, name: true },
+  });
+  await recordAudit(req.cookies, "admin", {
+    eventId,
+    action: "topic.created",
+    targetType: "topic",
+    targetId: topic.id,
+    after: { name },
+  });
+  await publishTopics(eventId);
+  return NextResponse.json(topic, { status: 201 });
+}
+
+// PATCH /api/admin/events/[eventId]/topics — rename a topic (admin)
+// Body: { id, name }
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!can(session.role, "events:manage")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { eventId } = await params;
+  const body = await req.json();
+  const { id } = body ?? {};
+  const name = typeof body?.name === "string" ? body.name.trim() : "";
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+  const error = validateTopicName(name);
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  const existing = await getEventTopics(eventId);
+  const current = existing.find((t) => t.id === id);
+  if (!current) {
+    return NextResponse.json({ error: "Topic not found" }, { status: 404 });
+  }
+  if (existing.some((t) => t.id !== id && t.name.toLowerCase() === name.toLowerCase())) {
+    return NextResponse.json({ error: "That topic already exists" }, { status: 409 });
+  }
+
+  const topic = await prisma.eventTopic.update({
+    where: { id },
+    data: { name },
+    select: { id: true, name: true },
+  });
+  await recordAudit(req.cookies, "admin", {
+    eventId,
+    action: "topic.renamed",
+    targetType: "topic",
+    targetId: id,
+    before: { name: current.name },
+    after: { name },
+  });
+  await publishTopics(eventId);
+  return NextResponse.json(topic);
+}
+
+// DELETE /api/admin/events/[eventId]/topics — remove a topic; its questions become untagged (admin)
+// Body: { id }
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!can(session.role, "events:manage")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { eventId } = await params;
+  const body = await req.json();
+  const { id } = body ?? {};
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  const topic = await prisma.eventTopic.findFirst({ where: { id, eventId } });
+  if (topic) {
+    await prisma.eventTopic.deleteMany({ where: { id, eventId } });
+    await recordAudit(req.cookies, "admin", {
+      eventId,
+      action: "topic.deleted",
+      targetType: "topic",
+      targetId: topic.id,
+      before: { name: topic.name },
+    });
+  }
+  await publishTopics(eventId);
+  return NextResponse.json({ success: true });
+}
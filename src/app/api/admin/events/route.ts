@@ -1,35 +1,46 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { ADMIN_COOKIE, verifySessionToken } from "@/lib/auth";
+import { can } from "@/lib/auth";
+import { getAdminSession } from "@/lib/session";
+import { publish, publishEvent } from "@/lib/realtime";
+import { auditDiff, recordAudit } from "@/lib/audit";
+import { setNowAnswering } from "@/lib/nowAnswering";
+import { parseTimerSettings } from "@/lib/sessionTimer";
 
 // GET /api/admin/events — list ALL events including inactive (admin)
 export async function GET(req: NextRequest) {
-  const token = req.cookies.get(ADMIN_COOKIE)?.value;
-  const isAdmin = token ? await verifySessionToken(token) : false;
-  if (!isAdmin) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
+  if (!can(session.role, "events:view")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
 
   const events = await prisma.event.findMany({
+    where: { deletedAt: null },
     orderBy: { createdAt: "desc" },
     include: {
-      _count: { select: { questions: true } },
+      _count: { select: { questions: { where: { deletedAt: null } } } },
     },
   });
   return NextResponse.json(events);
 }
 
 // PATCH /api/admin/events — update event fields (admin)
-// Body: { id, isActive?, isVotingOpen?, title?, description?, startsAt? }
+// Body: { id, isActive?, isVotingOpen?, isModerated?, title?, description?, startsAt?,
+//         durationMinutes?, questionLimitMinutes? }
 export async function PATCH(req: NextRequest) {
-  const token = req.cookies.get(ADMIN_COOKIE)?.value;
-  const isAdmin = token ? await verifySessionToken(token) : false;
-  if (!isAdmin) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
+  if (!can(session.role, "events:manage")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
 
   const body = await req.json();
-  const { id, isActive, isVotingOpen, status, title, description, startsAt, type, hostName } = body;
+  const { id, isActive, isVotingOpen, isModerated, status, title, description, startsAt, type, hostName } = body;
   if (!id) {
     return NextResponse.json({ error: "id is required" }, { status: 400 });
   }
@@ -37,16 +48,20 @@ export async function PATCH(req: NextRequest) {
   const data: {
     isActive?: boolean;
     isVotingOpen?: boolean;
+    isModerated?: boolean;
     status?: "OPEN" | "CLOSED";
     title?: string;
     description?: string | null;
     startsAt?: Date | null;
     type?: "company" | "team";
     hostName?: string | null;
+    durationMinutes?: number | null;
+    questionLimitMinutes?: number | null;
   } = {};
 
   if (typeof isActive === "boolean") data.isActive = isActive;
   if (typeof isVotingOpen === "boolean") data.isVotingOpen = isVotingOpen;
+  if (typeof isModerated === "boolean") data.isModerated = isModerated;
   if (status === "OPEN" || status === "CLOSED") data.status = status;
   if (typeof title === "string" && title.trim()) data.title = title.trim();
   if ("description" in body) data.description = description?.trim() || null;
@@ -57,23 +72,46 @@ export async function PATCH(req: NextRequest) {
     if (type === "company") data.hostName = null;
   }
   if ("hostName" in body) data.hostName = hostName?.trim() || null;
+  const timer = parseTimerSettings(body);
+  if ("error" in timer) {
+    return NextResponse.json({ error: timer.error }, { status: 400 });
+  }
+  Object.assign(data, timer.data);
 
   if (Object.keys(data).length === 0) {
     return NextResponse.json({ error: "No valid fields to update" }, { status: 400 });
   }
 
-  const event = await prisma.event.update({ where: { id }, data });
+  const before = await prisma.event.findUnique({ where: { id, deletedAt: null } });
+  if (!before) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+
+  let event = await prisma.event.update({ where: { id }, data });
+  // Stops the recap's clock on whatever was on screen
+  if (data.status === "CLOSED") event = await setNowAnswering(id, null);
+  await recordAudit(req.cookies, "admin", {
+    eventId: id,
+    action: data.status === "CLOSED" && before.status !== "CLOSED" ? "event.closed" : "event.updated",
+    targetType: "event",
+    targetId: id,
+    ...auditDiff(before, data),
+  });
+  publishEvent(event);
   return NextResponse.json(event);
 }
 
-// DELETE /api/admin/events — permanently delete an event (admin)
+// DELETE /api/admin/events — move an event to the trash (admin)
 // Body: { id }
+// Restorable from /admin for 30 days; `npm run db:purge-trash` removes it for good after that.
 export async function DELETE(req: NextRequest) {
-  const token = req.cookies.get(ADMIN_COOKIE)?.value;
-  const isAdmin = token ? await verifySessionToken(token) : false;
-  if (!isAdmin) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
+  if (!can(session.role, "events:delete")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
 
   const body = await req.json();
   const { id } = body;
@@ -81,6 +119,21 @@ export async function DELETE(req: NextRequest) {
     return NextResponse.json({ error: "id is required" }, { status: 400 });
   }
 
-  await prisma.event.delete({ where: { id } });
+  const event = await prisma.event.findUnique({ where: { id, deletedAt: null } });
+  if (!event) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+
+  const data = { deletedAt: new Date() };
+  await prisma.event.update({ where: { id }, data });
+  await recordAudit(req.cookies, "admin", {
+    eventId: id,
+    action: "event.deleted",
+    targetType: "event",
+    targetId: id,
+    ...auditDiff(event, data),
+  });
+  // Open pages drop the event rather than keep taking questions for it
+  publish(id, { type: "event.removed" });
   return NextResponse.json({ success: true });
 }
@@ -1,38 +1,41 @@
 import { NextRequest, NextResponse } from "next/server";
-import {
-  verifyAdminPassword,
-  createSessionToken,
-  ADMIN_COOKIE,
-} from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { ADMIN_COOKIE, ADMIN_SESSION_TTL } from "@/lib/auth";
+import { startSession } from "@/lib/session";
+import { verifyPassword } from "@/lib/password";
 
 // POST /api/admin/login
+// Body: { email, password }
 export async function POST(req: NextRequest) {
   const body = await req.json();
+  const email = typeof body?.email === "string" ? body.email.trim().toLowerCase() : "";
   const password = body?.password;
 
-  if (!password || typeof password !== "string") {
-    return NextResponse.json({ error: "Password required" }, { status: 400 });
+  if (!email || !password || typeof password !== "string") {
+    return NextResponse.json({ error: "Email and password required" }, { status: 400 });
   }
 
-  let isValid: boolean;
+  const user = await prisma.adminUser.findUnique({ where: { email } });
+  const isValid = user ? await verifyPassword(password, user.passwordHash) : false;
+
+  if (!user || !isValid) {
+    return NextResponse.json({ error: "Invalid email or password" }, { status: 401 });
+  }
+
+  let token: string;
   try {
-    isValid = verifyAdminPassword(password);
+    token = await startSession("admin", ADMIN_SESSION_TTL, user);
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : "Server error";
     return NextResponse.json({ error: message }, { status: 500 });
   }
 
-  if (!isValid) {
-    return NextResponse.json({ error: "Invalid password" }, { status: 401 });
-  }
-
-  const token = await createSessionToken();
-  const res = NextResponse.json({ ok: true });
+  const res = NextResponse.json({ ok: true, role: user.role });
 
   res.cookies.set(ADMIN_COOKIE, token, {
     httpOnly: true,
     sameSite: "lax",
-    maxAge: 60 * 60 * 8, // 8 hours
+    maxAge: ADMIN_SESSION_TTL,
     path: "/",
     // secure: true is set automatically in production by Next.js when served over HTTPS
   });
@@ -1,8 +1,22 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { ADMIN_COOKIE } from "@/lib/auth";
+import { getAdminSession, revokeAdminUserSessions, revokeSession } from "@/lib/session";
 
 // POST /api/admin/logout
-export async function POST() {
+// Body (optional): { everywhere: true } — also revoke this account's sessions
+// in every other browser.
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => null);
+  const session = await getAdminSession(req.cookies);
+
+  if (session) {
+    if (body?.everywhere === true) {
+      await revokeAdminUserSessions(session.userId);
+    } else {
+      await revokeSession(session.sid);
+    }
+  }
+
   const res = NextResponse.json({ ok: true });
   res.cookies.delete(ADMIN_COOKIE);
   return res;
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ScreeningAction, ScreeningMatch } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { can } from "@/lib/auth";
+import { getAdminSession } from "@/lib/session";
+import { recordAudit } from "@/lib/audit";
+import { SCREENING_ACTIONS, SCREENING_MATCHES, validateRule } from "@/lib/screening";
+
+// GET /api/admin/screening-rules?eventId= — rules for one event, or the global rules without eventId (admin)
+export async function GET(req: NextRequest) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!can(session.role, "events:view")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const eventId = req.nextUrl.searchParams.get("eventId") || null;
+  const rules = await prisma.screeningRule.findMany({
+    where: { eventId },
+    orderBy: { createdAt: "asc" },
+  });
+  return NextResponse.json(rules);
+}
+
+// POST /api/admin/screening-rules — add rules (admin)
+// Body: { eventId?, match, pattern?, action }
+// For match "word", pattern may be a comma- or newline-separated list; one rule is created per word.
+export async function POST(req: NextRequest) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!can(session.role, "questions:moderate")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const body = await req.json();
+  const match = body?.match as ScreeningMatch;
+  const action = body?.action as ScreeningAction;
+  if (!SCREENING_MATCHES.includes(match)) {
+    return NextResponse.json({ error: "Unknown match type" }, { status: 400 });
+  }
+  if (!SCREENING_ACTIONS.includes(action)) {
+    return NextResponse.json({ error: "action must be block, hide or flag" }, { status: 400 });
+  }
+
+  const eventId = typeof body?.eventId === "string" && body.eventId ? body.eventId : null;
+  if (eventId && !(await prisma.event.findUnique({ where: { id: eventId }, select: { id: true } }))) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+
+  const raw = typeof body?.pattern === "string" ? body.pattern.trim() : "";
+  const patterns =
+    match === "word"
+      ? Array.from(new Set(raw.split(/[,\n]/).map((w: string) => w.trim()).filter(Boolean)))
+      : [raw || null];
+
+  for (const pattern of patterns.length > 0 ? patterns : [null]) {
+    const error = validateRule(match, pattern);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+  }
+
+  const created = await prisma.$transaction(
+    patterns.map((pattern) =>
+      prisma.screeningRule.create({ data: { eventId, match, pattern, action } })
+    )
+  );
+  for (const rule of created) {
+    await recordAudit(req.cookies, "admin", {
+      eventId,
+      action: "screening_rule.created",
+      targetType: "screening_rule",
+      targetId: rule.id,
+      after: { match, pattern: rule.pattern, action },
+    });
+  }
+  return NextResponse.json(created, { status: 201 });
+}
+
+// DELETE /api/admin/screening-rules — remove a rule (admin)
+// Body: { id }
+export async function DELETE(req: NextRequest) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!can(session.role, "questions:moderate")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const body = await req.json();
+  const { id } = body;
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  const rule = await prisma.screeningRule.findUnique({ where: { id } });
+  if (rule) {
+    await prisma.screeningRule.deleteMany({ where: { id } });
+    await recordAudit(req.cookies, "admin", {
+      eventId: rule.eventId,
+      action: "screening_rule.deleted",
+      targetType: "screening_rule",
+      targetId: rule.id,
+      before: { match: rule.match, pattern: rule.pattern, action: rule.action },
+    });
+  }
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { can } from "@/lib/auth";
+import { getAdminSession, revokeSiteSessions } from "@/lib/session";
+
+// DELETE /api/admin/sessions — sign every visitor out of the site password (owner)
+// Use after changing SITE_PASSWORD so old cookies stop working.
+export async function DELETE(req: NextRequest) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!can(session.role, "users:manage")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const revoked = await revokeSiteSessions();
+  return NextResponse.json({ revoked });
+}
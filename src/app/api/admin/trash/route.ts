@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { can } from "@/lib/auth";
+import { getAdminSession } from "@/lib/session";
+import { publishEvent, publishQuestion } from "@/lib/realtime";
+import { auditDiff, recordAudit } from "@/lib/audit";
+import { purgeDate, trashCutoff } from "@/lib/trash";
+
+// GET /api/admin/trash — deleted events and questions that can still be restored (admin)
+export async function GET(req: NextRequest) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!can(session.role, "events:view")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const restorable = { deletedAt: { gte: trashCutoff() } };
+  const [events, questions] = await Promise.all([
+    prisma.event.findMany({
+      where: restorable,
+      orderBy: { deletedAt: "desc" },
+      select: {
+        id: true,
+        title: true,
+        type: true,
+        deletedAt: true,
+        _count: { select: { questions: { where: { deletedAt: null } } } },
+      },
+    }),
+    prisma.question.findMany({
+      // Merged questions live on in the question they were merged into
+      where: { ...restorable, mergedIntoId: null },
+      orderBy: { deletedAt: "desc" },
+      select: {
+        id: true,
+        text: true,
+        deletedAt: true,
+        event: { select: { id: true, title: true, deletedAt: true } },
+      },
+    }),
+  ]);
+
+  return NextResponse.json({
+    events: events.map(({ _count, ...e }) => ({
+      ...e,
+      questionCount: _count.questions,
+      purgesAt: purgeDate(e.deletedAt!),
+    })),
+    // Questions of a trashed event come back with it, so they are not listed separately
+    questions: questions
+      .filter((q) => !q.event.deletedAt)
+      .map(({ event, ...q }) => ({
+        ...q,
+        event: { id: event.id, title: event.title },
+        purgesAt: purgeDate(q.deletedAt!),
+      })),
+  });
+}
+
+// POST /api/admin/trash — restore a deleted event or question (admin)
+// Body: { type: "event" | "question", id }
+export async function POST(req: NextRequest) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await req.json();
+  const { type, id } = body ?? {};
+  if ((type !== "event" && type !== "question") || !id) {
+    return NextResponse.json({ error: "type (event or question) and id are required" }, { status: 400 });
+  }
+  if (!can(session.role, type === "event" ? "events:manage" : "questions:moderate")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const where = { id, deletedAt: { gte: trashCutoff() } };
+  const data = { deletedAt: null };
+
+  if (type === "event") {
+    const event = await prisma.event.findUnique({ where });
+    if (!event) {
+      return NextResponse.json({ error: "Event not found in the trash" }, { status: 404 });
+    }
+    const restored = await prisma.event.update({ where: { id }, data });
+    await recordAudit(req.cookies, "admin", {
+      eventId: id,
+      action: "event.restored",
+      targetType: "event",
+      targetId: id,
+      ...auditDiff(event, data),
+    });
+    publishEvent(restored);
+    return NextResponse.json(restored);
+  }
+
+  const question = await prisma.question.findUnique({ where: { ...where, mergedIntoId: null } });
+  if (!question) {
+    return NextResponse.json({ error: "Question not found in the trash" }, { status: 404 });
+  }
+  const restored = await prisma.question.update({ where: { id }, data });
+  await recordAudit(req.cookies, "admin", {
+    eventId: question.eventId,
+    action: "question.restored",
+    targetType: "question",
+    targetId: id,
+    ...auditDiff(question, data),
+  });
+  await publishQuestion("question.restored", id);
+  return NextResponse.json(restored);
+}
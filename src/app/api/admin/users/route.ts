@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { AdminRole } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { can } from "@/lib/auth";
+import { getAdminSession, revokeAdminUserSessions } from "@/lib/session";
+import { auditDiff, recordAudit } from "@/lib/audit";
+import { hashPassword, validateNewPassword } from "@/lib/password";
+
+const ROLES: AdminRole[] = ["owner", "moderator", "presenter"];
+
+const userSelect = { id: true, email: true, name: true, role: true, createdAt: true } as const;
+
+// GET /api/admin/users — list admin accounts (owner)
+export async function GET(req: NextRequest) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!can(session.role, "users:manage")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const users = await prisma.adminUser.findMany({
+    orderBy: { createdAt: "asc" },
+    select: userSelect,
+  });
+  return NextResponse.json(users);
+}
+
+// POST /api/admin/users — create an admin account (owner)
+// Body: { email, password, name?, role? }
+export async function POST(req: NextRequest) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!can(session.role, "users:manage")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const body = await req.json();
+  const email = typeof body?.email === "string" ? body.email.trim().toLowerCase() : "";
+  const password = typeof body?.password === "string" ? body.password : "";
+  const name = body?.name?.trim() || null;
+  const role: AdminRole = ROLES.includes(body?.role) ? body.role : "moderator";
+
+  if (!email || !email.includes("@")) {
+    return NextResponse.json({ error: "A valid email is required" }, { status: 400 });
+  }
+  const passwordError = validateNewPassword(password);
+  if (passwordError) {
+    return NextResponse.json({ error: passwordError }, { status: 400 });
+  }
+
+  const existing = await prisma.adminUser.findUnique({ where: { email } });
+  if (existing) {
+    return NextResponse.json({ error: "An account with that email already exists" }, { status: 409 });
+  }
+
+  const user = await prisma.adminUser.create({
+    data: { email, name, role, passwordHash: await hashPassword(password) },
+    select: userSelect,
+  });
+  // Admin accounts are site-wide, so their entries carry no event
+  await recordAudit(req.cookies, "admin", {
+    eventId: null,
+    action: "admin_user.created",
+    targetType: "admin_user",
+    targetId: user.id,
+    after: { email, name, role },
+  });
+  return NextResponse.json(user, { status: 201 });
+}
+
+// PATCH /api/admin/users — update role, name or password (owner)
+// Body: { id, role?, name?, password? }
+export async function PATCH(req: NextRequest) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!can(session.role, "users:manage")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const body = await req.json();
+  const { id, role, name, password } = body;
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  const user = await prisma.adminUser.findUnique({ where: { id } });
+  if (!user) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+
+  const data: { role?: AdminRole; name?: string | null; passwordHash?: string } = {};
+
+  if (ROLES.includes(role)) {
+    if (user.role === "owner" && role !== "owner" && (await countOwners()) <= 1) {
+      return NextResponse.json({ error: "Cannot demote the last owner" }, { status: 409 });
+    }
+    data.role = role;
+  }
+  if ("name" in body) data.name = name?.trim() || null;
+  if (typeof password === "string" && password) {
+    const passwordError = validateNewPassword(password);
+    if (passwordError) {
+      return NextResponse.json({ error: passwordError }, { status: 400 });
+    }
+    data.passwordHash = await hashPassword(password);
+  }
+
+  if (Object.keys(data).length === 0) {
+    return NextResponse.json({ error: "No valid fields to update" }, { status: 400 });
+  }
+
+  const updated = await prisma.adminUser.update({ where: { id }, data, select: userSelect });
+  // A password reset signs the account out of every browser
+  if (data.passwordHash) await revokeAdminUserSessions(id);
+  // The hash never goes into the trail; a reset shows as a flag
+  const { passwordHash, ...fields } = data;
+  await recordAudit(req.cookies, "admin", {
+    eventId: null,
+    action: "admin_user.updated",
+    targetType: "admin_user",
+    targetId: id,
+    ...auditDiff(user, { ...fields, ...(passwordHash ? { passwordReset: true } : {}) }),
+  });
+  return NextResponse.json(updated);
+}
+
+// DELETE /api/admin/users — remove an admin account (owner)
+// Body: { id }
+export async function DELETE(req: NextRequest) {
+  const session = await getAdminSession(req.cookies);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!can(session.role, "users:manage")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const body = await req.json();
+  const { id } = body;
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+  if (id === session.userId) {
+    return NextResponse.json({ error: "You cannot delete your own account" }, { status: 409 });
+  }
+
+  const user = await prisma.adminUser.findUnique({ where: { id } });
+  if (!user) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+  if (user.role === "owner" && (await countOwners()) <= 1) {
+    return NextResponse.json({ error: "Cannot delete the last owner" }, { status: 409 });
+  }
+
+  await prisma.adminUser.delete({ where: { id } });
+  await recordAudit(req.cookies, "admin", {
+    eventId: null,
+    action: "admin_user.deleted",
+    targetType: "admin_user",
+    targetId: id,
+    before: { email: user.email, name: user.name, role: user.role },
+  });
+  return NextResponse.json({ success: true });
+}
+
+function countOwners(): Promise<number> {
+  return prisma.adminUser.count({ where: { role: "owner" } });
+}
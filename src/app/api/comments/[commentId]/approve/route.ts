@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getQuestionAccess } from "@/lib/eventAccess";
+import { publishQuestion } from "@/lib/realtime";
+import { auditDiff, recordAudit } from "@/lib/audit";
+import { toCommentSnapshot } from "@/lib/comments";
+
+type Params = { params: Promise<{ commentId: string }> };
+
+// POST /api/comments/[commentId]/approve — publish a pending comment (admin or event host)
+export async function POST(req: NextRequest, { params }: Params) {
+  const { commentId } = await params;
+  const comment = await prisma.comment.findUnique({
+    where: { id: commentId },
+    include: { question: { select: { eventId: true } } },
+  });
+  if (!comment) {
+    return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+  }
+  const access = await getQuestionAccess(req.cookies, comment.questionId, "questions:moderate");
+  if (!access) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const data = { isPending: false, isHidden: false };
+  const updated = await prisma.comment.update({ where: { id: commentId }, data });
+  await recordAudit(req.cookies, access, {
+    eventId: comment.question.eventId,
+    action: "comment.approved",
+    targetType: "comment",
+    targetId: commentId,
+    ...auditDiff(comment, data),
+  });
+  await publishQuestion("question.commented", comment.questionId);
+  return NextResponse.json(toCommentSnapshot(updated));
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getQuestionAccess } from "@/lib/eventAccess";
+import { publishQuestion } from "@/lib/realtime";
+import { auditDiff, recordAudit } from "@/lib/audit";
+import { toCommentSnapshot } from "@/lib/comments";
+
+type Params = { params: Promise<{ commentId: string }> };
+
+async function setHidden(req: NextRequest, commentId: string, isHidden: boolean) {
+  const comment = await prisma.comment.findUnique({
+    where: { id: commentId },
+    include: { question: { select: { eventId: true } } },
+  });
+  if (!comment) {
+    return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+  }
+  const access = await getQuestionAccess(req.cookies, comment.questionId, "questions:moderate");
+  if (!access) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const data = { isHidden };
+  const updated = await prisma.comment.update({ where: { id: commentId }, data });
+  await recordAudit(req.cookies, access, {
+    eventId: comment.question.eventId,
+    action: isHidden ? "comment.hidden" : "comment.unhidden",
+    targetType: "comment",
+    targetId: commentId,
+    ...auditDiff(comment, data),
+  });
+  await publishQuestion("question.commented", comment.questionId);
+  return NextResponse.json(toCommentSnapshot(updated));
+}
+
+// POST /api/comments/[commentId]/hide — hide a comment from attendees (admin or event host)
+export async function POST(req: NextRequest, { params }: Params) {
+  const { commentId } = await params;
+  return setHidden(req, commentId, true);
+}
+
+// DELETE /api/comments/[commentId]/hide — unhide a comment (admin or event host)
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const { commentId } = await params;
+  return setHidden(req, commentId, false);
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getVoterId } from "@/lib/voter";
+
+type Params = { params: Promise<{ eventId: string }> };
+
+// POST /api/events/[eventId]/cohosts/join — accept a co-host invite (public, needs the invite token)
+// Body: { token, name }
+export async function POST(req: NextRequest, { params }: Params) {
+  const { eventId } = await params;
+  const voterId = await getVoterId(req.cookies);
+  if (!voterId) {
+    return NextResponse.json({ error: "Please reload the page and try again." }, { status: 400 });
+  }
+
+  const body = await req.json();
+  const token = typeof body?.token === "string" ? body.token : "";
+  const name = typeof body?.name === "string" ? body.name.trim() : "";
+  if (!name) {
+    return NextResponse.json({ error: "Your name is required" }, { status: 400 });
+  }
+  if (name.length > 100) {
+    return NextResponse.json({ error: "Name must be 100 characters or fewer" }, { status: 400 });
+  }
+
+  const event = await prisma.event.findUnique({ where: { id: eventId, deletedAt: null } });
+  if (!event || event.type !== "team" || !token || event.coHostInviteToken !== token) {
+    return NextResponse.json({ error: "This invite link is invalid or has been reset." }, { status: 404 });
+  }
+  if (event.createdByUserId === voterId) {
+    return NextResponse.json({ success: true });
+  }
+
+  await prisma.eventCoHost.upsert({
+    where: { eventId_voterId: { eventId, voterId } },
+    create: { eventId, voterId, name },
+    update: { name },
+  });
+  return NextResponse.json({ success: true });
+}
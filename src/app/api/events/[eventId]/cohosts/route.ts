@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getEventAccess } from "@/lib/eventAccess";
+import { recordAudit } from "@/lib/audit";
+
+type Params = { params: Promise<{ eventId: string }> };
+
+// Only the creator and admins manage the co-host list; co-hosts can view it.
+async function loadEventWithAccess(req: NextRequest, eventId: string) {
+  const event = await prisma.event.findUnique({ where: { id: eventId, deletedAt: null } });
+  if (!event) return { event: null, access: null };
+  return { event, access: await getEventAccess(req.cookies, event) };
+}
+
+// GET /api/events/[eventId]/cohosts — list co-hosts (any host)
+// The invite token is only returned to the creator and admins.
+export async function GET(req: NextRequest, { params }: Params) {
+  const { eventId } = await params;
+  const { event, access } = await loadEventWithAccess(req, eventId);
+  if (!event) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+  if (!access) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const coHosts = await prisma.eventCoHost.findMany({
+    where: { eventId },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, name: true, createdAt: true },
+  });
+  const canInvite = access !== "cohost";
+  return NextResponse.json({
+    coHosts,
+    canInvite,
+    inviteToken: canInvite ? event.coHostInviteToken : null,
+  });
+}
+
+// POST /api/events/[eventId]/cohosts — create or reset the invite link (creator or admin)
+// Resetting invalidates the previous link; existing co-hosts keep their access.
+export async function POST(req: NextRequest, { params }: Params) {
+  const { eventId } = await params;
+  const { event, access } = await loadEventWithAccess(req, eventId);
+  if (!event) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+  if (event.type !== "team") {
+    return NextResponse.json({ error: "Only team events have co-hosts" }, { status: 400 });
+  }
+  if (access !== "creator" && access !== "admin") {
+    return NextResponse.json({ error: "Only the event creator can invite co-hosts" }, { status: 403 });
+  }
+
+  const updated = await prisma.event.update({
+    where: { id: eventId },
+    data: { coHostInviteToken: crypto.randomUUID() },
+  });
+  // The token itself stays out of the trail; anyone reading it could join
+  await recordAudit(req.cookies, access, {
+    eventId,
+    action: "cohost.invite_reset",
+    targetType: "cohost",
+    targetId: eventId,
+  });
+  return NextResponse.json({ inviteToken: updated.coHostInviteToken });
+}
+
+// DELETE /api/events/[eventId]/cohosts — remove a co-host, or disable the invite link (creator or admin)
+// Body: { id } | { invite: true }
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const { eventId } = await params;
+  const { event, access } = await loadEventWithAccess(req, eventId);
+  if (!event) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+  if (access !== "creator" && access !== "admin") {
+    return NextResponse.json({ error: "Only the event creator can manage co-hosts" }, { status: 403 });
+  }
+
+  const body = await req.json();
+  if (body?.invite === true) {
+    await prisma.event.update({ where: { id: eventId }, data: { coHostInviteToken: null } });
+    await recordAudit(req.cookies, access, {
+      eventId,
+      action: "cohost.invite_disabled",
+      targetType: "cohost",
+      targetId: eventId,
+    });
+    return NextResponse.json({ success: true });
+  }
+  if (!body?.id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  const coHost = await prisma.eventCoHost.findFirst({ where: { id: body.id, eventId } });
+  const { count } = await prisma.eventCoHost.deleteMany({ where: { id: body.id, eventId } });
+  if (!coHost || count === 0) {
+    return NextResponse.json({ error: "Co-host not found" }, { status: 404 });
+  }
+  await recordAudit(req.cookies, access, {
+    eventId,
+    action: "cohost.removed",
+    targetType: "cohost",
+    targetId: coHost.id,
+    before: { name: coHost.name, voterId: coHost.voterId },
+  });
+  return NextResponse.json({ success: true });
+}
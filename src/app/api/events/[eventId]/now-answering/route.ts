@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getEventAccess } from "@/lib/eventAccess";
+import { publishEvent } from "@/lib/realtime";
+import { setNowAnswering } from "@/lib/nowAnswering";
+
+type Params = { params: Promise<{ eventId: string }> };
+
+// PUT /api/events/[eventId]/now-answering — set the question on the presenter's screen (admin or team event host)
+// Body: { questionId }  (null clears it)
+export async function PUT(req: NextRequest, { params }: Params) {
+  const { eventId } = await params;
+  const event = await prisma.event.findUnique({ where: { id: eventId, deletedAt: null } });
+  if (!event) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+  if (!(await getEventAccess(req.cookies, event, "questions:answer"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  if (event.status === "CLOSED") {
+    return NextResponse.json({ error: "This event is closed." }, { status: 409 });
+  }
+
+  const body = await req.json();
+  const questionId = body?.questionId ?? null;
+  if (questionId !== null && typeof questionId !== "string") {
+    return NextResponse.json({ error: "questionId must be a string or null" }, { status: 400 });
+  }
+  if (questionId) {
+    // Only questions attendees can see are announced
+    const question = await prisma.question.findUnique({
+      where: { id: questionId, eventId, deletedAt: null, isHidden: false, isPending: false },
+      select: { id: true },
+    });
+    if (!question) {
+      return NextResponse.json({ error: "Question not found" }, { status: 404 });
+    }
+  }
+
+  const updated = await setNowAnswering(eventId, questionId);
+  if (updated.nowAnsweringId !== event.nowAnsweringId) publishEvent(updated);
+
+  return NextResponse.json({ nowAnsweringId: updated.nowAnsweringId, nowAnsweringAt: updated.nowAnsweringAt });
+}
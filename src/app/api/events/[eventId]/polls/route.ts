@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getEventAccess } from "@/lib/eventAccess";
+import { getVoterId } from "@/lib/voter";
+import { recordAudit } from "@/lib/audit";
+import { publishPoll } from "@/lib/realtime";
+import { POLL_INCLUDE, toPollSnapshot, validatePollInput } from "@/lib/polls";
+
+type Params = { params: Promise<{ eventId: string }> };
+
+// GET /api/events/[eventId]/polls — newest first, with the caller's own answer
+// Public → open and closed polls; Admin or team event host → drafts too
+export async function GET(req: NextRequest, { params }: Params) {
+  const { eventId } = await params;
+  const event = await prisma.event.findUnique({ where: { id: eventId, deletedAt: null } });
+  if (!event) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+
+  const seesAll = (await getEventAccess(req.cookies, event, "events:view")) !== null;
+  const voterId = await getVoterId(req.cookies);
+
+  const polls = await prisma.poll.findMany({
+    where: { eventId, ...(seesAll ? {} : { status: { not: "draft" } }) },
+    include: {
+      ...POLL_INCLUDE,
+      responses: { where: { voterId: voterId ?? "" }, select: { optionId: true } },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return NextResponse.json(
+    polls.map((p) => ({ ...toPollSnapshot(p), myOptionId: p.responses[0]?.optionId ?? null }))
+  );
+}
+
+// POST /api/events/[eventId]/polls — create a draft poll (admin or team event host)
+// Body: { question, options: string[] }
+export async function POST(req: NextRequest, { params }: Params) {
+  const { eventId } = await params;
+  const event = await prisma.event.findUnique({ where: { id: eventId, deletedAt: null } });
+  if (!event) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+  const access = await getEventAccess(req.cookies, event, "events:manage");
+  if (!access) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const result = validatePollInput(await req.json());
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: 400 });
+  }
+  const { question, options } = result.value;
+
+  const poll = await prisma.poll.create({
+    data: {
+      eventId,
+      question,
+      options: { create: options.map((label, position) => ({ label, position })) },
+    },
+    include: POLL_INCLUDE,
+  });
+
+  await recordAudit(req.cookies, access, {
+    eventId,
+    action: "poll.created",
+    targetType: "poll",
+    targetId: poll.id,
+    after: { question, options },
+  });
+  await publishPoll(poll.id);
+
+  return NextResponse.json({ ...toPollSnapshot(poll), myOptionId: null }, { status: 201 });
+}
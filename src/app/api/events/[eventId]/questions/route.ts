@@ -1,63 +1,79 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { ADMIN_COOKIE, verifySessionToken } from "@/lib/auth";
-import { VOTER_COOKIE, generateVoterId } from "@/lib/voter";
+import { getEventAccess } from "@/lib/eventAccess";
+import { VOTER_COOKIE, VOTER_COOKIE_OPTIONS, createVoter, getVoter, getVoterId } from "@/lib/voter";
+import { PENDING_COMMENTS, VISIBLE_COMMENT_COUNT, publish, toEventSnapshot, toQuestionSnapshot } from "@/lib/realtime";
+import { validateQuestionInput } from "@/lib/questions";
+import { screenQuestion } from "@/lib/screening";
+import { getEventTopics } from "@/lib/topics";
+import { getEventPanelists } from "@/lib/panelists";
+import { getEventQueue } from "@/lib/presenterQueue";
+import {
+  checkRateLimit,
+  describeRetryAfter,
+  getClientIp,
+  getRateLimitRule,
+  rateLimitedResponse,
+} from "@/lib/rateLimit";
 
 type Params = { params: Promise<{ eventId: string }> };
 
-// GET /api/events/[eventId]/questions
-// Public → OPEN + not hidden; Admin (cookie present) → all
+// GET /api/events/[eventId]/questions?sort=score|newest&topic=<topicId>&directedTo=<panelistId>
+// Public → not hidden (open and answered), pending ones only if their own; Admin or team event host → all
+// Also returns the event's topics and panelists so clients can offer the pickers and filters,
+// and, for admins and hosts, the presenter's run-of-show queue.
 export async function GET(req: NextRequest, { params }: Params) {
   const { eventId } = await params;
   const sortParam = req.nextUrl.searchParams.get("sort"); // "score" | "newest"
-  const token = req.cookies.get(ADMIN_COOKIE)?.value;
-  const isAdmin = token ? await verifySessionToken(token) : false;
+  const topicParam = req.nextUrl.searchParams.get("topic") || undefined;
+  const directedToParam = req.nextUrl.searchParams.get("directedTo") || undefined;
   // Assign a stable voter ID on first visit so it exists before any vote
   // request fires. Without this, a new user voting on two questions in
   // quick succession would send both requests without a cookie, causing
   // the server to generate two different voter IDs — allowing the same
   // browser to cast two independent votes on the same question.
-  const existingVoterId = req.cookies.get(VOTER_COOKIE)?.value;
-  const voterId = existingVoterId ?? generateVoterId();
-  const isNewVoter = !existingVoterId;
+  const existingVoter = await getVoter(req.cookies);
+  const newVoter = existingVoter ? null : await createVoter();
+  const voterId = (existingVoter ?? newVoter)!.id;
 
   // Check event exists
-  const event = await prisma.event.findUnique({ where: { id: eventId } });
+  const event = await prisma.event.findUnique({ where: { id: eventId, deletedAt: null } });
   if (!event) {
     return NextResponse.json({ error: "Event not found" }, { status: 404 });
   }
 
+  const seesAll = (await getEventAccess(req.cookies, event, "events:view")) !== null;
+
   const questions = await prisma.question.findMany({
     where: {
       eventId,
-      ...(isAdmin ? {} : { status: "OPEN", isHidden: false }),
+      deletedAt: null,
+      ...(topicParam ? { topicId: topicParam } : {}),
+      ...(directedToParam ? { directedToId: directedToParam } : {}),
+      // Attendees see approved questions plus their own pending ones
+      ...(seesAll ? {} : { isHidden: false, OR: [{ isPending: false }, { submitterId: voterId }] }),
     },
     include: {
       votes: {
         select: { voterId: true, value: true },
       },
+      answer: true,
+      _count: VISIBLE_COMMENT_COUNT,
+      comments: PENDING_COMMENTS,
     },
     orderBy: { createdAt: "desc" },
   });
 
   // Compute scores and caller's current vote
   const enriched = questions.map((q) => {
-    const score = q.votes.reduce((sum, v) => sum + v.value, 0);
     const myVote = voterId
       ? (q.votes.find((v) => v.voterId === voterId)?.value ?? null)
       : null;
     return {
-      id: q.id,
-      eventId: q.eventId,
-      text: q.text,
-      submittedName: q.isAnonymous ? null : q.submittedName,
-      isAnonymous: q.isAnonymous,
-      status: q.status,
-      isHidden: q.isHidden,
-      pinnedAt: q.pinnedAt,
+      ...toQuestionSnapshot(q),
+      flagReason: seesAll ? q.flagReason : null,
+      pendingCommentCount: seesAll ? q.comments.length : 0,
       isOwn: voterId ? q.submitterId === voterId : false,
-      createdAt: q.createdAt,
-      score,
       myVote,
     };
   });
@@ -86,39 +102,39 @@ export async function GET(req: NextRequest, { params }: Params) {
   const questionCount = enriched.length;
   const voteCount = questions.reduce((sum, q) => sum + q.votes.length, 0);
 
+  // Lets the client decide whether to show the Manage controls
+  const access = event.type === "team" ? await getEventAccess(req.cookies, event) : null;
+  const canManage = access !== null;
+  // Only the creator and admins edit, close or delete the event itself
+  const canEdit = access === "creator" || access === "admin";
+  // Lets the presenter view decide whether to broadcast its current question
+  const canPresent = (await getEventAccess(req.cookies, event, "questions:answer")) !== null;
+
   const res = NextResponse.json({
-    event: {
-      id: event.id,
-      title: event.title,
-      description: event.description,
-      isVotingOpen: event.isVotingOpen,
-      status: event.status,
-      startsAt: event.startsAt,
-      type: event.type,
-      hostName: event.hostName,
-      isPublic: event.isPublic,
-    },
+    event: toEventSnapshot(event),
+    topics: await getEventTopics(eventId),
+    panelists: await getEventPanelists(eventId),
+    queue: seesAll ? await getEventQueue(eventId) : [],
     questions: enriched,
     metrics: { questionCount, voteCount },
+    canManage,
+    canEdit,
+    canPresent,
   });
 
-  if (isNewVoter) {
-    res.cookies.set(VOTER_COOKIE, voterId, {
-      httpOnly: false,
-      sameSite: "lax",
-      maxAge: 60 * 60 * 24 * 365,
-      path: "/",
-    });
+  if (newVoter) {
+    res.cookies.set(VOTER_COOKIE, newVoter.cookie, VOTER_COOKIE_OPTIONS);
   }
 
   return res;
 }
 
 // POST /api/events/[eventId]/questions — submit a question (public)
+// Body: { text, isAnonymous, submittedName?, topicId?, directedToId? }
 export async function POST(req: NextRequest, { params }: Params) {
   const { eventId } = await params;
 
-  const event = await prisma.event.findUnique({ where: { id: eventId, isActive: true } });
+  const event = await prisma.event.findUnique({ where: { id: eventId, isActive: true, deletedAt: null } });
   if (!event) {
     return NextResponse.json({ error: "Event not found or inactive" }, { status: 404 });
   }
@@ -127,33 +143,63 @@ export async function POST(req: NextRequest, { params }: Params) {
   }
 
   const body = await req.json();
-  const text = body?.text?.trim();
-  const isAnonymous: boolean = body?.isAnonymous === true;
-  const submittedName = isAnonymous ? null : body?.submittedName?.trim() || null;
-  const submitterId = req.cookies.get(VOTER_COOKIE)?.value ?? null;
+  const submitterId = await getVoterId(req.cookies);
 
-  if (!text) {
-    return NextResponse.json({ error: "Question text is required" }, { status: 400 });
+  const validation = validateQuestionInput(body ?? {});
+  if (!validation.ok) {
+    return NextResponse.json({ error: validation.error }, { status: 400 });
   }
-  if (text.length > 280) {
-    return NextResponse.json(
-      { error: "Questions must be 280 characters or fewer." },
-      { status: 400 }
-    );
+  const { text, isAnonymous, submittedName } = validation.value;
+
+  const topicId = typeof body?.topicId === "string" && body.topicId ? body.topicId : null;
+  if (topicId && !(await prisma.eventTopic.findFirst({ where: { id: topicId, eventId } }))) {
+    return NextResponse.json({ error: "Unknown topic" }, { status: 400 });
+  }
+  const directedToId = typeof body?.directedToId === "string" && body.directedToId ? body.directedToId : null;
+  if (directedToId && !(await prisma.eventPanelist.findFirst({ where: { id: directedToId, eventId } }))) {
+    return NextResponse.json({ error: "Unknown panelist" }, { status: 400 });
   }
-  if (!isAnonymous && !submittedName) {
-    return NextResponse.json(
-      { error: "Name is required when not submitting anonymously" },
-      { status: 400 }
+
+  const limit = await checkRateLimit("question", eventId, getRateLimitRule(event, "question"), {
+    voterId: submitterId,
+    ip: getClientIp(req),
+  });
+  if (!limit.ok) {
+    return rateLimitedResponse(
+      `You've asked several questions in a short time. You can ask another in ${describeRetryAfter(limit.retryAfterSec)}.`,
+      limit.retryAfterSec
     );
   }
 
+  const screening = await screenQuestion(eventId, text);
+  if (screening.action === "block") {
+    return NextResponse.json({ error: screening.message }, { status: 400 });
+  }
+
   const question = await prisma.question.create({
-    data: { eventId, text, isAnonymous, submittedName, submitterId },
+    data: {
+      eventId,
+      text,
+      isAnonymous,
+      submittedName,
+      submitterId,
+      isHidden: screening.action === "hide",
+      isPending: event.isModerated,
+      topicId,
+      directedToId,
+      flagReason: screening.action === "allow" ? null : screening.reason,
+    },
+  });
+  publish(eventId, {
+    type: "question.created",
+    question: toQuestionSnapshot({ ...question, votes: [] }),
+    submitterId,
   });
 
+  // The asker learns their question is held for review, but not which rule matched
+  const { flagReason: _flagReason, ...ownQuestion } = question;
   return NextResponse.json(
-    { ...question, score: 0, myVote: null, isOwn: true, isHidden: false, pinnedAt: null },
+    { ...ownQuestion, score: 0, myVote: null, isOwn: true, pinnedAt: null },
     { status: 201 }
   );
 }
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getEventAccess } from "@/lib/eventAccess";
+import { MAX_QUEUE_LENGTH, getEventQueue, publishQueue, setEventQueue } from "@/lib/presenterQueue";
+
+type Params = { params: Promise<{ eventId: string }> };
+
+// GET /api/events/[eventId]/queue — the presenter's run-of-show, as question ids in order (admin or team event host)
+export async function GET(req: NextRequest, { params }: Params) {
+  const { eventId } = await params;
+  const event = await prisma.event.findUnique({ where: { id: eventId, deletedAt: null } });
+  if (!event) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+  if (!(await getEventAccess(req.cookies, event, "events:view"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  return NextResponse.json({ queue: await getEventQueue(eventId) });
+}
+
+// PUT /api/events/[eventId]/queue — replace the run-of-show (admin or team event host)
+// Body: { questionIds: string[] }  (adding, removing and reordering all send the full list)
+export async function PUT(req: NextRequest, { params }: Params) {
+  const { eventId } = await params;
+  const event = await prisma.event.findUnique({ where: { id: eventId, deletedAt: null } });
+  if (!event) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+  if (!(await getEventAccess(req.cookies, event, "questions:answer"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const body = await req.json();
+  const questionIds = body?.questionIds;
+  if (!Array.isArray(questionIds) || questionIds.some((id) => typeof id !== "string")) {
+    return NextResponse.json({ error: "questionIds must be an array of question ids" }, { status: 400 });
+  }
+  if (new Set(questionIds).size !== questionIds.length) {
+    return NextResponse.json({ error: "A question can only be queued once" }, { status: 400 });
+  }
+  if (questionIds.length > MAX_QUEUE_LENGTH) {
+    return NextResponse.json(
+      { error: `The queue can hold at most ${MAX_QUEUE_LENGTH} questions` },
+      { status: 400 }
+    );
+  }
+
+  // Only questions the presenter could put on screen
+  const found = await prisma.question.count({
+    where: {
+      id: { in: questionIds },
+      eventId,
+      status: "OPEN",
+      isHidden: false,
+      isPending: false,
+      deletedAt: null,
+    },
+  });
+  if (found !== questionIds.length) {
+    return NextResponse.json({ error: "Only open, visible questions can be queued" }, { status: 400 });
+  }
+
+  await setEventQueue(eventId, questionIds);
+  await publishQueue(eventId);
+
+  return NextResponse.json({ queue: questionIds });
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getVoterId } from "@/lib/voter";
+import { MAX_ACTIVE_REMOTES, countActiveRemotes, createRemote, toRemoteSnapshot } from "@/lib/presenterRemote";
+import {
+  REMOTE_RATE_LIMIT,
+  checkRateLimit,
+  describeRetryAfter,
+  getClientIp,
+  rateLimitedResponse,
+} from "@/lib/rateLimit";
+
+type Params = { params: Promise<{ eventId: string }> };
+
+// POST /api/events/[eventId]/remote — open a remote control for a presenter view (public, rate limited)
+// The projector may not be signed in; joining the remote is what needs presenter access.
+export async function POST(req: NextRequest, { params }: Params) {
+  const { eventId } = await params;
+  const event = await prisma.event.findUnique({ where: { id: eventId, deletedAt: null }, select: { id: true } });
+  if (!event) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+
+  const limit = await checkRateLimit("remote", eventId, REMOTE_RATE_LIMIT, {
+    voterId: await getVoterId(req.cookies),
+    ip: getClientIp(req),
+  });
+  if (!limit.ok) {
+    return rateLimitedResponse(
+      `Too many remotes opened. Try again in ${describeRetryAfter(limit.retryAfterSec)}.`,
+      limit.retryAfterSec
+    );
+  }
+  if ((await countActiveRemotes(eventId)) >= MAX_ACTIVE_REMOTES) {
+    return NextResponse.json(
+      { error: "This event already has the most remotes it can have open. Try again later." },
+      { status: 409 }
+    );
+  }
+
+  const remote = await createRemote(eventId);
+  if (!remote) {
+    return NextResponse.json({ error: "No remote code is free right now. Try again." }, { status: 503 });
+  }
+  return NextResponse.json(
+    { code: remote.code, expiresAt: remote.expiresAt, remote: toRemoteSnapshot(remote) },
+    { status: 201 }
+  );
+}
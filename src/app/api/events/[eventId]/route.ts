@@ -1,30 +1,68 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { publish, publishEvent } from "@/lib/realtime";
+import { getEventAccess } from "@/lib/eventAccess";
+import { auditDiff, recordAudit } from "@/lib/audit";
+import { setNowAnswering } from "@/lib/nowAnswering";
+import { parseTimerSettings } from "@/lib/sessionTimer";
 
 type Params = { params: Promise<{ eventId: string }> };
 
-// PATCH /api/events/[eventId] — update a team event (no admin auth, guest-managed)
-// Body: { title, startsAt, hostName, description?, isVotingOpen? }
+// PATCH /api/events/[eventId] — update a team event (creator or admin; co-hosts may change settings only)
+// Body: { title, startsAt, hostName, description?, isVotingOpen?, isModerated? }
+//     | { isVotingOpen?, isModerated?, durationMinutes?, questionLimitMinutes? } | { status: "CLOSED" }
 export async function PATCH(req: NextRequest, { params }: Params) {
   const { eventId } = await params;
 
-  const event = await prisma.event.findUnique({ where: { id: eventId } });
+  const event = await prisma.event.findUnique({ where: { id: eventId, deletedAt: null } });
   if (!event) {
     return NextResponse.json({ error: "Event not found" }, { status: 404 });
   }
   if (event.type !== "team") {
     return NextResponse.json({ error: "Only team events can be edited here" }, { status: 403 });
   }
+  const access = await getEventAccess(req.cookies, event);
+  if (!access) {
+    return NextResponse.json({ error: "Only the event's host can edit it" }, { status: 403 });
+  }
+  const audit = { eventId, targetType: "event" as const, targetId: eventId };
 
   const body = await req.json();
-  const { title, startsAt, hostName, description, isVotingOpen, status, isPublic } = body;
+  const { title, startsAt, hostName, description, isVotingOpen, isModerated, status, isPublic } = body;
+
+  const timer = parseTimerSettings(body);
+  if ("error" in timer) {
+    return NextResponse.json({ error: timer.error }, { status: 400 });
+  }
+
+  // Allow a settings-only PATCH (hosts flip voting or pre-moderation, or set the timers, mid-event)
+  const isSettingsOnly =
+    typeof isVotingOpen === "boolean" || typeof isModerated === "boolean" || Object.keys(timer.data).length > 0;
+  if (isSettingsOnly && title === undefined) {
+    const data = {
+      ...(typeof isVotingOpen === "boolean" ? { isVotingOpen } : {}),
+      ...(typeof isModerated === "boolean" ? { isModerated } : {}),
+      ...timer.data,
+    };
+    const updated = await prisma.event.update({ where: { id: eventId }, data });
+    await recordAudit(req.cookies, access, { ...audit, action: "event.updated", ...auditDiff(event, data) });
+    publishEvent(updated);
+    return NextResponse.json(updated);
+  }
+
+  // Editing the details and closing the event are the creator's, as with the co-host list
+  if (access !== "creator" && access !== "admin") {
+    return NextResponse.json({ error: "Only the event creator can edit or close it" }, { status: 403 });
+  }
 
   // Allow a close-only PATCH (no other fields required)
   if (status === "CLOSED") {
-    const updated = await prisma.event.update({
-      where: { id: eventId },
-      data: { status: "CLOSED" },
-    });
+    const data = { status: "CLOSED" as const };
+    await prisma.event.update({ where: { id: eventId }, data });
+    // Stops the recap's clock on whatever was on screen
+    const updated = await setNowAnswering(eventId, null);
+    await recordAudit(req.cookies, access, { ...audit, action: "event.closed", ...auditDiff(event, data) });
+    publishEvent(updated);
     return NextResponse.json(updated);
   }
 
@@ -42,34 +80,50 @@ export async function PATCH(req: NextRequest, { params }: Params) {
     return NextResponse.json({ error: "Host name is required for team events" }, { status: 400 });
   }
 
-  const updated = await prisma.event.update({
-    where: { id: eventId },
-    data: {
-      title: title.trim(),
-      startsAt: startsAtDate,
-      hostName: hostName.trim(),
-      description: description?.trim() || null,
-      ...(typeof isVotingOpen === "boolean" ? { isVotingOpen } : {}),
-      ...(typeof isPublic === "boolean" ? { isPublic } : {}),
-    },
-  });
+  const data = {
+    title: title.trim(),
+    startsAt: startsAtDate,
+    hostName: hostName.trim(),
+    description: description?.trim() || null,
+    ...(typeof isVotingOpen === "boolean" ? { isVotingOpen } : {}),
+    ...(typeof isPublic === "boolean" ? { isPublic } : {}),
+    ...(typeof isModerated === "boolean" ? { isModerated } : {}),
+    ...timer.data,
+  };
+  const updated = await prisma.event.update({ where: { id: eventId }, data });
+  await recordAudit(req.cookies, access, { ...audit, action: "event.updated", ...auditDiff(event, data) });
+  publishEvent(updated);
 
   return NextResponse.json(updated);
 }
 
-// DELETE /api/events/[eventId] — delete a team event (no admin auth, guest-managed)
-// Cascade delete is configured in schema: questions → onDelete: Cascade, votes → onDelete: Cascade
-export async function DELETE(_req: NextRequest, { params }: Params) {
+// DELETE /api/events/[eventId] — move a team event to the trash (creator or admin)
+// Admins can restore it from /admin for 30 days before it is purged along with its questions and votes.
+export async function DELETE(req: NextRequest, { params }: Params) {
   const { eventId } = await params;
 
-  const event = await prisma.event.findUnique({ where: { id: eventId } });
+  const event = await prisma.event.findUnique({ where: { id: eventId, deletedAt: null } });
   if (!event) {
     return NextResponse.json({ error: "Event not found" }, { status: 404 });
   }
   if (event.type !== "team") {
     return NextResponse.json({ error: "Only team events can be deleted here" }, { status: 403 });
   }
+  const access = await getEventAccess(req.cookies, event, "events:delete");
+  if (access !== "creator" && access !== "admin") {
+    return NextResponse.json({ error: "Only the event creator can delete it" }, { status: 403 });
+  }
 
-  await prisma.event.delete({ where: { id: eventId } });
+  const data = { deletedAt: new Date() };
+  await prisma.event.update({ where: { id: eventId }, data });
+  await recordAudit(req.cookies, access, {
+    eventId,
+    action: "event.deleted",
+    targetType: "event",
+    targetId: eventId,
+    ...auditDiff(event, data),
+  });
+  // Open pages drop the event rather than keep taking questions for it
+  publish(eventId, { type: "event.removed" });
   return NextResponse.json({ success: true });
 }
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getEventAccess } from "@/lib/eventAccess";
+import { getVoterId } from "@/lib/voter";
+import {
+  subscribe,
+  isPubliclyVisible,
+  type RealtimeMessage,
+  type StreamDelta,
+} from "@/lib/realtime";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ eventId: string }> };
+
+const HEARTBEAT_MS = 25_000;
+
+// GET /api/events/[eventId]/stream — Server-Sent Events feed of question and
+// event deltas. Public → only non-hidden questions; Admin or host → all.
+// Clients fetch the full list once the "ready" event arrives, then apply deltas.
+export async function GET(req: NextRequest, { params }: Params) {
+  const { eventId } = await params;
+  const voterId = await getVoterId(req.cookies);
+
+  const event = await prisma.event.findUnique({
+    where: { id: eventId, deletedAt: null },
+    select: { id: true, type: true, createdByUserId: true },
+  });
+  if (!event) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+  const seesAll = (await getEventAccess(req.cookies, event, "events:view")) !== null;
+
+  // Translate a bus message into what this particular viewer may see;
+  // null for messages meant for hosts only.
+  function toDelta(message: RealtimeMessage): StreamDelta | null {
+    // The run-of-show is the hosts' plan, and names hidden and pending questions
+    if (message.type === "queue.updated") {
+      return seesAll ? message : null;
+    }
+    if (
+      message.type === "question.retracted" ||
+      message.type === "question.removed" ||
+      message.type === "event.updated" ||
+      message.type === "event.removed" ||
+      message.type === "topics.updated" ||
+      message.type === "panelists.updated" ||
+      message.type === "poll.removed" ||
+      message.type === "remote.updated"
+    ) {
+      return message;
+    }
+    if (message.type === "poll.updated") {
+      if (!seesAll && message.poll.status === "draft") {
+        return { type: "poll.removed", pollId: message.poll.id };
+      }
+      return message;
+    }
+    const { question, submitterId, votes } = message;
+    const vote = voterId ? votes?.find((v) => v.voterId === voterId) : undefined;
+    const isOwn = voterId ? submitterId === voterId : false;
+    if (!seesAll && !isPubliclyVisible(question, isOwn)) {
+      return { type: "question.removed", id: question.id };
+    }
+    return {
+      type: message.type,
+      question: {
+        ...question,
+        flagReason: seesAll ? question.flagReason : null,
+        pendingCommentCount: seesAll ? question.pendingCommentCount : 0,
+        isOwn,
+        ...(vote ? { myVote: vote.value } : {}),
+      },
+    };
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup: () => void = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      function send(chunk: string) {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      }
+
+      const unsubscribe = subscribe(eventId, (message) => {
+        const delta = toDelta(message);
+        if (delta) send(`event: delta\ndata: ${JSON.stringify(delta)}\n\n`);
+      });
+      const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      req.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // already closed
+        }
+      });
+
+      send("retry: 3000\nevent: ready\ndata: {}\n\n");
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getEventAccess } from "@/lib/eventAccess";
+import { getAnsweringTimes } from "@/lib/nowAnswering";
+
+type Params = { params: Promise<{ eventId: string }> };
+
+// GET /api/events/[eventId]/timings — time each question spent on the presenter's screen (admin or team event host)
+// Questions come in the order they were first shown; the span runs from the first to the last segment.
+export async function GET(req: NextRequest, { params }: Params) {
+  const { eventId } = await params;
+  const event = await prisma.event.findUnique({ where: { id: eventId, deletedAt: null } });
+  if (!event) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+  if (!(await getEventAccess(req.cookies, event, "events:view"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const times = await getAnsweringTimes(eventId);
+  const [questions, span] = await Promise.all([
+    prisma.question.findMany({
+      where: { id: { in: Array.from(times.keys()) } },
+      select: { id: true, text: true, status: true, deletedAt: true },
+    }),
+    prisma.answeringSegment.aggregate({
+      where: { eventId },
+      _min: { startedAt: true },
+      _max: { endedAt: true },
+    }),
+  ]);
+
+  const timed = questions
+    .map((q) => ({
+      id: q.id,
+      text: q.text,
+      status: q.status,
+      isDeleted: q.deletedAt !== null,
+      firstStartedAt: times.get(q.id)!.firstStartedAt,
+      totalSec: times.get(q.id)!.totalSec,
+    }))
+    .sort((a, b) => a.firstStartedAt.getTime() - b.firstStartedAt.getTime());
+  // A segment still open means the presenter is on a question right now
+  const stillOnScreen = event.nowAnsweringId !== null;
+
+  return NextResponse.json({
+    startsAt: event.startsAt,
+    durationMinutes: event.durationMinutes,
+    questionLimitMinutes: event.questionLimitMinutes,
+    firstStartedAt: span._min.startedAt,
+    lastEndedAt: stillOnScreen ? null : span._max.endedAt,
+    totalSec: timed.reduce((sum, q) => sum + q.totalSec, 0),
+    questions: timed,
+  });
+}
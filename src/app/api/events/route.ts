@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { ADMIN_COOKIE, verifySessionToken } from "@/lib/auth";
-import { VOTER_COOKIE } from "@/lib/voter";
+import { can } from "@/lib/auth";
+import { getAdminSession } from "@/lib/session";
+import { getVoterId } from "@/lib/voter";
 
 // GET /api/events — list all active events (public)
 export async function GET() {
   const events = await prisma.event.findMany({
-    where: { isActive: true },
+    where: { isActive: true, deletedAt: null },
     orderBy: { startsAt: "asc" },
     select: { id: true, title: true, description: true, startsAt: true, createdAt: true, type: true, hostName: true },
   });
@@ -17,9 +18,9 @@ export async function GET() {
 // Admins can create company or team events.
 // Non-admins can create team events only.
 export async function POST(req: NextRequest) {
-  const token = req.cookies.get(ADMIN_COOKIE)?.value;
-  const isAdmin = token ? await verifySessionToken(token) : false;
-  const createdByUserId = req.cookies.get(VOTER_COOKIE)?.value ?? null;
+  const session = await getAdminSession(req.cookies);
+  const isAdmin = session ? can(session.role, "events:manage") : false;
+  const createdByUserId = await getVoterId(req.cookies);
 
   const body = await req.json();
   const title = body?.title?.trim();
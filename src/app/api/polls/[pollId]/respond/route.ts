@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { VOTER_COOKIE, VOTER_COOKIE_OPTIONS, createVoter, getVoter } from "@/lib/voter";
+import { publishPoll } from "@/lib/realtime";
+import { POLL_INCLUDE, toPollSnapshot } from "@/lib/polls";
+import {
+  checkRateLimit,
+  describeRetryAfter,
+  getClientIp,
+  getRateLimitRule,
+  rateLimitedResponse,
+} from "@/lib/rateLimit";
+
+type Params = { params: Promise<{ pollId: string }> };
+
+// POST /api/polls/[pollId]/respond
+// Body: { optionId }  (answering again changes the caller's answer)
+export async function POST(req: NextRequest, { params }: Params) {
+  const { pollId } = await params;
+
+  // Same voter identity as question votes: one answer per ama_voter_id
+  const existingVoter = await getVoter(req.cookies);
+  const newVoter = existingVoter ? null : await createVoter();
+  const voterId = (existingVoter ?? newVoter)!.id;
+
+  const body = await req.json();
+  const optionId = body?.optionId;
+  if (typeof optionId !== "string" || !optionId) {
+    return NextResponse.json({ error: "optionId is required" }, { status: 400 });
+  }
+
+  const poll = await prisma.poll.findUnique({
+    where: { id: pollId, event: { deletedAt: null } },
+    select: {
+      status: true,
+      eventId: true,
+      options: { select: { id: true } },
+      event: {
+        select: {
+          status: true,
+          voteRateLimit: true,
+          voteRateWindowSec: true,
+          questionRateLimit: true,
+          questionRateWindowSec: true,
+        },
+      },
+    },
+  });
+  if (!poll || poll.status === "draft") {
+    return NextResponse.json({ error: "Poll not found" }, { status: 404 });
+  }
+  if (poll.event.status === "CLOSED") {
+    return NextResponse.json({ error: "This event is closed." }, { status: 403 });
+  }
+  if (poll.status !== "open") {
+    return NextResponse.json({ error: "This poll is closed." }, { status: 409 });
+  }
+  if (!poll.options.some((o) => o.id === optionId)) {
+    return NextResponse.json({ error: "Unknown option" }, { status: 400 });
+  }
+
+  const limit = await checkRateLimit("vote", poll.eventId, getRateLimitRule(poll.event, "vote"), {
+    voterId: newVoter ? null : voterId,
+    ip: getClientIp(req),
+  });
+  if (!limit.ok) {
+    return rateLimitedResponse(
+      `You're voting too quickly. Try again in ${describeRetryAfter(limit.retryAfterSec)}.`,
+      limit.retryAfterSec
+    );
+  }
+
+  // DB unique constraint keeps it to one answer per voter
+  await prisma.pollResponse.upsert({
+    where: { pollId_voterId: { pollId, voterId } },
+    create: { pollId, optionId, voterId },
+    update: { optionId },
+  });
+  await publishPoll(pollId);
+
+  const updated = await prisma.poll.findUniqueOrThrow({ where: { id: pollId }, include: POLL_INCLUDE });
+  const res = NextResponse.json({ ...toPollSnapshot(updated), myOptionId: optionId });
+
+  // Persist voter ID in cookie if it was just created
+  if (newVoter) {
+    res.cookies.set(VOTER_COOKIE, newVoter.cookie, VOTER_COOKIE_OPTIONS);
+  }
+
+  return res;
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getPollAccess } from "@/lib/eventAccess";
+import { auditDiff, recordAudit } from "@/lib/audit";
+import { publish, publishPoll } from "@/lib/realtime";
+
+type Params = { params: Promise<{ pollId: string }> };
+
+// PATCH /api/polls/[pollId] — open or close a poll (admin or team event host)
+// Body: { status: "open" | "closed" }  (opening a closed poll reopens it; answers are kept)
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const { pollId } = await params;
+  const access = await getPollAccess(req.cookies, pollId, "events:manage");
+  if (!access) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const body = await req.json();
+  const status = body?.status;
+  if (status !== "open" && status !== "closed") {
+    return NextResponse.json({ error: 'status must be "open" or "closed"' }, { status: 400 });
+  }
+
+  const poll = await prisma.poll.findUnique({ where: { id: pollId } });
+  if (!poll) {
+    return NextResponse.json({ error: "Poll not found" }, { status: 404 });
+  }
+  if (poll.status === status) {
+    return NextResponse.json({ error: `Poll is already ${status}` }, { status: 409 });
+  }
+  if (status === "closed" && poll.status === "draft") {
+    return NextResponse.json({ error: "Only an open poll can be closed" }, { status: 409 });
+  }
+
+  const data =
+    status === "open"
+      ? { status, openedAt: new Date(), closedAt: null }
+      : { status, closedAt: new Date() };
+  await prisma.poll.update({ where: { id: pollId }, data });
+
+  await recordAudit(req.cookies, access, {
+    eventId: poll.eventId,
+    action: status === "open" ? "poll.opened" : "poll.closed",
+    targetType: "poll",
+    targetId: pollId,
+    ...auditDiff(poll, data),
+  });
+  await publishPoll(pollId);
+
+  return NextResponse.json({ ok: true });
+}
+
+// DELETE /api/polls/[pollId] — delete a poll and its answers (admin or team event host)
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const { pollId } = await params;
+  const access = await getPollAccess(req.cookies, pollId, "events:manage");
+  if (!access) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const poll = await prisma.poll.findUnique({ where: { id: pollId } });
+  if (!poll) {
+    return NextResponse.json({ error: "Poll not found" }, { status: 404 });
+  }
+
+  await prisma.poll.delete({ where: { id: pollId } });
+
+  await recordAudit(req.cookies, access, {
+    eventId: poll.eventId,
+    action: "poll.deleted",
+    targetType: "poll",
+    targetId: pollId,
+    before: { question: poll.question, status: poll.status },
+    after: null,
+  });
+  publish(poll.eventId, { type: "poll.removed", pollId });
+
+  return NextResponse.json({ ok: true });
+}
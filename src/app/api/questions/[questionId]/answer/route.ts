@@ -1,49 +1,162 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { ADMIN_COOKIE, verifySessionToken } from "@/lib/auth";
+import { getQuestionAccess, type EventAccess } from "@/lib/eventAccess";
+import { getAdminSession } from "@/lib/session";
+import { getVoterId } from "@/lib/voter";
+import { publishQuestion } from "@/lib/realtime";
+import { auditDiff, recordAudit } from "@/lib/audit";
 
 type Params = { params: Promise<{ questionId: string }> };
 
-// POST /api/questions/[questionId]/answer — mark a question as ANSWERED (admin)
+// POST /api/questions/[questionId]/answer — mark a question as ANSWERED (admin or event host)
 export async function POST(req: NextRequest, { params }: Params) {
-  const token = req.cookies.get(ADMIN_COOKIE)?.value;
-  const isAdmin = token ? await verifySessionToken(token) : false;
-  if (!isAdmin) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const { questionId } = await params;
+  const access = await getQuestionAccess(req.cookies, questionId, "questions:answer");
+  if (!access) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const question = await prisma.question.findUnique({ where: { id: questionId } });
+  if (!question) {
+    return NextResponse.json({ error: "Question not found" }, { status: 404 });
   }
 
+  const data = { status: "ANSWERED" as const, answeredAt: new Date() };
+  const updated = await prisma.question.update({ where: { id: questionId }, data });
+
+  await recordAudit(req.cookies, access, {
+    eventId: question.eventId,
+    action: "question.answered",
+    targetType: "question",
+    targetId: questionId,
+    ...auditDiff(question, data),
+  });
+  await publishQuestion("question.answered", questionId);
+  return NextResponse.json(updated);
+}
+
+// DELETE — reopen a question (mark back to OPEN)
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const { questionId } = await params;
+  const access = await getQuestionAccess(req.cookies, questionId, "questions:answer");
+  if (!access) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const question = await prisma.question.findUnique({ where: { id: questionId } });
+  if (!question) {
+    return NextResponse.json({ error: "Question not found" }, { status: 404 });
+  }
+
+  const data = { status: "OPEN" as const, answeredAt: null };
+  const updated = await prisma.question.update({ where: { id: questionId }, data });
+
+  await recordAudit(req.cookies, access, {
+    eventId: question.eventId,
+    action: "question.reopened",
+    targetType: "question",
+    targetId: questionId,
+    ...auditDiff(question, data),
+  });
+  await publishQuestion("question.reopened", questionId);
+  return NextResponse.json(updated);
+}
+
+// PUT /api/questions/[questionId]/answer — write or edit the answer text (admin or event host)
+// Body: { text, link?, answeredBy? }  (empty text removes the written answer)
+// Does not change the question's status; use POST / DELETE for that.
+export async function PUT(req: NextRequest, { params }: Params) {
   const { questionId } = await params;
+  const access = await getQuestionAccess(req.cookies, questionId, "questions:answer");
+  if (!access) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const body = await req.json();
+  const text = typeof body?.text === "string" ? body.text.trim() : "";
+  const link = typeof body?.link === "string" ? body.link.trim() : "";
+  const answeredBy = typeof body?.answeredBy === "string" ? body.answeredBy.trim() : "";
 
   const question = await prisma.question.findUnique({
     where: { id: questionId },
-    select: { id: true, status: true },
+    select: { eventId: true, answer: { select: { text: true, link: true, answeredBy: true } } },
   });
   if (!question) {
     return NextResponse.json({ error: "Question not found" }, { status: 404 });
   }
+  const audit = {
+    eventId: question.eventId,
+    action: "question.answer_edited" as const,
+    targetType: "question" as const,
+    targetId: questionId,
+  };
 
-  const updated = await prisma.question.update({
-    where: { id: questionId },
-    data: { status: "ANSWERED" },
+  if (!text) {
+    await prisma.answer.deleteMany({ where: { questionId } });
+    await recordAudit(req.cookies, access, { ...audit, before: question.answer, after: null });
+    await publishQuestion("question.answer_edited", questionId);
+    return NextResponse.json({ answer: null });
+  }
+  if (text.length > 5000) {
+    return NextResponse.json({ error: "Answer must be 5000 characters or fewer" }, { status: 400 });
+  }
+  if (link && !isHttpUrl(link)) {
+    return NextResponse.json({ error: "Link must be an http(s) URL" }, { status: 400 });
+  }
+  if (answeredBy.length > 100) {
+    return NextResponse.json({ error: "Name must be 100 characters or fewer" }, { status: 400 });
+  }
+
+  const data = {
+    text,
+    link: link || null,
+    answeredBy: answeredBy || (await defaultAnsweredBy(req, questionId, access)),
+  };
+  const answer = await prisma.answer.upsert({
+    where: { questionId },
+    create: { questionId, ...data },
+    update: data,
   });
 
-  return NextResponse.json(updated);
+  await recordAudit(req.cookies, access, { ...audit, ...auditDiff(question.answer ?? {}, data) });
+  await publishQuestion("question.answer_edited", questionId);
+  return NextResponse.json({ answer });
 }
 
-// DELETE — reopen a question (mark back to OPEN)
-export async function DELETE(req: NextRequest, { params }: Params) {
-  const token = req.cookies.get(ADMIN_COOKIE)?.value;
-  const isAdmin = token ? await verifySessionToken(token) : false;
-  if (!isAdmin) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
   }
+}
 
-  const { questionId } = await params;
+// Who to credit when the client leaves answeredBy blank: the admin's name,
+// the co-host's name, or the team event's host name.
+async function defaultAnsweredBy(
+  req: NextRequest,
+  questionId: string,
+  access: NonNullable<EventAccess>
+): Promise<string> {
+  if (access === "admin") {
+    const session = await getAdminSession(req.cookies);
+    const user = session
+      ? await prisma.adminUser.findUnique({ where: { id: session.userId } })
+      : null;
+    return user?.name ?? user?.email ?? "Host";
+  }
 
-  const updated = await prisma.question.update({
+  const question = await prisma.question.findUnique({
     where: { id: questionId },
-    data: { status: "OPEN" },
+    select: { event: { select: { id: true, hostName: true } } },
   });
-
-  return NextResponse.json(updated);
+  if (access === "cohost" && question) {
+    const voterId = (await getVoterId(req.cookies)) ?? "";
+    const coHost = await prisma.eventCoHost.findUnique({
+      where: { eventId_voterId: { eventId: question.event.id, voterId } },
+    });
+    if (coHost) return coHost.name;
+  }
+  return question?.event.hostName ?? "Host";
 }
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getQuestionAccess } from "@/lib/eventAccess";
+import { publishQuestion } from "@/lib/realtime";
+import { auditDiff, recordAudit } from "@/lib/audit";
+
+type Params = { params: Promise<{ questionId: string }> };
+
+// POST /api/questions/[questionId]/approve — publish a pending question (admin or event host)
+// A question that screening or a moderator hid stays hidden; it has to be unhidden from the Hidden tab.
+export async function POST(req: NextRequest, { params }: Params) {
+  const { questionId } = await params;
+  const access = await getQuestionAccess(req.cookies, questionId, "questions:moderate");
+  if (!access) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const question = await prisma.question.findUnique({ where: { id: questionId } });
+  if (!question) {
+    return NextResponse.json({ error: "Question not found" }, { status: 404 });
+  }
+  const data = { isPending: false };
+  const updated = await prisma.question.update({ where: { id: questionId }, data });
+  await recordAudit(req.cookies, access, {
+    eventId: question.eventId,
+    action: "question.approved",
+    targetType: "question",
+    targetId: questionId,
+    ...auditDiff(question, data),
+  });
+  await publishQuestion("question.approved", questionId);
+  return NextResponse.json(updated);
+}
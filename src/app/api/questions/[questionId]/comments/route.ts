@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getVoterId } from "@/lib/voter";
+import { getQuestionAccess } from "@/lib/eventAccess";
+import { isPubliclyVisible, publishQuestion } from "@/lib/realtime";
+import { screenQuestion } from "@/lib/screening";
+import { toCommentSnapshot, validateCommentInput } from "@/lib/comments";
+import {
+  COMMENT_RATE_LIMIT,
+  checkRateLimit,
+  describeRetryAfter,
+  getClientIp,
+  rateLimitedResponse,
+} from "@/lib/rateLimit";
+
+type Params = { params: Promise<{ questionId: string }> };
+
+// GET /api/questions/[questionId]/comments — the question's thread, oldest first
+// Public → visible comments; Admin or event host → hidden and pending ones too
+export async function GET(req: NextRequest, { params }: Params) {
+  const { questionId } = await params;
+  const access = await getQuestionAccess(req.cookies, questionId, "questions:moderate");
+
+  const question = await prisma.question.findUnique({
+    where: { id: questionId, deletedAt: null, event: { deletedAt: null } },
+  });
+  if (!question || (!access && !isPubliclyVisible(question))) {
+    return NextResponse.json({ error: "Question not found" }, { status: 404 });
+  }
+
+  const comments = await prisma.comment.findMany({
+    where: { questionId, ...(access ? {} : { isHidden: false, isPending: false }) },
+    orderBy: { createdAt: "asc" },
+  });
+  return NextResponse.json({ comments: comments.map(toCommentSnapshot) });
+}
+
+// POST /api/questions/[questionId]/comments — add a comment (public)
+// Body: { text, isAnonymous, submittedName? }
+export async function POST(req: NextRequest, { params }: Params) {
+  const { questionId } = await params;
+
+  const question = await prisma.question.findUnique({
+    where: { id: questionId, deletedAt: null },
+    include: { event: true },
+  });
+  if (!question || !isPubliclyVisible(question) || !question.event.isActive || question.event.deletedAt) {
+    return NextResponse.json({ error: "Question not found" }, { status: 404 });
+  }
+  if (question.event.status === "CLOSED") {
+    return NextResponse.json({ error: "This event is closed." }, { status: 403 });
+  }
+
+  const body = await req.json();
+  const submitterId = await getVoterId(req.cookies);
+
+  const validation = validateCommentInput(body ?? {});
+  if (!validation.ok) {
+    return NextResponse.json({ error: validation.error }, { status: 400 });
+  }
+  const { text, isAnonymous, submittedName } = validation.value;
+
+  const limit = await checkRateLimit("comment", question.eventId, COMMENT_RATE_LIMIT, {
+    voterId: submitterId,
+    ip: getClientIp(req),
+  });
+  if (!limit.ok) {
+    return rateLimitedResponse(
+      `You've commented several times in a short time. You can comment again in ${describeRetryAfter(limit.retryAfterSec)}.`,
+      limit.retryAfterSec
+    );
+  }
+
+  // Comments have no flag queue: flag rules let them through, hide rules hide them
+  const screening = await screenQuestion(question.eventId, text, "comment");
+  if (screening.action === "block") {
+    return NextResponse.json({ error: screening.message }, { status: 400 });
+  }
+
+  const comment = await prisma.comment.create({
+    data: {
+      questionId,
+      text,
+      isAnonymous,
+      submittedName,
+      submitterId,
+      isHidden: screening.action === "hide",
+      isPending: question.event.isModerated,
+    },
+  });
+  await publishQuestion("question.commented", questionId);
+  return NextResponse.json(toCommentSnapshot(comment), { status: 201 });
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getQuestionAccess } from "@/lib/eventAccess";
+import { publishQuestion } from "@/lib/realtime";
+import { auditDiff, recordAudit } from "@/lib/audit";
+
+type Params = { params: Promise<{ questionId: string }> };
+
+// DELETE /api/questions/[questionId]/flag — clear a content-screening flag (admin or event host)
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const { questionId } = await params;
+  const access = await getQuestionAccess(req.cookies, questionId, "questions:moderate");
+  if (!access) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const question = await prisma.question.findUnique({ where: { id: questionId } });
+  if (!question) {
+    return NextResponse.json({ error: "Question not found" }, { status: 404 });
+  }
+  const data = { flagReason: null };
+  const updated = await prisma.question.update({ where: { id: questionId }, data });
+  await recordAudit(req.cookies, access, {
+    eventId: question.eventId,
+    action: "question.unflagged",
+    targetType: "question",
+    targetId: questionId,
+    ...auditDiff(question, data),
+  });
+  await publishQuestion("question.unflagged", questionId);
+  return NextResponse.json(updated);
+}
@@ -1,37 +1,55 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { ADMIN_COOKIE, verifySessionToken } from "@/lib/auth";
+import { getQuestionAccess } from "@/lib/eventAccess";
+import { publishQuestion } from "@/lib/realtime";
+import { auditDiff, recordAudit } from "@/lib/audit";
 
 type Params = { params: Promise<{ questionId: string }> };
 
-// POST /api/questions/[questionId]/hide — suppress question without answering (admin)
+// POST /api/questions/[questionId]/hide — suppress question without answering (admin or event host)
 export async function POST(req: NextRequest, { params }: Params) {
-  const token = req.cookies.get(ADMIN_COOKIE)?.value;
-  const isAdmin = token ? await verifySessionToken(token) : false;
-  if (!isAdmin) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
   const { questionId } = await params;
-  const updated = await prisma.question.update({
-    where: { id: questionId },
-    data: { isHidden: true },
+  const access = await getQuestionAccess(req.cookies, questionId, "questions:moderate");
+  if (!access) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const question = await prisma.question.findUnique({ where: { id: questionId } });
+  if (!question) {
+    return NextResponse.json({ error: "Question not found" }, { status: 404 });
+  }
+  const data = { isHidden: true };
+  const updated = await prisma.question.update({ where: { id: questionId }, data });
+  await recordAudit(req.cookies, access, {
+    eventId: question.eventId,
+    action: "question.hidden",
+    targetType: "question",
+    targetId: questionId,
+    ...auditDiff(question, data),
   });
+  await publishQuestion("question.hidden", questionId);
   return NextResponse.json(updated);
 }
 
-// DELETE /api/questions/[questionId]/hide — unhide question (admin)
+// DELETE /api/questions/[questionId]/hide — unhide question (admin or event host)
 export async function DELETE(req: NextRequest, { params }: Params) {
-  const token = req.cookies.get(ADMIN_COOKIE)?.value;
-  const isAdmin = token ? await verifySessionToken(token) : false;
-  if (!isAdmin) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
   const { questionId } = await params;
-  const updated = await prisma.question.update({
-    where: { id: questionId },
-    data: { isHidden: false },
+  const access = await getQuestionAccess(req.cookies, questionId, "questions:moderate");
+  if (!access) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const question = await prisma.question.findUnique({ where: { id: questionId } });
+  if (!question) {
+    return NextResponse.json({ error: "Question not found" }, { status: 404 });
+  }
+  const data = { isHidden: false };
+  const updated = await prisma.question.update({ where: { id: questionId }, data });
+  await recordAudit(req.cookies, access, {
+    eventId: question.eventId,
+    action: "question.unhidden",
+    targetType: "question",
+    targetId: questionId,
+    ...auditDiff(question, data),
   });
+  await publishQuestion("question.unhidden", questionId);
   return NextResponse.json(updated);
 }
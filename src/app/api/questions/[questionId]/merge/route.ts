@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getQuestionAccess } from "@/lib/eventAccess";
+import { publish, publishQuestion } from "@/lib/realtime";
+import { recordAudit } from "@/lib/audit";
+
+type Params = { params: Promise<{ questionId: string }> };
+
+// POST /api/questions/[questionId]/merge — merge this question into a duplicate (admin or event host)
+// Body: { intoId }
+// Votes and comments move to the surviving question; a voter who voted on both keeps their vote
+// on the survivor (one vote per voter per question). The merged question is removed and cannot be restored.
+export async function POST(req: NextRequest, { params }: Params) {
+  const { questionId } = await params;
+  const access = await getQuestionAccess(req.cookies, questionId, "questions:moderate");
+  if (!access) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const body = await req.json();
+  const intoId = typeof body?.intoId === "string" ? body.intoId : "";
+  if (!intoId || intoId === questionId) {
+    return NextResponse.json({ error: "intoId must be another question" }, { status: 400 });
+  }
+
+  const question = await prisma.question.findUnique({ where: { id: questionId } });
+  const target = await prisma.question.findUnique({ where: { id: intoId, deletedAt: null } });
+  if (!question) {
+    return NextResponse.json({ error: "Question not found" }, { status: 404 });
+  }
+  if (!target || target.eventId !== question.eventId) {
+    return NextResponse.json({ error: "Questions can only be merged within the same event" }, { status: 400 });
+  }
+
+  const { moved, dropped } = await prisma.$transaction(async (tx) => {
+    // One statement moves every vote whose voter has none on the survivor, so
+    // a vote cast on the survivor mid-merge is skipped rather than breaking the
+    // one-vote-per-voter constraint; whatever is left behind is a duplicate.
+    const moved = await tx.$executeRaw`
+      UPDATE "votes" SET "questionId" = ${intoId}, "updatedAt" = NOW()
+      WHERE "questionId" = ${questionId}
+        AND NOT EXISTS (
+          SELECT 1 FROM "votes" AS "kept"
+          WHERE "kept"."questionId" = ${intoId} AND "kept"."voterId" = "votes"."voterId"
+        )
+    `;
+    const dropped = await tx.vote.deleteMany({ where: { questionId } });
+    await tx.comment.updateMany({
+      where: { questionId },
+      data: { questionId: intoId },
+    });
+    await tx.question.update({
+      where: { id: questionId },
+      data: { deletedAt: new Date(), mergedIntoId: intoId },
+    });
+    return { moved, dropped: dropped.count };
+  });
+
+  await recordAudit(req.cookies, access, {
+    eventId: question.eventId,
+    action: "question.merged",
+    targetType: "question",
+    targetId: questionId,
+    before: { text: question.text, mergedIntoId: null },
+    after: { mergedIntoId: intoId, votesMoved: moved, duplicateVotesDropped: dropped },
+  });
+  publish(question.eventId, { type: "question.removed", id: questionId });
+  await publishQuestion("question.merged", intoId);
+
+  return NextResponse.json({ mergedIntoId: intoId, votesMoved: moved, duplicateVotesDropped: dropped });
+}
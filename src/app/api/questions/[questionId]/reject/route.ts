@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getQuestionAccess } from "@/lib/eventAccess";
+import { publishQuestion } from "@/lib/realtime";
+import { auditDiff, recordAudit } from "@/lib/audit";
+
+type Params = { params: Promise<{ questionId: string }> };
+
+// POST /api/questions/[questionId]/reject — move a pending question to hidden (admin or event host)
+// It can still be unhidden later from the Hidden tab.
+export async function POST(req: NextRequest, { params }: Params) {
+  const { questionId } = await params;
+  const access = await getQuestionAccess(req.cookies, questionId, "questions:moderate");
+  if (!access) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const question = await prisma.question.findUnique({ where: { id: questionId } });
+  if (!question) {
+    return NextResponse.json({ error: "Question not found" }, { status: 404 });
+  }
+  const data = { isPending: false, isHidden: true };
+  const updated = await prisma.question.update({ where: { id: questionId }, data });
+  await recordAudit(req.cookies, access, {
+    eventId: question.eventId,
+    action: "question.rejected",
+    targetType: "question",
+    targetId: questionId,
+    ...auditDiff(question, data),
+  });
+  await publishQuestion("question.rejected", questionId);
+  return NextResponse.json(updated);
+}
@@ -1,20 +1,29 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { VOTER_COOKIE } from "@/lib/voter";
+import { getVoterId } from "@/lib/voter";
+import { publish, publishQuestion } from "@/lib/realtime";
+import { screenQuestion } from "@/lib/screening";
+import { getQuestionAccess } from "@/lib/eventAccess";
+import { auditDiff, recordAudit } from "@/lib/audit";
+import { MAX_QUESTION_LENGTH } from "@/lib/questions";
 
 type Params = { params: Promise<{ questionId: string }> };
 
 const EDIT_WINDOW_MS = 2 * 60 * 1000; // 2 minutes
 
 // PATCH /api/questions/[questionId] — edit question text (submitter only, within 2 min)
+// In a pre-moderated event, changed text goes back to Pending even if it was approved.
 export async function PATCH(req: NextRequest, { params }: Params) {
   const { questionId } = await params;
-  const voterId = req.cookies.get(VOTER_COOKIE)?.value;
+  const voterId = await getVoterId(req.cookies);
   if (!voterId) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const question = await prisma.question.findUnique({ where: { id: questionId } });
+  const question = await prisma.question.findUnique({
+    where: { id: questionId, deletedAt: null },
+    include: { event: { select: { isModerated: true } } },
+  });
   if (!question) {
     return NextResponse.json({ error: "Question not found" }, { status: 404 });
   }
@@ -30,29 +39,64 @@ export async function PATCH(req: NextRequest, { params }: Params) {
   if (!text) {
     return NextResponse.json({ error: "Question text is required" }, { status: 400 });
   }
-  if (text.length > 280) {
+  if (text.length > MAX_QUESTION_LENGTH) {
     return NextResponse.json(
-      { error: "Questions must be 280 characters or fewer." },
+      { error: `Questions must be ${MAX_QUESTION_LENGTH} characters or fewer.` },
       { status: 400 }
     );
   }
 
+  // Re-screen the new text; a clean edit clears an earlier flag but never unhides
+  const screening = await screenQuestion(question.eventId, text);
+  if (screening.action === "block") {
+    return NextResponse.json({ error: screening.message }, { status: 400 });
+  }
+
   const updated = await prisma.question.update({
     where: { id: questionId },
-    data: { text },
+    data: {
+      text,
+      flagReason: screening.action === "allow" ? null : screening.reason,
+      ...(screening.action === "hide" ? { isHidden: true } : {}),
+      // Approval was for the old wording
+      ...(question.event.isModerated && text !== question.text ? { isPending: true } : {}),
+    },
   });
-  return NextResponse.json(updated);
+  await publishQuestion("question.edited", questionId);
+  const { flagReason: _flagReason, ...ownQuestion } = updated;
+  return NextResponse.json(ownQuestion);
 }
 
-// DELETE /api/questions/[questionId] — retract question (submitter only, within 2 min)
+// DELETE /api/questions/[questionId] — move to the trash (admin or event host), or
+// retract (submitter only, within 2 min). Retracting removes the question for good.
 export async function DELETE(req: NextRequest, { params }: Params) {
   const { questionId } = await params;
-  const voterId = req.cookies.get(VOTER_COOKIE)?.value;
+
+  const access = await getQuestionAccess(req.cookies, questionId, "questions:moderate");
+  if (access) {
+    const question = await prisma.question.findUnique({ where: { id: questionId } });
+    if (!question) {
+      return NextResponse.json({ error: "Question not found" }, { status: 404 });
+    }
+    const data = { deletedAt: new Date() };
+    await prisma.question.update({ where: { id: questionId }, data });
+    await recordAudit(req.cookies, access, {
+      eventId: question.eventId,
+      action: "question.deleted",
+      targetType: "question",
+      targetId: questionId,
+      ...auditDiff(question, data),
+    });
+    publish(question.eventId, { type: "question.removed", id: questionId });
+    return NextResponse.json({ success: true });
+  }
+
+  const voterId = await getVoterId(req.cookies);
   if (!voterId) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const question = await prisma.question.findUnique({ where: { id: questionId } });
+  const question = await prisma.question.findUnique({ where: { id: questionId, deletedAt: null } });
   if (!question) {
     return NextResponse.json({ error: "Question not found" }, { status: 404 });
   }
@@ -64,5 +108,6 @@ export async function DELETE(req: NextRequest, { params }: Params) {
   }
 
   await prisma.question.delete({ where: { id: questionId } });
+  publish(question.eventId, { type: "question.retracted", id: questionId });
   return NextResponse.json({ success: true });
 }
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getQuestionAccess } from "@/lib/eventAccess";
+import { publishQuestion } from "@/lib/realtime";
+import { auditDiff, recordAudit } from "@/lib/audit";
+
+type Params = { params: Promise<{ questionId: string }> };
+
+// PUT /api/questions/[questionId]/topic — file a question under another topic (admin or event host)
+// Body: { topicId }  (null clears the topic)
+export async function PUT(req: NextRequest, { params }: Params) {
+  const { questionId } = await params;
+  const access = await getQuestionAccess(req.cookies, questionId, "questions:moderate");
+  if (!access) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  const question = await prisma.question.findUnique({ where: { id: questionId } });
+  if (!question) {
+    return NextResponse.json({ error: "Question not found" }, { status: 404 });
+  }
+
+  const body = await req.json();
+  const topicId = typeof body?.topicId === "string" && body.topicId ? body.topicId : null;
+  if (topicId && !(await prisma.eventTopic.findFirst({ where: { id: topicId, eventId: question.eventId } }))) {
+    return NextResponse.json({ error: "Unknown topic" }, { status: 400 });
+  }
+
+  const data = { topicId };
+  const updated = await prisma.question.update({ where: { id: questionId }, data });
+  await recordAudit(req.cookies, access, {
+    eventId: question.eventId,
+    action: "question.retagged",
+    targetType: "question",
+    targetId: questionId,
+    ...auditDiff(question, data),
+  });
+  await publishQuestion("question.retagged", questionId);
+  return NextResponse.json(updated);
+}
@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { VOTER_COOKIE, generateVoterId } from "@/lib/voter";
+import { VOTER_COOKIE, VOTER_COOKIE_OPTIONS, createVoter, getVoter } from "@/lib/voter";
+import { publishQuestion } from "@/lib/realtime";
+import { detectVoteBurst, hashIp } from "@/lib/voteAnomaly";
+import {
+  checkRateLimit,
+  describeRetryAfter,
+  getClientIp,
+  getRateLimitRule,
+  rateLimitedResponse,
+} from "@/lib/rateLimit";
 
 type Params = { params: Promise<{ questionId: string }> };
 
@@ -9,10 +18,13 @@ type Params = { params: Promise<{ questionId: string }> };
 export async function POST(req: NextRequest, { params }: Params) {
   const { questionId } = await params;
 
-  // Resolve or create voter ID
-  let voterId = req.cookies.get(VOTER_COOKIE)?.value;
-  const isNewVoter = !voterId;
-  if (!voterId) voterId = generateVoterId();
+  // Resolve or create voter ID (unsigned or tampered cookies get a new one)
+  const existingVoter = await getVoter(req.cookies);
+  const newVoter = existingVoter ? null : await createVoter();
+  const voter = (existingVoter ?? newVoter)!;
+  const voterId = voter.id;
+  const isNewVoter = newVoter !== null;
+  const ip = getClientIp(req);
 
   const body = await req.json();
   const raw = body?.value;
@@ -26,12 +38,18 @@ export async function POST(req: NextRequest, { params }: Params) {
 
   // Check question exists and is OPEN
   const question = await prisma.question.findUnique({
-    where: { id: questionId },
-    select: { id: true, status: true, eventId: true },
+    where: { id: questionId, deletedAt: null, event: { deletedAt: null } },
+    select: { id: true, status: true, eventId: true, isPending: true },
   });
   if (!question) {
     return NextResponse.json({ error: "Question not found" }, { status: 404 });
   }
+  if (question.isPending) {
+    return NextResponse.json(
+      { error: "This question is awaiting approval" },
+      { status: 409 }
+    );
+  }
   if (question.status !== "OPEN") {
     return NextResponse.json(
       { error: "Cannot vote on an answered question" },
@@ -42,7 +60,14 @@ export async function POST(req: NextRequest, { params }: Params) {
   // Check event is not closed and voting is open
   const event = await prisma.event.findUnique({
     where: { id: question.eventId },
-    select: { isVotingOpen: true, status: true },
+    select: {
+      isVotingOpen: true,
+      status: true,
+      voteRateLimit: true,
+      voteRateWindowSec: true,
+      questionRateLimit: true,
+      questionRateWindowSec: true,
+    },
   });
   if (event?.status === "CLOSED") {
     return NextResponse.json(
@@ -57,16 +82,31 @@ export async function POST(req: NextRequest, { params }: Params) {
     );
   }
 
+  const limit = await checkRateLimit("vote", question.eventId, getRateLimitRule(event, "vote"), {
+    voterId: isNewVoter ? null : voterId,
+    ip,
+  });
+  if (!limit.ok) {
+    return rateLimitedResponse(
+      `You're voting too quickly. Try again in ${describeRetryAfter(limit.retryAfterSec)}.`,
+      limit.retryAfterSec
+    );
+  }
+
   if (value === 0) {
     // Remove vote
     await prisma.vote.deleteMany({ where: { questionId, voterId } });
   } else {
     // Upsert — DB unique constraint prevents duplicates
+    const ipHash = hashIp(ip);
+    // A migrated legacy ID was minted before issue times were kept
+    const voterIssuedAt = voter.isMigrated ? null : voter.issuedAt;
     await prisma.vote.upsert({
       where: { questionId_voterId: { questionId, voterId } },
-      create: { questionId, voterId, value },
-      update: { value },
+      create: { questionId, voterId, value, ipHash, voterIssuedAt },
+      update: { value, ipHash, voterIssuedAt },
     });
+    await detectVoteBurst(question.eventId, questionId, ipHash);
   }
 
   // Return updated score
@@ -75,17 +115,15 @@ export async function POST(req: NextRequest, { params }: Params) {
     _sum: { value: true },
   });
   const score = agg._sum.value ?? 0;
+  await publishQuestion("question.voted", questionId, [
+    { voterId, value: value === 0 ? null : (value as 1 | -1) },
+  ]);
 
   const res = NextResponse.json({ score, myVote: value === 0 ? null : value });
 
   // Persist voter ID in cookie if it was just created
-  if (isNewVoter) {
-    res.cookies.set(VOTER_COOKIE, voterId, {
-      httpOnly: false,
-      sameSite: "lax",
-      maxAge: 60 * 60 * 24 * 365,
-      path: "/",
-    });
+  if (newVoter) {
+    res.cookies.set(VOTER_COOKIE, newVoter.cookie, VOTER_COOKIE_OPTIONS);
   }
 
   return res;
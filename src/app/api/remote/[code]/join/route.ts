@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getEventAccess } from "@/lib/eventAccess";
+import { findRemote, publishRemote, toRemoteSnapshot } from "@/lib/presenterRemote";
+
+type Params = { params: Promise<{ code: string }> };
+
+// POST /api/remote/[code]/join — take control of a presenter view (admin or team event host)
+// Joining again (e.g. from a second device) keeps the current state.
+export async function POST(req: NextRequest, { params }: Params) {
+  const { code } = await params;
+  const remote = await findRemote(code);
+  if (!remote) {
+    return NextResponse.json({ error: "Unknown or expired code" }, { status: 404 });
+  }
+  if (!(await getEventAccess(req.cookies, remote.event, "questions:answer"))) {
+    return NextResponse.json(
+      { error: "Only the event's hosts and admins can control the presenter view" },
+      { status: 403 }
+    );
+  }
+
+  let snapshot = toRemoteSnapshot(remote);
+  if (!remote.pairedAt) {
+    // Start from the question the presenter already had on screen
+    const paired = await prisma.presenterRemote.update({
+      where: { id: remote.id },
+      data: { pairedAt: new Date(), selectedId: remote.event.nowAnsweringId },
+    });
+    publishRemote(paired);
+    snapshot = toRemoteSnapshot(paired);
+  }
+
+  return NextResponse.json({
+    remote: snapshot,
+    event: { id: remote.event.id, title: remote.event.title },
+  });
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getEventAccess } from "@/lib/eventAccess";
+import { publishEvent } from "@/lib/realtime";
+import { setNowAnswering } from "@/lib/nowAnswering";
+import { findRemote, publishRemote, toRemoteSnapshot } from "@/lib/presenterRemote";
+
+type Params = { params: Promise<{ code: string }> };
+
+// GET /api/remote/[code] — the remote's current state (public; the projector reloads it)
+export async function GET(_req: NextRequest, { params }: Params) {
+  const { code } = await params;
+  const remote = await findRemote(code);
+  if (!remote) {
+    return NextResponse.json({ error: "Unknown or expired code" }, { status: 404 });
+  }
+  return NextResponse.json(toRemoteSnapshot(remote));
+}
+
+// PUT /api/remote/[code] — put a question or the poll results on the projector (admin or team event host)
+// Body: { selectedId?: string | null, view?: "questions" | "poll" }
+// The question on screen also becomes the event's "now answering" question.
+export async function PUT(req: NextRequest, { params }: Params) {
+  const { code } = await params;
+  const remote = await findRemote(code);
+  if (!remote) {
+    return NextResponse.json({ error: "Unknown or expired code" }, { status: 404 });
+  }
+  if (!(await getEventAccess(req.cookies, remote.event, "questions:answer"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  if (!remote.pairedAt) {
+    return NextResponse.json({ error: "Join the remote first" }, { status: 409 });
+  }
+
+  const body = await req.json();
+  const data: { selectedId?: string | null; view?: "questions" | "poll" } = {};
+  if ("selectedId" in (body ?? {})) {
+    const { selectedId } = body;
+    if (selectedId !== null && typeof selectedId !== "string") {
+      return NextResponse.json({ error: "selectedId must be a string or null" }, { status: 400 });
+    }
+    if (selectedId) {
+      const question = await prisma.question.findUnique({
+        where: { id: selectedId, eventId: remote.eventId, deletedAt: null, isHidden: false, isPending: false },
+        select: { id: true },
+      });
+      if (!question) {
+        return NextResponse.json({ error: "Question not found" }, { status: 404 });
+      }
+    }
+    data.selectedId = selectedId;
+  }
+  if (body?.view === "questions" || body?.view === "poll") data.view = body.view;
+  if (Object.keys(data).length === 0) {
+    return NextResponse.json({ error: "No valid fields to update" }, { status: 400 });
+  }
+
+  const updated = await prisma.presenterRemote.update({ where: { id: remote.id }, data });
+  publishRemote(updated);
+
+  if (remote.event.status !== "CLOSED") {
+    const onScreen = updated.view === "questions" ? updated.selectedId : null;
+    const event = await setNowAnswering(remote.eventId, onScreen);
+    if (event.nowAnsweringId !== remote.event.nowAnsweringId) publishEvent(event);
+  }
+
+  return NextResponse.json(toRemoteSnapshot(updated));
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isSessionTokenActive } from "@/lib/session";
+
+// POST /api/sessions/check — used by middleware (edge runtime, no Prisma) to
+// confirm a cookie's session row has not been revoked or expired.
+// Body: { token, kind: "admin" | "site" }
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => null);
+  const token = body?.token;
+  const kind = body?.kind;
+  if (typeof token !== "string" || (kind !== "admin" && kind !== "site")) {
+    return NextResponse.json({ error: "token and kind are required" }, { status: 400 });
+  }
+
+  const active = await isSessionTokenActive(token, kind);
+  return NextResponse.json({ active });
+}
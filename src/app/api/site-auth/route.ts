@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { verifySitePassword, createSessionToken, SITE_COOKIE } from "@/lib/auth";
+import { verifySitePassword, SITE_COOKIE, SITE_SESSION_TTL } from "@/lib/auth";
+import { startSession } from "@/lib/session";
 
 // POST /api/site-auth
 export async function POST(req: NextRequest) {
@@ -22,13 +23,13 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: "Incorrect password" }, { status: 401 });
   }
 
-  const token = await createSessionToken();
+  const token = await startSession("site", SITE_SESSION_TTL);
   const res = NextResponse.json({ ok: true });
 
   res.cookies.set(SITE_COOKIE, token, {
     httpOnly: true,
     sameSite: "lax",
-    maxAge: 60 * 60 * 24 * 7, // 7 days
+    maxAge: SITE_SESSION_TTL,
     path: "/",
   });
 
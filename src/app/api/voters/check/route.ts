@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isKnownLegacyVoter } from "@/lib/legacyVoters";
+
+// POST /api/voters/check — used by middleware (edge runtime, no Prisma) to
+// decide whether a legacy unsigned voter ID is kept or replaced.
+// Body: { voterId }
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => null);
+  const voterId = body?.voterId;
+  if (typeof voterId !== "string" || !voterId) {
+    return NextResponse.json({ error: "voterId is required" }, { status: 400 });
+  }
+
+  const known = await isKnownLegacyVoter(voterId);
+  return NextResponse.json({ known });
+}
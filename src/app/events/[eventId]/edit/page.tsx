@@ -59,6 +59,7 @@ export default function EditEventPage() {
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [notFound, setNotFound] = useState(false);
+  const [canEdit, setCanEdit] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [showCloseModal, setShowCloseModal] = useState(false);
@@ -85,6 +86,7 @@ export default function EditEventPage() {
         setIsVotingOpen(event.isVotingOpen ?? true);
         setIsPublic(event.isPublic ?? true);
         setEventStatus(event.status ?? "OPEN");
+        setCanEdit(data.canEdit === true);
       } catch {
         setNotFound(true);
       } finally {
@@ -186,6 +188,17 @@ export default function EditEventPage() {
     );
   }
 
+  if (!canEdit) {
+    return (
+      <main className="max-w-2xl mx-auto px-4 py-12 text-center text-gray-500">
+        Only the event&apos;s creator can edit this event.{" "}
+        <Link href={`/events/${eventId}`} className="text-brand-700 hover:underline">
+          Back to event
+        </Link>
+      </main>
+    );
+  }
+
   return (
     <main className="max-w-2xl mx-auto px-6 py-16">
       <div className="mb-6">
@@ -288,6 +301,9 @@ export default function EditEventPage() {
         <VotingToggle isOpen={isVotingOpen} onChange={setIsVotingOpen} />
       </div>
 
+      {/* Co-hosts */}
+      <CoHostsSection eventId={eventId} />
+
       {/* Event actions */}
       <div className="mt-10 border-t border-gray-200 pt-6">
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-px bg-gray-200 rounded-xl overflow-hidden">
@@ -348,6 +364,153 @@ export default function EditEventPage() {
   );
 }
 
+// ── CoHostsSection ────────────────────────────────────────────────────────────
+
+type CoHost = { id: string; name: string; createdAt: string };
+
+function CoHostsSection({ eventId }: { eventId: string }) {
+  const [coHosts, setCoHosts] = useState<CoHost[]>([]);
+  const [canInvite, setCanInvite] = useState(false);
+  const [inviteToken, setInviteToken] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCoHosts = useCallback(async () => {
+    const res = await fetch(`/api/events/${eventId}/cohosts`);
+    if (!res.ok) return;
+    const data = await res.json();
+    setCoHosts(data.coHosts);
+    setCanInvite(data.canInvite);
+    setInviteToken(data.inviteToken);
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchCoHosts();
+  }, [fetchCoHosts]);
+
+  const inviteUrl =
+    inviteToken && typeof window !== "undefined"
+      ? `${window.location.origin}/events/${eventId}/join?token=${inviteToken}`
+      : null;
+
+  async function resetInvite() {
+    setError(null);
+    const res = await fetch(`/api/events/${eventId}/cohosts`, { method: "POST" });
+    const data = await res.json();
+    if (!res.ok) {
+      setError(data.error ?? "Failed to create invite link.");
+      return;
+    }
+    setInviteToken(data.inviteToken);
+    setCopied(false);
+  }
+
+  async function disableInvite() {
+    setError(null);
+    const res = await fetch(`/api/events/${eventId}/cohosts`, {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ invite: true }),
+    });
+    if (!res.ok) {
+      const data = await res.json();
+      setError(data.error ?? "Failed to disable invite link.");
+      return;
+    }
+    setInviteToken(null);
+  }
+
+  async function removeCoHost(coHost: CoHost) {
+    if (!confirm(`Remove ${coHost.name} as a co-host?`)) return;
+    setError(null);
+    const res = await fetch(`/api/events/${eventId}/cohosts`, {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id: coHost.id }),
+    });
+    if (!res.ok) {
+      const data = await res.json();
+      setError(data.error ?? "Failed to remove co-host.");
+    }
+    await fetchCoHosts();
+  }
+
+  async function copyInvite() {
+    if (!inviteUrl) return;
+    await navigator.clipboard.writeText(inviteUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  }
+
+  return (
+    <div className="mt-6 bg-white rounded-xl border border-gray-200 shadow-sm p-5">
+      <h2 className="text-sm font-semibold text-gray-700 mb-1">Co-hosts</h2>
+      <p className="text-xs text-gray-400 mb-4">
+        Co-hosts can answer, hide and pin questions and open or close voting for this event.
+      </p>
+
+      {coHosts.length === 0 ? (
+        <p className="text-sm text-gray-400 mb-4">No co-hosts yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 mb-4">
+          {coHosts.map((c) => (
+            <li key={c.id} className="flex items-center justify-between py-2 text-sm">
+              <span>{c.name}</span>
+              {canInvite && (
+                <button
+                  onClick={() => removeCoHost(c)}
+                  className="px-3 py-1 text-xs text-red-600 bg-red-50 rounded-lg hover:bg-red-100 font-medium transition-colors"
+                >
+                  Remove
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canInvite && (
+        <>
+          {inviteUrl ? (
+            <div className="flex gap-2 mb-2">
+              <input
+                readOnly
+                value={inviteUrl}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 min-w-0 border border-gray-300 rounded-lg px-3 py-1.5 text-xs text-gray-600 bg-gray-50"
+              />
+              <button
+                onClick={copyInvite}
+                className="px-3 py-1.5 rounded-lg text-xs font-medium text-white bg-gray-900 hover:bg-gray-700 transition-colors"
+              >
+                {copied ? "Copied!" : "Copy"}
+              </button>
+            </div>
+          ) : null}
+          <div className="flex gap-2">
+            <button
+              onClick={resetInvite}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors"
+            >
+              {inviteUrl ? "Reset Invite Link" : "Create Invite Link"}
+            </button>
+            {inviteUrl && (
+              <button
+                onClick={disableInvite}
+                className="px-3 py-1.5 rounded-lg text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors"
+              >
+                Disable Link
+              </button>
+            )}
+          </div>
+        </>
+      )}
+
+      {error && <p className="text-red-500 text-sm mt-3">{error}</p>}
+    </div>
+  );
+}
+
 // ── CloseModal ────────────────────────────────────────────────────────────────
 
 function CloseModal({
@@ -436,7 +599,7 @@ function DeleteModal({
           Delete event?
         </h2>
         <p className="mt-2 text-sm text-gray-600 leading-relaxed">
-          This will permanently remove the event and all associated questions and votes. This action cannot be undone.
+          This will remove the event and all of its questions and votes. An admin can restore it within 30 days.
         </p>
         <div className="mt-5 flex justify-end gap-2">
           <button
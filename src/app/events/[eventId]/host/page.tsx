@@ -0,0 +1,29 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import ModerationConsole, { type EventSettings } from "@/components/ModerationConsole";
+
+// Host console for a team event — same tabs as the admin event page, open to
+// the event's creator and co-hosts without an admin account.
+export default function HostEventPage() {
+  const { eventId } = useParams<{ eventId: string }>();
+
+  async function saveSettings(settings: EventSettings) {
+    const res = await fetch(`/api/events/${eventId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(settings),
+    });
+    if (!res.ok) throw new Error("Failed to update event settings");
+  }
+
+  return (
+    <ModerationConsole
+      eventId={eventId}
+      backHref={`/events/${eventId}`}
+      backLabel="Back to event"
+      saveSettings={saveSettings}
+      hostOnly
+    />
+  );
+}
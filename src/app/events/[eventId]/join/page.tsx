@@ -0,0 +1,82 @@
+"use client";
+
+import { useState, FormEvent, Suspense } from "react";
+import { useRouter, useParams, useSearchParams } from "next/navigation";
+
+function JoinForm() {
+  const router = useRouter();
+  const { eventId } = useParams<{ eventId: string }>();
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token") ?? "";
+
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+
+    try {
+      const res = await fetch(`/api/events/${eventId}/cohosts/join`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, name: name.trim() }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Failed to join as co-host.");
+        return;
+      }
+      router.push(`/events/${eventId}`);
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <main className="max-w-sm mx-auto px-4 py-16">
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+        <h1 className="text-xl font-bold mb-1">Co-host this event</h1>
+        <p className="text-sm text-gray-400 mb-5">
+          You&apos;ve been invited to help run this AMA. Co-hosts can answer, hide and pin
+          questions and open or close voting.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <input
+            type="text"
+            autoFocus
+            required
+            placeholder="Your full name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-400"
+          />
+
+          {error && <p className="text-red-500 text-sm">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={loading || !name.trim()}
+            className="w-full bg-gray-900 text-white py-2 rounded-lg text-sm font-medium hover:bg-gray-700 disabled:opacity-50 transition-colors"
+          >
+            {loading ? "Joining..." : "Join as Co-host"}
+          </button>
+        </form>
+      </div>
+    </main>
+  );
+}
+
+export default function JoinEventPage() {
+  return (
+    <Suspense>
+      <JoinForm />
+    </Suspense>
+  );
+}
@@ -3,6 +3,20 @@
 import { useEffect, useState, useCallback, useRef, useMemo, useLayoutEffect } from "react";
 import Link from "next/link";
 import { useParams } from "next/navigation";
+import AnswerBlock from "@/components/AnswerBlock";
+import CommentThread from "@/components/CommentThread";
+import PollResults from "@/components/PollResults";
+import { findSimilarQuestions } from "@/lib/similarity";
+import {
+  useEventStream,
+  applyQuestionDelta,
+  applyPollDelta,
+  type ClientStreamDelta,
+  type StreamAnswer,
+  type StreamTopic,
+  type StreamPanelist,
+  type StreamPoll,
+} from "@/lib/useEventStream";
 
 type Question = {
   id: string;
@@ -11,11 +25,18 @@ type Question = {
   isAnonymous: boolean;
   status: "OPEN" | "ANSWERED";
   isHidden: boolean;
+  isPending: boolean;
+  topicId: string | null;
+  directedToId: string | null;
   pinnedAt: string | null;
+  answeredAt: string | null;
   isOwn: boolean;
   createdAt: string;
   score: number;
+  voteCount: number;
+  commentCount: number;
   myVote: 1 | -1 | null;
+  answer: StreamAnswer | null;
 };
 
 type Event = {
@@ -27,37 +48,31 @@ type Event = {
   startsAt: string | null;
   type: "company" | "team";
   hostName: string | null;
+  nowAnsweringId: string | null;
+  nowAnsweringAt: string | null;
 };
 
+// myOptionId is missing on polls that arrived over the stream
+type Poll = StreamPoll & { myOptionId?: string | null };
+
 type SortMode = "score" | "newest";
+type ListTab = "open" | "answered";
 
 const EDIT_WINDOW_MS = 2 * 60 * 1000;
 
-function tokenize(text: string): Set<string> {
-  return new Set(
-    text
-      .toLowerCase()
-      .replace(/[^\w\s]/g, "")
-      .split(/\s+/)
-      .filter((w) => w.length > 2)
-  );
-}
-
-function jaccardSimilarity(a: Set<string>, b: Set<string>): number {
-  if (a.size === 0 || b.size === 0) return 0;
-  let intersection = 0;
-  a.forEach((w) => { if (b.has(w)) intersection++; });
-  const union = a.size + b.size - intersection;
-  return union === 0 ? 0 : intersection / union;
-}
-
 export default function EventPage() {
   const { eventId } = useParams<{ eventId: string }>();
 
   const [event, setEvent] = useState<Event | null>(null);
+  const [canManage, setCanManage] = useState(false);
+  const [canEdit, setCanEdit] = useState(false);
   const [questions, setQuestions] = useState<Question[]>([]);
-  const [metrics, setMetrics] = useState<{ questionCount: number; voteCount: number } | null>(null);
   const [sortMode, setSortMode] = useState<SortMode>("score");
+  const [listTab, setListTab] = useState<ListTab>("open");
+  const [topics, setTopics] = useState<StreamTopic[]>([]);
+  const [topicFilter, setTopicFilter] = useState<string | null>(null);
+  const [panelists, setPanelists] = useState<StreamPanelist[]>([]);
+  const [polls, setPolls] = useState<Poll[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -78,8 +93,17 @@ export default function EventPage() {
   const [formText, setFormText] = useState("");
   const [formName, setFormName] = useState("");
   const [isAnonymous, setIsAnonymous] = useState(false);
+  const [formTopicId, setFormTopicId] = useState("");
+  const [formDirectedToId, setFormDirectedToId] = useState("");
   const [submitting, setSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
+  const [submitThrottled, setSubmitThrottled] = useState(false);
+  const [submitNotice, setSubmitNotice] = useState<string | null>(null);
+  // Set when a submit was held back to suggest voting on a similar question
+  const [duplicatePrompt, setDuplicatePrompt] = useState(false);
+
+  // Shown when the server rate-limits voting (429); clears itself
+  const [voteNotice, setVoteNotice] = useState<string | null>(null);
 
   // Inline editing state
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -100,6 +124,12 @@ export default function EventPage() {
     return () => clearInterval(id);
   }, []);
 
+  useEffect(() => {
+    if (!voteNotice) return;
+    const id = setTimeout(() => setVoteNotice(null), 6000);
+    return () => clearTimeout(id);
+  }, [voteNotice]);
+
   // Detect newly appeared questions and flag them for entry animation
   useEffect(() => {
     const fresh = new Set<string>();
@@ -132,6 +162,10 @@ export default function EventPage() {
       }
       const data = await res.json();
       setEvent(data.event);
+      setCanManage(data.canManage === true);
+      setCanEdit(data.canEdit === true);
+      setTopics(data.topics ?? []);
+      setPanelists(data.panelists ?? []);
       // Merge poll results: preserve local optimistic state for any question
       // whose vote request is still in flight so the UI doesn't flicker back.
       setQuestions((local) => {
@@ -143,7 +177,6 @@ export default function EventPage() {
           return serverQ;
         });
       });
-      setMetrics(data.metrics ?? null);
       setError(null);
     } catch {
       setError("Network error. Retrying...");
@@ -157,12 +190,86 @@ export default function EventPage() {
     fetchQuestions();
   }, [fetchQuestions]);
 
+  const fetchPolls = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/events/${eventId}/polls`);
+      if (res.ok) setPolls(await res.json());
+    } catch {
+      // the question fetch already reports network errors
+    }
+  }, [eventId]);
+
   useEffect(() => {
-    pollRef.current = setInterval(fetchQuestions, 3000);
+    fetchPolls();
+  }, [fetchPolls]);
+
+  const refresh = useCallback(() => {
+    fetchQuestions();
+    fetchPolls();
+  }, [fetchQuestions, fetchPolls]);
+
+  const handleDelta = useCallback((delta: ClientStreamDelta) => {
+    if (delta.type === "event.updated") {
+      setEvent((prev) => (prev ? { ...prev, ...delta.event } : prev));
+      return;
+    }
+    if (delta.type === "event.removed") {
+      setEvent(null);
+      setError("This event has been deleted.");
+      return;
+    }
+    if (delta.type === "topics.updated") {
+      setTopics(delta.topics);
+      return;
+    }
+    if (delta.type === "panelists.updated") {
+      setPanelists(delta.panelists);
+      return;
+    }
+    if (delta.type === "poll.updated" || delta.type === "poll.removed") {
+      setPolls((prev) => applyPollDelta(prev, delta));
+      return;
+    }
+    // A vote response for this question is still pending and will carry the
+    // authoritative score — don't let a broadcast flicker the optimistic state.
+    if (delta.type === "question.voted" && votingIdsRef.current.has(delta.question.id)) {
+      const { id, voteCount } = delta.question;
+      setQuestions((prev) => prev.map((q) => (q.id === id ? { ...q, voteCount } : q)));
+      return;
+    }
+    setQuestions((prev) => applyQuestionDelta(prev, delta));
+  }, []);
+
+  const streamConnected = useEventStream(eventId, {
+    onDelta: handleDelta,
+    onReady: refresh,
+  });
+
+  // Poll only while the live stream is down
+  useEffect(() => {
+    if (streamConnected) return;
+    pollRef.current = setInterval(refresh, 3000);
     return () => {
       if (pollRef.current) clearInterval(pollRef.current);
     };
-  }, [fetchQuestions]);
+  }, [refresh, streamConnected]);
+
+  // Returns an error message, or null once the answer is saved
+  async function handleAnswerPoll(pollId: string, optionId: string): Promise<string | null> {
+    try {
+      const res = await fetch(`/api/polls/${pollId}/respond`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ optionId }),
+      });
+      const data = await res.json();
+      if (!res.ok) return data.error ?? "Failed to save your answer.";
+      setPolls((prev) => prev.map((p) => (p.id === pollId ? data : p)));
+      return null;
+    } catch {
+      return "Network error. Please try again.";
+    }
+  }
 
   async function handleVote(questionId: string, clicked: 1 | -1) {
     // Guard: only one request per question at a time.
@@ -198,6 +305,16 @@ export default function EventPage() {
       )
     );
 
+    // Revert optimistic update on error; poll will reconcile next cycle.
+    const revert = () => {
+      const revertVote = prev === 0 ? null : prev;
+      setQuestions((qs) =>
+        qs.map((q) =>
+          q.id !== questionId ? q : { ...q, score: q.score - delta, myVote: revertVote }
+        )
+      );
+    };
+
     try {
       const res = await fetch(`/api/questions/${questionId}/vote`, {
         method: "POST",
@@ -211,15 +328,13 @@ export default function EventPage() {
             q.id === questionId ? { ...q, score: data.score, myVote: data.myVote } : q
           )
         );
+      } else if (res.status === 429) {
+        revert();
+        const data = await res.json().catch(() => ({}));
+        setVoteNotice(data.error ?? "You're voting too quickly. Please wait a moment.");
       }
     } catch {
-      // Revert optimistic update on error; poll will reconcile next cycle.
-      const revertVote = prev === 0 ? null : prev;
-      setQuestions((qs) =>
-        qs.map((q) =>
-          q.id !== questionId ? q : { ...q, score: q.score - delta, myVote: revertVote }
-        )
-      );
+      revert();
     } finally {
       clearVoting(questionId);
     }
@@ -228,6 +343,8 @@ export default function EventPage() {
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     setSubmitError(null);
+    setSubmitThrottled(false);
+    setSubmitNotice(null);
 
     const text = formText.trim();
     const name = formName.trim();
@@ -239,21 +356,39 @@ export default function EventPage() {
       setSubmitError("Please enter your name, or submit anonymously.");
       return;
     }
+    // First submit with look-alikes on the board: offer to upvote one instead
+    if (duplicateWarnings.length > 0 && !duplicatePrompt) {
+      setDuplicatePrompt(true);
+      return;
+    }
 
     setSubmitting(true);
     try {
       const res = await fetch(`/api/events/${eventId}/questions`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ text, isAnonymous, submittedName: isAnonymous ? null : name }),
+        body: JSON.stringify({
+          text,
+          isAnonymous,
+          submittedName: isAnonymous ? null : name,
+          topicId: topics.some((t) => t.id === formTopicId) ? formTopicId : null,
+          directedToId: panelists.some((p) => p.id === formDirectedToId) ? formDirectedToId : null,
+        }),
       });
       const data = await res.json();
       if (!res.ok) {
+        // 429: keep the draft so it can be sent once the limit resets
+        setSubmitThrottled(res.status === 429);
         setSubmitError(data.error ?? "Failed to submit question.");
         return;
       }
       setFormText("");
       setFormName("");
+      setDuplicatePrompt(false);
+      if (data.isHidden || data.isPending) {
+        // Content screening or pre-moderation held it back for the moderators
+        setSubmitNotice("Thanks! Your question will appear to everyone once a moderator has reviewed it.");
+      }
       await fetchQuestions();
     } catch {
       setSubmitError("Network error. Please try again.");
@@ -305,26 +440,72 @@ export default function EventPage() {
     }
   }
 
-  // Fuzzy duplicate detection
+  // Admins and hosts also receive hidden and pending questions; the board only
+  // shows live ones, plus the viewer's own questions awaiting approval
+  const visibleQuestions = useMemo(
+    () => questions.filter((q) => q.status === "OPEN" && !q.isHidden && (!q.isPending || q.isOwn)),
+    [questions]
+  );
+  // Most recently answered first
+  const answeredQuestions = useMemo(
+    () =>
+      questions
+        .filter((q) => q.status === "ANSWERED" && !q.isHidden && !q.isPending)
+        .sort(
+          (a, b) =>
+            new Date(b.answeredAt ?? b.createdAt).getTime() -
+            new Date(a.answeredAt ?? a.createdAt).getTime()
+        ),
+    [questions]
+  );
+
+  // Fuzzy duplicate detection (lib/similarity.ts) against questions that can be voted on
   const duplicateWarnings = useMemo(() => {
     const trimmed = formText.trim();
     if (trimmed.length < 15) return [];
-    const inputTokens = tokenize(trimmed);
-    if (inputTokens.size === 0) return [];
-    return questions
-      .filter((q) => jaccardSimilarity(inputTokens, tokenize(q.text)) > 0.4)
-      .slice(0, 2);
-  }, [formText, questions]);
-
-  const sortedQuestions =
-    sortMode === "newest"
-      ? [...questions].sort((a, b) => {
-          const aPinned = a.pinnedAt ? 1 : 0;
-          const bPinned = b.pinnedAt ? 1 : 0;
-          if (bPinned !== aPinned) return bPinned - aPinned;
-          return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-        })
-      : questions; // already sorted by server
+    return findSimilarQuestions(
+      trimmed,
+      visibleQuestions.filter((q) => !q.isPending)
+    );
+  }, [formText, visibleQuestions]);
+
+  // Upvote the existing question in place of posting a near-duplicate
+  async function upvoteInstead(questionId: string) {
+    const existing = questions.find((q) => q.id === questionId);
+    if (existing?.myVote !== 1) await handleVote(questionId, 1);
+    setFormText("");
+    setDuplicatePrompt(false);
+    setSubmitNotice("Thanks — your vote went to the existing question.");
+  }
+
+  // Falls back to all topics if the selected one is removed
+  const activeTopic = topics.find((t) => t.id === topicFilter) ?? null;
+  const topicNames = new Map(topics.map((t) => [t.id, t.name]));
+  const panelistNames = new Map(panelists.map((p) => [p.id, p.name]));
+  const inTopic = (q: Question) => !activeTopic || q.topicId === activeTopic.id;
+  const filteredAnswered = answeredQuestions.filter(inTopic);
+
+  // Sorted client-side (mirrors the server order) so stream deltas land in place
+  const sortedQuestions = visibleQuestions.filter(inTopic).sort((a, b) => {
+    const aPinned = a.pinnedAt ? 1 : 0;
+    const bPinned = b.pinnedAt ? 1 : 0;
+    if (bPinned !== aPinned) return bPinned - aPinned;
+    if (sortMode === "score") {
+      if (aPinned && bPinned) {
+        return new Date(b.pinnedAt!).getTime() - new Date(a.pinnedAt!).getTime();
+      }
+      if (b.score !== a.score) return b.score - a.score;
+    }
+    return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+  });
+  const voteCount = visibleQuestions.reduce((sum, q) => sum + q.voteCount, 0);
+  // The presenter's current question, if attendees can see it
+  const nowAnswering = event?.nowAnsweringId
+    ? visibleQuestions.find((q) => q.id === event.nowAnsweringId) ?? null
+    : null;
+  // Hosts also receive drafts; those stay in the console
+  const openPolls = polls.filter((p) => p.status === "open");
+  const closedPolls = polls.filter((p) => p.status === "closed");
 
   if (loading) {
     return (
@@ -376,14 +557,26 @@ export default function EventPage() {
                 </div>
               )}
             </div>
-            {/* Right: Present (primary) + Manage (secondary) */}
+            {/* Right: Present (primary) + Moderate/Manage (secondary, hosts only) */}
             <div className="shrink-0 self-start flex items-center gap-2 pt-1">
-              <Link
-                href={`/events/${eventId}/edit`}
-                className="px-3.5 py-1.5 text-sm font-medium rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
-              >
-                Manage
-              </Link>
+              {canManage && (
+                <>
+                  <Link
+                    href={`/events/${eventId}/host`}
+                    className="px-3.5 py-1.5 text-sm font-medium rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+                  >
+                    Moderate
+                  </Link>
+                  {canEdit && (
+                    <Link
+                      href={`/events/${eventId}/edit`}
+                      className="px-3.5 py-1.5 text-sm font-medium rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+                    >
+                      Manage
+                    </Link>
+                  )}
+                </>
+              )}
               <a
                 href={`/presenter/${eventId}`}
                 target="_blank"
@@ -420,6 +613,27 @@ export default function EventPage() {
         )}
       </div>
 
+      {nowAnswering && event?.nowAnsweringAt && (
+        <NowAnsweringBanner question={nowAnswering} since={event.nowAnsweringAt} />
+      )}
+
+      {/* Live polls, then past results */}
+      {openPolls.map((poll) => (
+        <PollCard key={poll.id} poll={poll} onAnswer={(optionId) => handleAnswerPoll(poll.id, optionId)} />
+      ))}
+      {closedPolls.length > 0 && (
+        <details className="mb-6">
+          <summary className="cursor-pointer select-none text-sm text-gray-500 hover:text-gray-700">
+            Poll results ({closedPolls.length})
+          </summary>
+          <div className="mt-3">
+            {closedPolls.map((poll) => (
+              <PollCard key={poll.id} poll={poll} onAnswer={(optionId) => handleAnswerPoll(poll.id, optionId)} />
+            ))}
+          </div>
+        </details>
+      )}
+
       {/* Submit Form — hidden when event is closed */}
       {event?.status === "CLOSED" && (
         <div className="mb-8 rounded-xl border border-gray-200 bg-gray-50 px-5 py-4 text-sm text-gray-500">
@@ -437,7 +651,10 @@ export default function EventPage() {
             rows={3}
             placeholder="What's your question?"
             value={formText}
-            onChange={(e) => setFormText(e.target.value.slice(0, 280))}
+            onChange={(e) => {
+              setFormText(e.target.value.slice(0, 280));
+              setDuplicatePrompt(false);
+            }}
             maxLength={280}
           />
           <span
@@ -456,11 +673,27 @@ export default function EventPage() {
         {/* Duplicate warning */}
         {duplicateWarnings.length > 0 && (
           <div className="mt-2 rounded-lg bg-amber-50 border border-amber-200 px-3 py-2 text-xs text-amber-800">
-            <p className="font-medium mb-1">Similar question{duplicateWarnings.length > 1 ? "s" : ""} already asked — consider voting instead:</p>
+            <p className="font-medium mb-1">
+              {duplicatePrompt
+                ? "This looks like an existing question — upvote it instead?"
+                : `Similar question${duplicateWarnings.length > 1 ? "s" : ""} already asked — consider voting instead:`}
+            </p>
             <ul className="space-y-1">
               {duplicateWarnings.map((q) => (
-                <li key={q.id} className="text-amber-700 italic truncate">
-                  &ldquo;{q.text.slice(0, 100)}{q.text.length > 100 ? "…" : ""}&rdquo;
+                <li key={q.id} className="flex items-center gap-2">
+                  <span className="flex-1 min-w-0 text-amber-700 italic truncate">
+                    &ldquo;{q.text.slice(0, 100)}{q.text.length > 100 ? "…" : ""}&rdquo;
+                  </span>
+                  {event?.isVotingOpen !== false && (
+                    <button
+                      type="button"
+                      onClick={() => upvoteInstead(q.id)}
+                      disabled={votingIds.has(q.id)}
+                      className="shrink-0 px-2 py-0.5 rounded-md bg-white border border-amber-300 text-amber-800 font-medium hover:bg-amber-100 disabled:opacity-50 transition-colors"
+                    >
+                      {q.myVote === 1 ? "Upvoted ✓" : "Upvote"}
+                    </button>
+                  )}
                 </li>
               ))}
             </ul>
@@ -490,98 +723,415 @@ export default function EventPage() {
           />
         )}
 
-        {submitError && (
-          <p className="text-red-500 text-sm mt-2">{submitError}</p>
+        {topics.length > 0 && (
+          <select
+            className="mt-2 w-full border border-gray-300 rounded-lg p-2 text-sm text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-brand-400"
+            value={formTopicId}
+            onChange={(e) => setFormTopicId(e.target.value)}
+            aria-label="Topic"
+          >
+            <option value="">Topic (optional)</option>
+            {topics.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.name}
+              </option>
+            ))}
+          </select>
         )}
 
+        {panelists.length > 0 && (
+          <select
+            className="mt-2 w-full border border-gray-300 rounded-lg p-2 text-sm text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-brand-400"
+            value={formDirectedToId}
+            onChange={(e) => setFormDirectedToId(e.target.value)}
+            aria-label="Directed to"
+          >
+            <option value="">For anyone on the panel</option>
+            {panelists.map((p) => (
+              <option key={p.id} value={p.id}>
+                For {p.name}
+                {p.title ? ` (${p.title})` : ""}
+              </option>
+            ))}
+          </select>
+        )}
+
+        {submitError &&
+          (submitThrottled ? (
+            <p className="mt-2 rounded-lg bg-amber-50 border border-amber-200 px-3 py-2 text-sm text-amber-800">
+              {submitError}
+            </p>
+          ) : (
+            <p className="text-red-500 text-sm mt-2">{submitError}</p>
+          ))}
+        {submitNotice && <p className="text-gray-600 text-sm mt-2">{submitNotice}</p>}
+
         <button
           type="submit"
           disabled={submitting || formText.length === 0 || formText.length > 280}
           className="mt-6 bg-gray-900 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-gray-700 disabled:opacity-50 transition-colors"
         >
-          {submitting ? "Submitting..." : "Submit Question"}
+          {submitting ? "Submitting..." : duplicatePrompt ? "Post Mine Anyway" : "Submit Question"}
         </button>
       </form>
 
-      {/* Sort toggle */}
-      <div className="flex items-center justify-between mb-4">
-        <span className="text-sm font-medium text-gray-700">
-          {sortedQuestions.length} question{sortedQuestions.length !== 1 ? "s" : ""}
-          {metrics && metrics.voteCount > 0 && (
-            <span className="text-gray-400 font-normal"> · {metrics.voteCount} vote{metrics.voteCount !== 1 ? "s" : ""}</span>
-          )}
-        </span>
+      {/* Open / Answered tabs */}
+      <div className="flex items-center justify-between gap-3 mb-4 flex-wrap">
         <div className="flex gap-1 bg-gray-100 rounded-lg p-1">
-          <button
-            onClick={() => setSortMode("score")}
-            className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
-              sortMode === "score"
-                ? "bg-white shadow text-gray-900"
-                : "text-gray-500 hover:text-gray-700"
-            }`}
-          >
-            Top
-          </button>
-          <button
-            onClick={() => setSortMode("newest")}
-            className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
-              sortMode === "newest"
-                ? "bg-white shadow text-gray-900"
-                : "text-gray-500 hover:text-gray-700"
-            }`}
-          >
-            Newest
-          </button>
+          {(["open", "answered"] as const).map((t) => (
+            <button
+              key={t}
+              onClick={() => setListTab(t)}
+              className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                listTab === t ? "bg-white shadow text-gray-900" : "text-gray-500 hover:text-gray-700"
+              }`}
+            >
+              {t === "open" ? "Open" : "Answered"}
+              <span className="ml-1.5 bg-gray-200 text-gray-600 text-xs px-1.5 py-0.5 rounded-full">
+                {t === "open" ? sortedQuestions.length : filteredAnswered.length}
+              </span>
+            </button>
+          ))}
         </div>
+        {event?.status === "CLOSED" && (
+          <Link href={`/events/${eventId}/recap`} className="text-sm text-brand-700 hover:underline">
+            View recap →
+          </Link>
+        )}
       </div>
 
-      {error && (
-        <p className="text-yellow-600 text-xs mb-3">{error}</p>
+      {/* Topic filter */}
+      {topics.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mb-4">
+          {[{ id: null, name: "All topics" }, ...topics].map((t) => (
+            <button
+              key={t.id ?? "all"}
+              onClick={() => setTopicFilter(t.id)}
+              className={`px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${
+                (activeTopic?.id ?? null) === t.id
+                  ? "bg-gray-900 text-white"
+                  : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+              }`}
+            >
+              {t.name}
+            </button>
+          ))}
+        </div>
       )}
 
-      {event && (event.status === "CLOSED" || !event.isVotingOpen) && (
-        <div className="mb-4 rounded-lg bg-gray-100 border border-gray-200 px-4 py-2 text-sm text-gray-600">
-          Voting is closed for this event.
-        </div>
+      {listTab === "answered" ? (
+        filteredAnswered.length === 0 ? (
+          <div className="rounded-lg border border-dashed border-gray-300 p-10 text-center text-gray-400">
+            {activeTopic ? `No answered questions under ${activeTopic.name} yet.` : "No answered questions yet."}
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {filteredAnswered.map((q) => (
+              <AnsweredQuestionCard
+                key={q.id}
+                question={q}
+                topicName={q.topicId ? topicNames.get(q.topicId) ?? null : null}
+                directedToName={q.directedToId ? panelistNames.get(q.directedToId) ?? null : null}
+                canComment={event?.status !== "CLOSED"}
+              />
+            ))}
+          </ul>
+        )
+      ) : (
+        <>
+          {/* Sort toggle */}
+          <div className="flex items-center justify-between mb-4">
+            <span className="text-sm font-medium text-gray-700">
+              {sortedQuestions.length} question{sortedQuestions.length !== 1 ? "s" : ""}
+              {voteCount > 0 && (
+                <span className="text-gray-400 font-normal"> · {voteCount} vote{voteCount !== 1 ? "s" : ""}</span>
+              )}
+            </span>
+            <div className="flex gap-1 bg-gray-100 rounded-lg p-1">
+              <button
+                onClick={() => setSortMode("score")}
+                className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                  sortMode === "score"
+                    ? "bg-white shadow text-gray-900"
+                    : "text-gray-500 hover:text-gray-700"
+                }`}
+              >
+                Top
+              </button>
+              <button
+                onClick={() => setSortMode("newest")}
+                className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                  sortMode === "newest"
+                    ? "bg-white shadow text-gray-900"
+                    : "text-gray-500 hover:text-gray-700"
+                }`}
+              >
+                Newest
+              </button>
+            </div>
+          </div>
+
+          {error && (
+            <p className="text-yellow-600 text-xs mb-3">{error}</p>
+          )}
+
+          {voteNotice && (
+            <div className="mb-4 rounded-lg bg-amber-50 border border-amber-200 px-4 py-2 text-sm text-amber-800">
+              {voteNotice}
+            </div>
+          )}
+
+          {event && (event.status === "CLOSED" || !event.isVotingOpen) && (
+            <div className="mb-4 rounded-lg bg-gray-100 border border-gray-200 px-4 py-2 text-sm text-gray-600">
+              Voting is closed for this event.
+            </div>
+          )}
+
+          {/* Question list */}
+          {sortedQuestions.length === 0 ? (
+            <div className="rounded-lg border border-dashed border-gray-300 p-10 text-center text-gray-400">
+              {activeTopic ? `No questions under ${activeTopic.name} yet.` : "No questions yet. Be the first to ask!"}
+            </div>
+          ) : (
+            <ul className="space-y-3">
+              {sortedQuestions.map((q) => (
+                <QuestionCard
+                  key={q.id}
+                  question={q}
+                  topicName={q.topicId ? topicNames.get(q.topicId) ?? null : null}
+                  directedToName={q.directedToId ? panelistNames.get(q.directedToId) ?? null : null}
+                  canComment={event?.status !== "CLOSED" && !q.isPending}
+                  isNew={newIds.has(q.id)}
+                  onVote={handleVote}
+                  votingOpen={(event?.isVotingOpen ?? true) && event?.status !== "CLOSED" && !q.isPending}
+                  voteInFlight={votingIds.has(q.id)}
+                  isEditing={editingId === q.id}
+                  editText={editText}
+                  editError={editError}
+                  editSaving={editSaving}
+                  onEditStart={() => {
+                    setEditingId(q.id);
+                    setEditText(q.text);
+                    setEditError(null);
+                  }}
+                  onEditTextChange={setEditText}
+                  onEditSave={() => handleEditSave(q.id)}
+                  onEditCancel={() => {
+                    setEditingId(null);
+                    setEditText("");
+                    setEditError(null);
+                  }}
+                  onRetract={() => handleRetract(q.id)}
+                />
+              ))}
+            </ul>
+          )}
+        </>
       )}
+    </main>
+  );
+}
 
-      {/* Question list */}
-      {sortedQuestions.length === 0 ? (
-        <div className="rounded-lg border border-dashed border-gray-300 p-10 text-center text-gray-400">
-          No questions yet. Be the first to ask!
-        </div>
+// ── AnsweredQuestionCard ─────────────────────────────────────────────────────
+
+function AnsweredQuestionCard({
+  question,
+  topicName,
+  directedToName,
+  canComment,
+}: {
+  question: Question;
+  topicName: string | null;
+  directedToName: string | null;
+  canComment: boolean;
+}) {
+  const [showComments, setShowComments] = useState(false);
+  return (
+    <li className="bg-white rounded-xl border border-gray-200 border-l-2 border-l-green-200 shadow-sm p-4">
+      <p className="text-[15px] font-medium leading-snug text-gray-900">{question.text}</p>
+      <p className="text-xs text-gray-400 mt-1">
+        {question.isAnonymous ? "Anonymous" : question.submittedName ?? "Unknown"} · {question.score}{" "}
+        {question.score === 1 ? "vote" : "votes"}
+        {question.answeredAt && (
+          <>
+            {" "}· answered{" "}
+            {new Date(question.answeredAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}
+          </>
+        )}
+        {directedToName && <DirectedToBadge name={directedToName} />}
+        {topicName && <TopicBadge name={topicName} />}
+      </p>
+      {question.answer ? (
+        <AnswerBlock answer={question.answer} />
       ) : (
-        <ul className="space-y-3">
-          {sortedQuestions.map((q) => (
-            <QuestionCard
-              key={q.id}
-              question={q}
-              isNew={newIds.has(q.id)}
-              onVote={handleVote}
-              votingOpen={(event?.isVotingOpen ?? true) && event?.status !== "CLOSED"}
-              voteInFlight={votingIds.has(q.id)}
-              isEditing={editingId === q.id}
-              editText={editText}
-              editError={editError}
-              editSaving={editSaving}
-              onEditStart={() => {
-                setEditingId(q.id);
-                setEditText(q.text);
-                setEditError(null);
-              }}
-              onEditTextChange={setEditText}
-              onEditSave={() => handleEditSave(q.id)}
-              onEditCancel={() => {
-                setEditingId(null);
-                setEditText("");
-                setEditError(null);
-              }}
-              onRetract={() => handleRetract(q.id)}
-            />
+        <p className="text-xs text-gray-400 italic mt-2">Answered live — no written answer yet.</p>
+      )}
+      <CommentToggle
+        count={question.commentCount}
+        open={showComments}
+        canComment={canComment}
+        onClick={() => setShowComments((prev) => !prev)}
+      />
+      {showComments && (
+        <CommentThread questionId={question.id} commentCount={question.commentCount} canComment={canComment} />
+      )}
+    </li>
+  );
+}
+
+// ── NowAnsweringBanner ───────────────────────────────────────────────────────
+
+function NowAnsweringBanner({ question, since }: { question: Question; since: string }) {
+  const minutes = Math.floor((Date.now() - new Date(since).getTime()) / 60_000);
+  return (
+    <div className="mb-6 rounded-xl border border-brand-400 bg-brand-50 px-5 py-4" aria-live="polite">
+      <p className="text-[10px] font-semibold uppercase tracking-wide text-brand-700">
+        Now answering{minutes > 0 && ` · ${minutes} min`}
+      </p>
+      <p className="mt-1 font-medium text-gray-900 leading-snug">{question.text}</p>
+      <p className="text-xs text-gray-500 mt-1">
+        {question.isAnonymous ? "Anonymous" : question.submittedName ?? "Unknown"}
+      </p>
+    </div>
+  );
+}
+
+// ── PollCard ─────────────────────────────────────────────────────────────────
+
+function PollCard({
+  poll,
+  onAnswer,
+}: {
+  poll: Poll;
+  onAnswer: (optionId: string) => Promise<string | null>;
+}) {
+  const [changing, setChanging] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const myOptionId = poll.myOptionId ?? null;
+  const isOpen = poll.status === "open";
+  const choosing = isOpen && (myOptionId === null || changing);
+
+  async function choose(optionId: string) {
+    setError(null);
+    setSubmitting(true);
+    const message = await onAnswer(optionId);
+    setSubmitting(false);
+    if (message) {
+      setError(message);
+      return;
+    }
+    setChanging(false);
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-5 mb-4">
+      <div className="flex items-center gap-2 mb-3">
+        {isOpen ? (
+          <span className="text-[10px] font-semibold uppercase tracking-wide text-green-700 bg-green-50 px-1.5 py-0.5 rounded">
+            Live poll
+          </span>
+        ) : (
+          <span className="text-[10px] font-semibold uppercase tracking-wide text-gray-500 bg-gray-100 px-1.5 py-0.5 rounded">
+            Poll closed
+          </span>
+        )}
+        <span className="ml-auto text-xs text-gray-400">
+          {poll.responseCount} {poll.responseCount === 1 ? "answer" : "answers"}
+        </span>
+      </div>
+      <p className="font-medium text-gray-900 mb-3">{poll.question}</p>
+
+      {choosing ? (
+        <div className="space-y-2">
+          {poll.options.map((o) => (
+            <button
+              key={o.id}
+              type="button"
+              onClick={() => choose(o.id)}
+              disabled={submitting}
+              className={`w-full text-left px-3 py-2 rounded-lg border text-sm transition-colors disabled:opacity-50 ${
+                o.id === myOptionId
+                  ? "border-brand-500 bg-brand-50 text-gray-900"
+                  : "border-gray-200 text-gray-700 hover:border-brand-400 hover:bg-gray-50"
+              }`}
+            >
+              {o.label}
+            </button>
           ))}
-        </ul>
+          {changing && (
+            <button
+              type="button"
+              onClick={() => setChanging(false)}
+              className="text-xs text-gray-500 hover:underline"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      ) : (
+        <>
+          <PollResults options={poll.options} responseCount={poll.responseCount} myOptionId={myOptionId} />
+          {isOpen && (
+            <button
+              type="button"
+              onClick={() => setChanging(true)}
+              className="mt-3 text-xs text-gray-500 hover:text-brand-700 transition-colors"
+            >
+              Change answer
+            </button>
+          )}
+        </>
       )}
-    </main>
+
+      {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+    </div>
+  );
+}
+
+// ── TopicBadge ───────────────────────────────────────────────────────────────
+
+function TopicBadge({ name }: { name: string }) {
+  return (
+    <span className="ml-2 inline-flex items-center text-[10px] font-medium text-brand-700 bg-brand-50 px-1.5 py-0.5 rounded-full">
+      {name}
+    </span>
+  );
+}
+
+// ── DirectedToBadge ──────────────────────────────────────────────────────────
+
+function DirectedToBadge({ name }: { name: string }) {
+  return (
+    <span className="ml-2 inline-flex items-center text-[10px] font-medium text-gray-700 bg-gray-100 px-1.5 py-0.5 rounded-full">
+      For {name}
+    </span>
+  );
+}
+
+// ── CommentToggle ────────────────────────────────────────────────────────────
+
+function CommentToggle({
+  count,
+  open,
+  canComment,
+  onClick,
+}: {
+  count: number;
+  open: boolean;
+  canComment: boolean;
+  onClick: () => void;
+}) {
+  if (count === 0 && !canComment) return null;
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-expanded={open}
+      className="mt-1.5 text-xs text-gray-500 hover:text-brand-700 transition-colors"
+    >
+      {open ? "Hide comments" : count === 0 ? "Add a comment" : `${count} comment${count === 1 ? "" : "s"}`}
+    </button>
   );
 }
 
@@ -672,8 +1222,14 @@ function QuestionCard({
   onEditSave,
   onEditCancel,
   onRetract,
+  topicName,
+  directedToName,
+  canComment,
 }: {
   question: Question;
+  topicName: string | null;
+  directedToName: string | null;
+  canComment: boolean;
   isNew: boolean;
   onVote: (id: string, value: 1 | -1) => void;
   votingOpen: boolean;
@@ -688,13 +1244,14 @@ function QuestionCard({
   onEditCancel: () => void;
   onRetract: () => void;
 }) {
-  const { id, text, submittedName, isAnonymous, score, myVote, createdAt, isOwn, pinnedAt } = question;
+  const { id, text, submittedName, isAnonymous, score, myVote, createdAt, isOwn, pinnedAt, isPending } = question;
   const withinEditWindow = isOwn && Date.now() - new Date(createdAt).getTime() < EDIT_WINDOW_MS;
 
   // Entry animation: new cards slide up from 6px and fade in
   const [entered, setEntered] = useState(!isNew);
   const [highlight, setHighlight] = useState(isNew);
   const [hovered, setHovered] = useState(false);
+  const [showComments, setShowComments] = useState(false);
 
   useLayoutEffect(() => {
     if (!isNew) return;
@@ -833,7 +1390,25 @@ function QuestionCard({
             </p>
             <p className="text-xs text-gray-400 mt-1.5">
               {authorName} · {dateStr} · {timeStr}
+              {directedToName && <DirectedToBadge name={directedToName} />}
+              {topicName && <TopicBadge name={topicName} />}
+              {isPending && (
+                <span className="ml-2 inline-flex items-center text-[10px] font-medium text-amber-800 bg-amber-50 px-1.5 py-0.5 rounded-full">
+                  Awaiting approval — only you can see this
+                </span>
+              )}
             </p>
+            {!isPending && (
+              <CommentToggle
+                count={question.commentCount}
+                open={showComments}
+                canComment={canComment}
+                onClick={() => setShowComments((prev) => !prev)}
+              />
+            )}
+            {showComments && (
+              <CommentThread questionId={id} commentCount={question.commentCount} canComment={canComment} />
+            )}
           </>
         )}
       </div>
@@ -0,0 +1,114 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { prisma } from "@/lib/prisma";
+import AnswerBlock from "@/components/AnswerBlock";
+import { getAnsweringTimes } from "@/lib/nowAnswering";
+import { formatDuration } from "@/lib/sessionTimer";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+type Params = { params: Promise<{ eventId: string }> };
+
+function formatETDateTime(date: Date): string {
+  return (
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: "America/New_York",
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    }).format(date) + " ET"
+  );
+}
+
+// Read-only recap of a closed event: answered questions in the order the
+// presenter took them (falling back to when they were marked answered), with
+// time on screen, scores, written answers and timestamps.
+export default async function EventRecapPage({ params }: Params) {
+  const { eventId } = await params;
+
+  const event = await prisma.event.findUnique({ where: { id: eventId, deletedAt: null } });
+  if (!event) notFound();
+
+  if (event.status !== "CLOSED") {
+    return (
+      <main className="max-w-2xl mx-auto px-4 py-12 text-center text-gray-500">
+        The recap is available once this event is closed.{" "}
+        <Link href={`/events/${eventId}`} className="text-brand-700 hover:underline">
+          Back to event
+        </Link>
+      </main>
+    );
+  }
+
+  const answered = await prisma.question.findMany({
+    where: { eventId, status: "ANSWERED", isHidden: false, isPending: false, deletedAt: null },
+    orderBy: [{ answeredAt: "asc" }, { createdAt: "asc" }],
+    include: { votes: { select: { value: true } }, answer: true },
+  });
+  const times = await getAnsweringTimes(eventId);
+  const takenAt = (q: (typeof answered)[number]) =>
+    (times.get(q.id)?.firstStartedAt ?? q.answeredAt ?? q.createdAt).getTime();
+  const questions = [...answered].sort((a, b) => takenAt(a) - takenAt(b));
+  const totalSec = questions.reduce((sum, q) => sum + (times.get(q.id)?.totalSec ?? 0), 0);
+
+  return (
+    <main className="max-w-2xl mx-auto px-6 py-16">
+      <div className="mb-6">
+        <Link href="/past-events" className="text-sm text-brand-700 hover:underline">
+          ← Past events
+        </Link>
+        <h1 className="text-2xl font-bold mt-2 text-gray-700">{event.title}</h1>
+        {event.type === "team" && event.hostName && (
+          <p className="text-sm text-gray-400 mt-1">Hosted by {event.hostName}</p>
+        )}
+        {event.startsAt && (
+          <p className="text-sm text-gray-400 mt-1">{formatETDateTime(event.startsAt)}</p>
+        )}
+        <p className="text-sm text-gray-400 mt-1">
+          {questions.length} answered question{questions.length !== 1 ? "s" : ""}
+          {totalSec > 0 && <> · {formatDuration(totalSec)} on screen</>}
+        </p>
+      </div>
+
+      <div className="border-t border-gray-100 mb-8" />
+
+      {questions.length === 0 ? (
+        <div className="rounded-2xl border border-dashed border-gray-200 p-10 text-center text-gray-400">
+          No questions were answered at this event.
+        </div>
+      ) : (
+        <ol className="space-y-4">
+          {questions.map((q, i) => {
+            const upvotes = q.votes.filter((v) => v.value > 0).length;
+            const downvotes = q.votes.length - upvotes;
+            const score = upvotes - downvotes;
+            const time = times.get(q.id);
+            return (
+              <li key={q.id} className="rounded-2xl border border-gray-100 bg-white p-5 shadow-sm">
+                <div className="flex gap-4">
+                  <span className="text-sm font-semibold text-gray-300 tabular-nums pt-0.5">{i + 1}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 leading-snug">{q.text}</p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      {q.isAnonymous ? "Anonymous" : q.submittedName ?? "Unknown"} · {score}{" "}
+                      {score === 1 ? "vote" : "votes"} (+{upvotes} / −{downvotes})
+                      {q.answeredAt && <> · answered {formatETDateTime(q.answeredAt)}</>}
+                      {time && <> · {formatDuration(time.totalSec)} on screen</>}
+                    </p>
+                    {q.answer ? (
+                      <AnswerBlock answer={q.answer} />
+                    ) : (
+                      <p className="text-xs text-gray-400 italic mt-2">Answered live — no written answer.</p>
+                    )}
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </main>
+  );
+}
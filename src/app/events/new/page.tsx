@@ -1,11 +1,12 @@
 import { cookies } from "next/headers";
-import { ADMIN_COOKIE, verifySessionToken } from "@/lib/auth";
+import { can } from "@/lib/auth";
+import { getAdminSession } from "@/lib/session";
 import CreateEventForm from "./CreateEventForm";
 
 export default async function NewEventPage() {
   const cookieStore = await cookies();
-  const token = cookieStore.get(ADMIN_COOKIE)?.value;
-  const isAdmin = token ? await verifySessionToken(token) : false;
+  const session = await getAdminSession(cookieStore);
+  const isAdmin = session ? can(session.role, "events:manage") : false;
 
   return <CreateEventForm isAdmin={isAdmin} />;
 }
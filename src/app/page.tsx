@@ -89,7 +89,7 @@ function EventCard({ event }: { event: EventRow }) {
 
 export default async function HomePage() {
   const rawEvents = await prisma.event.findMany({
-    where: { isActive: true, status: "OPEN", isPublic: true },
+    where: { isActive: true, status: "OPEN", isPublic: true, deletedAt: null },
     orderBy: { startsAt: "asc" },
     select: {
       id: true,
@@ -98,7 +98,7 @@ export default async function HomePage() {
       startsAt: true,
       type: true,
       hostName: true,
-      _count: { select: { questions: { where: { isHidden: false } } } },
+      _count: { select: { questions: { where: { isHidden: false, isPending: false, deletedAt: null } } } },
     },
   });
 
@@ -111,6 +111,7 @@ export default async function HomePage() {
           INNER JOIN questions q ON v."questionId" = q.id
           WHERE q."eventId" IN (${Prisma.join(rawEvents.map((e) => e.id))})
             AND q."isHidden" = false
+            AND q."deletedAt" IS NULL
           GROUP BY q."eventId"
         `
       )
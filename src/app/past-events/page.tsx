@@ -1,6 +1,7 @@
 import Link from "next/link";
 import { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
+import AnswerBlock from "@/components/AnswerBlock";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
@@ -34,11 +35,22 @@ type EventRow = {
   hostName: string | null;
   questionCount: number;
   voteCount: number;
+  answers: AnsweredRow[];
+  answerCount: number;
 };
 
+type AnsweredRow = {
+  id: string;
+  text: string;
+  answer: { text: string; answeredBy: string; answeredAt: Date; link: string | null };
+};
+
+// Written answers previewed under each past event; the rest are on its recap page
+const ANSWER_PREVIEW_LIMIT = 3;
+
 export default async function PastEventsPage() {
   const rawEvents = await prisma.event.findMany({
-    where: { status: "CLOSED" },
+    where: { status: "CLOSED", deletedAt: null },
     orderBy: { startsAt: "desc" },
     select: {
       id: true,
@@ -47,7 +59,7 @@ export default async function PastEventsPage() {
       startsAt: true,
       type: true,
       hostName: true,
-      _count: { select: { questions: { where: { isHidden: false } } } },
+      _count: { select: { questions: { where: { isHidden: false, isPending: false, deletedAt: null } } } },
     },
   });
 
@@ -59,6 +71,7 @@ export default async function PastEventsPage() {
           INNER JOIN questions q ON v."questionId" = q.id
           WHERE q."eventId" IN (${Prisma.join(rawEvents.map((e) => e.id))})
             AND q."isHidden" = false
+            AND q."deletedAt" IS NULL
           GROUP BY q."eventId"
         `
       )
@@ -66,6 +79,29 @@ export default async function PastEventsPage() {
 
   const voteCountMap = new Map(voteCountRows.map((r) => [r.eventId, Number(r.voteCount)]));
 
+  const answeredQuestions = rawEvents.length > 0
+    ? await prisma.question.findMany({
+        where: {
+          eventId: { in: rawEvents.map((e) => e.id) },
+          status: "ANSWERED",
+          isHidden: false,
+          isPending: false,
+          deletedAt: null,
+          answer: { isNot: null },
+        },
+        orderBy: { answeredAt: "asc" },
+        select: { id: true, eventId: true, text: true, answer: true },
+      })
+    : [];
+
+  const answersByEvent = new Map<string, AnsweredRow[]>();
+  for (const q of answeredQuestions) {
+    if (!q.answer) continue;
+    const list = answersByEvent.get(q.eventId) ?? [];
+    list.push({ id: q.id, text: q.text, answer: q.answer });
+    answersByEvent.set(q.eventId, list);
+  }
+
   const events: EventRow[] = rawEvents.map((e) => ({
     id: e.id,
     title: e.title,
@@ -75,6 +111,8 @@ export default async function PastEventsPage() {
     hostName: e.hostName,
     questionCount: e._count.questions,
     voteCount: voteCountMap.get(e.id) ?? 0,
+    answers: (answersByEvent.get(e.id) ?? []).slice(0, ANSWER_PREVIEW_LIMIT),
+    answerCount: answersByEvent.get(e.id)?.length ?? 0,
   }));
 
   const companyEvents = events.filter((e) => e.type === "company");
@@ -107,6 +145,7 @@ export default async function PastEventsPage() {
                 {companyEvents.map((event) => (
                   <li key={event.id}>
                     <PastEventCard event={event} />
+                    <PastEventAnswers event={event} />
                   </li>
                 ))}
               </ul>
@@ -122,6 +161,7 @@ export default async function PastEventsPage() {
                 {teamEvents.map((event) => (
                   <li key={event.id}>
                     <PastEventCard event={event} />
+                    <PastEventAnswers event={event} />
                   </li>
                 ))}
               </ul>
@@ -138,7 +178,7 @@ function PastEventCard({ event }: { event: EventRow }) {
 
   return (
     <Link
-      href={`/events/${event.id}`}
+      href={`/events/${event.id}/recap`}
       className="block rounded-2xl border border-gray-100 bg-gray-50 p-6 shadow-sm hover:shadow-md hover:-translate-y-px hover:border-gray-200 transition-all duration-150"
     >
       <div className="flex items-center gap-4">
@@ -183,3 +223,26 @@ function PastEventCard({ event }: { event: EventRow }) {
     </Link>
   );
 }
+
+function PastEventAnswers({ event }: { event: EventRow }) {
+  if (event.answers.length === 0) return null;
+  const remaining = event.answerCount - event.answers.length;
+
+  return (
+    <ul className="mt-2 ml-6 space-y-3">
+      {event.answers.map((q) => (
+        <li key={q.id} className="text-sm">
+          <p className="font-medium text-gray-600">{q.text}</p>
+          <AnswerBlock answer={q.answer} />
+        </li>
+      ))}
+      {remaining > 0 && (
+        <li>
+          <Link href={`/events/${event.id}/recap`} className="text-xs text-brand-700 hover:underline">
+            {remaining} more answer{remaining !== 1 ? "s" : ""} →
+          </Link>
+        </li>
+      )}
+    </ul>
+  );
+}
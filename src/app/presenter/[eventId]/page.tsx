@@ -1,8 +1,27 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useState, useCallback, useRef } from "react";
 import { useParams } from "next/navigation";
 import { usePresenterTheme } from "../ThemeContext";
+import AnswerEditor from "@/components/AnswerEditor";
+import {
+  useEventStream,
+  applyQuestionDelta,
+  applyPollDelta,
+  type ClientStreamDelta,
+  type StreamAnswer,
+  type StreamTopic,
+  type StreamPanelist,
+  type StreamPoll,
+  type StreamRemote,
+} from "@/lib/useEventStream";
+import {
+  formatClock,
+  questionTimerLevel,
+  sessionEndsAt,
+  sessionTimerLevel,
+  type TimerLevel,
+} from "@/lib/sessionTimer";
 
 // ── Types ──────────────────────────────────────────────────────────────────
 
@@ -13,10 +32,14 @@ type Question = {
   isAnonymous: boolean;
   status: "OPEN" | "ANSWERED";
   isHidden: boolean;
+  isPending: boolean;
+  topicId: string | null;
+  directedToId: string | null;
   pinnedAt: string | null;
   createdAt: string;
   score: number;
   myVote: 1 | -1 | null;
+  answer: StreamAnswer | null;
 };
 
 type EventInfo = {
@@ -24,13 +47,27 @@ type EventInfo = {
   title: string;
   description: string | null;
   startsAt: string | null;
+  durationMinutes: number | null;
+  questionLimitMinutes: number | null;
+  nowAnsweringId: string | null;
+  nowAnsweringAt: string | null;
 };
 
-type SortMode = "top" | "newest";
+type SortMode = "top" | "newest" | "queue";
+type View = "questions" | "poll";
 type IntervalSec = 3 | 5 | 10;
 
 type UndoEntry = { question: Question; deadline: number };
 
+// How long a question must stay on screen before attendees are told it is
+// being answered, so skimming with j/k does not count
+const NOW_ANSWERING_DELAY_MS = 1500;
+
+// Survives a reload of the projector tab, so a paired remote keeps working
+function remoteStorageKey(eventId: string): string {
+  return `ama_presenter_remote_${eventId}`;
+}
+
 // ── Helpers ────────────────────────────────────────────────────────────────
 
 function formatEventDate(dateStr: string): string {
@@ -64,12 +101,39 @@ export default function PresenterEventPage() {
   const [event, setEvent] = useState<EventInfo | null>(null);
   const [questions, setQuestions] = useState<Question[]>([]);
   const [loading, setLoading] = useState(true);
+  // Set when the event is moved to the trash while on screen
+  const [removed, setRemoved] = useState(false);
   const [lastRefreshed, setLastRefreshed] = useState<Date | null>(null);
 
   const [sortMode, setSortMode] = useState<SortMode>("top");
   const [autoRefresh, setAutoRefresh] = useState(true);
   const [intervalSec, setIntervalSec] = useState<IntervalSec>(5);
 
+  // Only questions under this topic are presented (null = all)
+  const [topics, setTopics] = useState<StreamTopic[]>([]);
+  const [topicFilter, setTopicFilter] = useState<string | null>(null);
+
+  // Only questions directed to this panelist are presented (null = all)
+  const [panelists, setPanelists] = useState<StreamPanelist[]>([]);
+  const [panelistFilter, setPanelistFilter] = useState<string | null>(null);
+
+  // Questions or a poll's live results (toggled with p); null poll = latest
+  const [view, setView] = useState<View>("questions");
+  const [polls, setPolls] = useState<StreamPoll[]>([]);
+  // Moderators' run-of-show, used by the Queue sort
+  const [queue, setQueue] = useState<string[]>([]);
+  const [pollId, setPollId] = useState<string | null>(null);
+
+  // Hosts and admins share the question on screen as "now answering"
+  const [canPresent, setCanPresent] = useState(false);
+  const [broadcast, setBroadcast] = useState(true);
+  const lastSentRef = useRef<string | null | undefined>(undefined);
+
+  // Remote control (/remote): once a moderator joins with the code, the
+  // screen follows the remote's selection instead of j/k
+  const [remoteCode, setRemoteCode] = useState<string | null>(null);
+  const [remote, setRemote] = useState<StreamRemote | null>(null);
+
   // Index-based keyboard navigation (determines which question is on screen)
   const [selectedIdx, setSelectedIdx] = useState(0);
 
@@ -79,6 +143,12 @@ export default function PresenterEventPage() {
   // undoQueue: questionId -> { question, deadline }
   const [undoQueue, setUndoQueue] = useState<Record<string, UndoEntry>>({});
 
+  // Question whose written answer is being edited (modal)
+  const [answeringId, setAnsweringId] = useState<string | null>(null);
+
+  // When the question on screen came up, for the per-question timer
+  const [shownSince, setShownSince] = useState<number | null>(null);
+
   // Keyboard hint panel visibility (toggled with ?)
   const [showHints, setShowHints] = useState(false);
 
@@ -113,13 +183,31 @@ export default function PresenterEventPage() {
     hintPanel:      dark ? "bg-gray-900 border-gray-700 text-gray-400" : "bg-white border-gray-200 text-gray-600",
     hintTitle:      dark ? "text-gray-300"  : "text-gray-700",
     hintKbd:        dark ? "bg-gray-800 text-gray-300" : "bg-gray-100 text-gray-700",
+    pollTrack:      dark ? "bg-gray-800"    : "bg-gray-200",
+    pollBar:        dark ? "bg-brand-400"   : "bg-brand-500",
+    timerWarning:   dark ? "text-amber-400" : "text-amber-600",
+    timerOver:      dark ? "text-red-400"   : "text-red-600",
+  };
+
+  const timerColor: Record<TimerLevel, string> = {
+    normal:  T.metaText,
+    warning: T.timerWarning,
+    over:    T.timerOver,
   };
 
   // ── Derived: sorted open questions ──────────────────────────────────────
 
+  const activeTopic = topics.find((t) => t.id === topicFilter) ?? null;
+  const activePanelist = panelists.find((p) => p.id === panelistFilter) ?? null;
+  const queuePosition = new Map(queue.map((id, i) => [id, i]));
   const openQuestions = questions
-    .filter((q) => q.status === "OPEN" && !q.isHidden)
+    .filter((q) => q.status === "OPEN" && !q.isHidden && !q.isPending)
+    .filter((q) => !activeTopic || q.topicId === activeTopic.id)
+    .filter((q) => !activePanelist || q.directedToId === activePanelist.id)
+    .filter((q) => sortMode !== "queue" || queuePosition.has(q.id))
     .sort((a, b) => {
+      // The queue is in the moderators' order, pins included
+      if (sortMode === "queue") return queuePosition.get(a.id)! - queuePosition.get(b.id)!;
       // Pinned questions always float to top
       const aPinned = a.pinnedAt ? 1 : 0;
       const bPinned = b.pinnedAt ? 1 : 0;
@@ -133,6 +221,17 @@ export default function PresenterEventPage() {
       return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
     });
 
+  const following = remote?.pairedAt != null;
+  const screenView: View = following ? remote!.view : view;
+
+  // Drafts reach hosts only and are never presented; polls arrive newest first
+  const presentablePolls = polls.filter((p) => p.status !== "draft");
+  const shownPoll =
+    presentablePolls.find((p) => p.id === pollId) ??
+    presentablePolls.find((p) => p.status === "open") ??
+    presentablePolls[0] ??
+    null;
+
   // ── Data fetching ────────────────────────────────────────────────────────
 
   const fetchQuestions = useCallback(async () => {
@@ -141,6 +240,10 @@ export default function PresenterEventPage() {
       if (!res.ok) return;
       const data = await res.json();
       setEvent(data.event);
+      setTopics(data.topics ?? []);
+      setPanelists(data.panelists ?? []);
+      setCanPresent(data.canPresent === true);
+      setQueue(data.queue ?? []);
       // Preserve local ANSWERED status for questions in the undo queue
       setQuestions((prev) => {
         const prevById: Record<string, Question> = {};
@@ -159,21 +262,127 @@ export default function PresenterEventPage() {
     }
   }, [eventId]);
 
+  const fetchPolls = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/events/${eventId}/polls`);
+      if (res.ok) setPolls(await res.json());
+    } catch {
+      // silently retry on next poll
+    }
+  }, [eventId]);
+
+  const refresh = useCallback(() => {
+    fetchQuestions();
+    fetchPolls();
+  }, [fetchQuestions, fetchPolls]);
+
+  const fetchRemote = useCallback(async () => {
+    if (!remoteCode) return;
+    try {
+      const res = await fetch(`/api/remote/${remoteCode}`);
+      if (res.ok) {
+        setRemote(await res.json());
+      } else if (res.status === 404) {
+        // Expired
+        sessionStorage.removeItem(remoteStorageKey(eventId));
+        setRemoteCode(null);
+        setRemote(null);
+      }
+    } catch {
+      // silently retry on next reconnect
+    }
+  }, [eventId, remoteCode]);
+
+  useEffect(() => {
+    setRemoteCode(sessionStorage.getItem(remoteStorageKey(eventId)));
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchRemote();
+  }, [fetchRemote]);
+
+  async function openRemote() {
+    try {
+      const res = await fetch(`/api/events/${eventId}/remote`, { method: "POST" });
+      if (!res.ok) return;
+      const data = await res.json();
+      sessionStorage.setItem(remoteStorageKey(eventId), data.code);
+      setRemoteCode(data.code);
+      setRemote(data.remote);
+    } catch {
+      // the button stays available to try again
+    }
+  }
+
+  function stopFollowing() {
+    sessionStorage.removeItem(remoteStorageKey(eventId));
+    setRemoteCode(null);
+    setRemote(null);
+  }
+
   // Initial load
   useEffect(() => {
-    fetchQuestions();
-  }, [fetchQuestions]);
+    refresh();
+  }, [refresh]);
 
-  // Polling
+  // Live stream — same undo-queue preservation as fetchQuestions
+  const handleDelta = useCallback((delta: ClientStreamDelta) => {
+    if (delta.type === "event.updated") {
+      setEvent((prev) => (prev ? { ...prev, ...delta.event } : prev));
+      return;
+    }
+    if (delta.type === "event.removed") {
+      setRemoved(true);
+      return;
+    }
+    if (delta.type === "topics.updated") {
+      setTopics(delta.topics);
+      return;
+    }
+    if (delta.type === "panelists.updated") {
+      setPanelists(delta.panelists);
+      return;
+    }
+    if (delta.type === "poll.updated" || delta.type === "poll.removed") {
+      setPolls((prev) => applyPollDelta(prev, delta));
+      return;
+    }
+    if (delta.type === "remote.updated") {
+      setRemote((prev) => (prev?.id === delta.remote.id ? delta.remote : prev));
+      return;
+    }
+    if (delta.type === "queue.updated") {
+      setQueue(delta.queue);
+      return;
+    }
+    setQuestions((prev) => {
+      if ("question" in delta && delta.question.status === "OPEN") {
+        const local = prev.find((q) => q.id === delta.question.id);
+        if (local?.status === "ANSWERED") return prev;
+      }
+      return applyQuestionDelta(prev, delta);
+    });
+    setLastRefreshed(new Date());
+  }, []);
+
+  const streamConnected = useEventStream(eventId, {
+    onDelta: handleDelta,
+    onReady: () => {
+      refresh();
+      fetchRemote();
+    },
+  });
+
+  // Polling — fallback for when the live stream is down
   useEffect(() => {
     let id: ReturnType<typeof setInterval> | null = null;
-    if (autoRefresh) {
-      id = setInterval(fetchQuestions, intervalSec * 1000);
+    if (autoRefresh && !streamConnected) {
+      id = setInterval(refresh, intervalSec * 1000);
     }
     return () => {
       if (id) clearInterval(id);
     };
-  }, [autoRefresh, intervalSec, fetchQuestions]);
+  }, [autoRefresh, intervalSec, refresh, streamConnected]);
 
   // ── Ticker: relative times + undo countdowns ─────────────────────────────
 
@@ -280,12 +489,65 @@ export default function PresenterEventPage() {
     [fetchQuestions]
   );
 
+  // ── Now answering: tell attendees what is on screen ─────────────────────
+
+  // Only local navigation is sent, so a second presenter window never
+  // fights over the pointer; the poll view clears it. A paired remote sets
+  // the pointer itself.
+  const onScreenId = view === "questions" ? (openQuestions[selectedIdx]?.id ?? null) : null;
+
+  useEffect(() => {
+    if (!canPresent || !broadcast || following) {
+      lastSentRef.current = undefined;
+      return;
+    }
+    if (onScreenId === lastSentRef.current) return;
+    const timer = setTimeout(async () => {
+      lastSentRef.current = onScreenId;
+      try {
+        const res = await fetch(`/api/events/${eventId}/now-answering`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ questionId: onScreenId }),
+        });
+        if (!res.ok) return;
+        const data = await res.json();
+        setEvent((prev) => (prev ? { ...prev, nowAnsweringId: data.nowAnsweringId } : prev));
+      } catch {
+        lastSentRef.current = undefined; // try again on the next change
+      }
+    }, NOW_ANSWERING_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [canPresent, broadcast, following, onScreenId, eventId]);
+
   // ── Keyboard shortcuts ───────────────────────────────────────────────────
 
   useEffect(() => {
     function handleKeyDown(e: KeyboardEvent) {
       const tag = (e.target as HTMLElement).tagName;
       if (["INPUT", "TEXTAREA", "BUTTON", "SELECT"].includes(tag)) return;
+      if (answeringId) return;
+
+      if (e.key === "r") {
+        e.preventDefault();
+        refresh();
+        return;
+      }
+      if (e.key === "?") {
+        e.preventDefault();
+        setShowHints((prev) => !prev);
+        return;
+      }
+      // The remote drives everything else
+      if (following) return;
+
+      if (e.key === "p") {
+        e.preventDefault();
+        setView((prev) => (prev === "poll" ? "questions" : "poll"));
+        return;
+      }
+      // The rest act on the question on screen
+      if (view !== "questions") return;
 
       if (e.key === "j") {
         e.preventDefault();
@@ -299,47 +561,147 @@ export default function PresenterEventPage() {
         e.preventDefault();
         const q = openQuestions[selectedIdx];
         if (q) markAnswered(q.id);
-      } else if (e.key === "r") {
+      } else if (e.key === "a") {
         e.preventDefault();
-        fetchQuestions();
-      } else if (e.key === "?") {
-        e.preventDefault();
-        setShowHints((prev) => !prev);
+        const q = openQuestions[selectedIdx];
+        if (q) setAnsweringId(q.id);
       }
     }
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [openQuestions, selectedIdx, markAnswered, fetchQuestions]);
+  }, [openQuestions, selectedIdx, markAnswered, refresh, answeringId, view, following]);
 
   // ── Render ───────────────────────────────────────────────────────────────
 
-  const activeQuestion = openQuestions[selectedIdx] ?? null;
+  // The remote picks from every open question, whatever this screen's sort and filters
+  const activeQuestion = following
+    ? questions.find(
+        (q) => q.id === remote!.selectedId && q.status === "OPEN" && !q.isHidden && !q.isPending
+      ) ?? null
+    : openQuestions[selectedIdx] ?? null;
   const isFading = activeQuestion ? fadingIds.has(activeQuestion.id) : false;
   const undoEntries = Object.entries(undoQueue);
+  const answeringQuestion = answeringId ? questions.find((q) => q.id === answeringId) ?? null : null;
+  const activeTopicName = activeQuestion?.topicId
+    ? topics.find((t) => t.id === activeQuestion.topicId)?.name ?? null
+    : null;
+  const directedTo = activeQuestion?.directedToId
+    ? panelists.find((p) => p.id === activeQuestion.directedToId) ?? null
+    : null;
+
+  // Per-question timer — restarts whenever a different question comes on screen
+  const timedId = screenView === "questions" ? activeQuestion?.id ?? null : null;
+  useEffect(() => {
+    setShownSince(timedId ? Date.now() : null);
+  }, [timedId]);
+  // The broadcast start survives a reload of this tab
+  const onAirSince =
+    event?.nowAnsweringAt && event.nowAnsweringId === timedId ? new Date(event.nowAnsweringAt).getTime() : null;
+  const questionStartedAt =
+    shownSince !== null && onAirSince !== null ? Math.min(shownSince, onAirSince) : shownSince;
+  const questionElapsedSec = questionStartedAt !== null ? (Date.now() - questionStartedAt) / 1000 : 0;
+  const questionLimit = event?.questionLimitMinutes ?? null;
+
+  // Session countdown to startsAt + durationMinutes
+  const endsAt = event ? sessionEndsAt(event.startsAt, event.durationMinutes) : null;
+  const startsInSec = event?.startsAt ? (new Date(event.startsAt).getTime() - Date.now()) / 1000 : 0;
+  const remainingSec = endsAt ? (endsAt.getTime() - Date.now()) / 1000 : 0;
+
+  if (removed) {
+    return (
+      <main className="min-h-[calc(100vh-3rem)] flex items-center justify-center px-12 py-14">
+        <p className={`text-2xl ${T.emptyText}`}>This event has been deleted.</p>
+      </main>
+    );
+  }
 
   return (
     <main className="min-h-[calc(100vh-3rem)] flex flex-col max-w-5xl mx-auto px-12 py-14">
 
-      {/* Event title — secondary, muted */}
-      <div className="mb-12">
-        <p className={`text-xs font-semibold uppercase tracking-widest ${T.eventTitle}`}>
-          {event?.title ?? (loading ? "Loading…" : "Event")}
-        </p>
-        {event?.startsAt && (
-          <p className={`text-xs mt-1 ${T.eventTitle}`}>
-            {formatEventDate(event.startsAt)}
+      {/* Event title — secondary, muted — and the session countdown */}
+      <div className="mb-12 flex items-start justify-between gap-6">
+        <div>
+          <p className={`text-xs font-semibold uppercase tracking-widest ${T.eventTitle}`}>
+            {event?.title ?? (loading ? "Loading…" : "Event")}
+          </p>
+          {event?.startsAt && (
+            <p className={`text-xs mt-1 ${T.eventTitle}`}>
+              {formatEventDate(event.startsAt)}
+            </p>
+          )}
+          {activeTopic && (
+            <p className={`text-xs mt-1 ${T.eventTitle}`}>Topic: {activeTopic.name}</p>
+          )}
+          {activePanelist && (
+            <p className={`text-xs mt-1 ${T.eventTitle}`}>Questions for {activePanelist.name}</p>
+          )}
+        </div>
+        {endsAt && (
+          <p
+            className={`shrink-0 text-lg font-semibold tabular-nums ${
+              startsInSec > 0 ? T.eventTitle : timerColor[sessionTimerLevel(remainingSec)]
+            }`}
+            title={`Ends ${endsAt.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}`}
+          >
+            {startsInSec > 0
+              ? `Starts in ${formatClock(startsInSec)}`
+              : remainingSec >= 0
+              ? `${formatClock(remainingSec)} left`
+              : `Over by ${formatClock(-remainingSec)}`}
           </p>
         )}
       </div>
 
-      {/* Single-question focal area */}
+      {/* Single-question focal area (or the poll results chart) */}
       <div className="flex-1 flex flex-col justify-center min-h-0">
-        {loading ? (
+        {screenView === "poll" ? (
+          !shownPoll ? (
+            <div className="py-24 text-center">
+              <p className={`text-2xl ${T.emptyText}`}>No polls have been opened yet.</p>
+            </div>
+          ) : (
+            <div className={T.questionCard}>
+              <p className={`text-sm font-medium mb-5 ${T.pinned}`}>
+                {shownPoll.status === "open" ? "Live poll" : "Poll closed"} · {shownPoll.responseCount}{" "}
+                {shownPoll.responseCount === 1 ? "answer" : "answers"}
+              </p>
+              <p className={`text-4xl font-bold leading-snug tracking-tight ${T.questionText}`}>
+                {shownPoll.question}
+              </p>
+              <ul className="mt-10 space-y-6">
+                {shownPoll.options.map((o) => {
+                  const pct =
+                    shownPoll.responseCount > 0 ? Math.round((o.count / shownPoll.responseCount) * 100) : 0;
+                  return (
+                    <li key={o.id}>
+                      <div className="flex items-baseline justify-between gap-4">
+                        <span className={`text-2xl font-medium ${T.questionText}`}>{o.label}</span>
+                        <span className={`text-xl tabular-nums ${T.metaText}`}>
+                          {pct}% · {o.count}
+                        </span>
+                      </div>
+                      <div className={`mt-2 h-5 rounded-full overflow-hidden ${T.pollTrack}`}>
+                        <div
+                          className={`h-full rounded-full transition-all duration-500 ${T.pollBar}`}
+                          style={{ width: `${pct}%` }}
+                        />
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )
+        ) : loading ? (
           <p className={`text-2xl py-24 text-center ${T.loadingText}`}>Loading…</p>
         ) : !activeQuestion ? (
           <div className="py-24 text-center">
-            <p className={`text-2xl ${T.emptyText}`}>No active question selected yet.</p>
+            <p className={`text-2xl ${T.emptyText}`}>
+              {sortMode === "queue" && !following
+                ? "The queue is empty — add questions from the moderation console."
+                : "No active question selected yet."}
+            </p>
           </div>
         ) : (
           <div
@@ -355,6 +717,19 @@ export default function PresenterEventPage() {
                 </p>
               )}
 
+              {event?.nowAnsweringId === activeQuestion.id && (
+                <p className={`text-xs font-semibold uppercase tracking-widest mb-5 ${T.pinned}`}>
+                  ● On air — attendees see this as now answering
+                </p>
+              )}
+
+              {directedTo && !activePanelist && (
+                <p className={`text-sm font-medium mb-5 ${T.pinned}`}>
+                  For {directedTo.name}
+                  {directedTo.title && <span className={T.metaText}> · {directedTo.title}</span>}
+                </p>
+              )}
+
               {/* Question text — focal point */}
               <p className={`text-5xl font-bold leading-snug tracking-tight ${T.questionText}`}>
                 {activeQuestion.text}
@@ -364,15 +739,36 @@ export default function PresenterEventPage() {
                 {activeQuestion.isAnonymous
                   ? "Anonymous"
                   : (activeQuestion.submittedName ?? "Unknown")}
+                {activeTopicName && !activeTopic && <> · {activeTopicName}</>}
               </p>
 
-              <button
-                onClick={() => markAnswered(activeQuestion.id)}
-                className="mt-8 px-5 py-2 rounded-lg bg-gray-900 text-white text-sm font-medium hover:bg-gray-700 transition-colors"
-                title="Mark answered (Enter)"
-              >
-                ✓ Mark answered
-              </button>
+              <div className="mt-8 flex items-center gap-3">
+                <button
+                  onClick={() => markAnswered(activeQuestion.id)}
+                  className="px-5 py-2 rounded-lg bg-gray-900 text-white text-sm font-medium hover:bg-gray-700 transition-colors"
+                  title="Mark answered (Enter)"
+                >
+                  ✓ Mark answered
+                </button>
+                <button
+                  onClick={() => setAnsweringId(activeQuestion.id)}
+                  className={`px-5 py-2 rounded-lg text-sm font-medium transition-colors ${T.manualRefresh}`}
+                  title="Write answer (a)"
+                >
+                  ✎ Write answer
+                </button>
+                {questionStartedAt !== null && (
+                  <span
+                    className={`ml-auto text-lg font-medium tabular-nums ${
+                      timerColor[questionTimerLevel(questionElapsedSec, questionLimit)]
+                    }`}
+                    title={questionLimit ? `Soft limit: ${questionLimit} min` : "Time on this question"}
+                  >
+                    ⏱ {formatClock(questionElapsedSec)}
+                    {questionLimit && <> / {formatClock(questionLimit * 60)}</>}
+                  </span>
+                )}
+              </div>
             </div>
           </div>
         )}
@@ -395,12 +791,20 @@ export default function PresenterEventPage() {
                     {entry.question.text.length > 60 ? "…" : ""}&rdquo;
                   </span>
                 </span>
-                <button
-                  onClick={() => undoAnswered(qid)}
-                  className={`shrink-0 font-medium transition-colors ${T.undoBtn}`}
-                >
-                  Undo ({secs}s)
-                </button>
+                <span className="shrink-0 flex items-center gap-4">
+                  <button
+                    onClick={() => setAnsweringId(qid)}
+                    className={`font-medium transition-colors ${T.undoBtn}`}
+                  >
+                    Add answer
+                  </button>
+                  <button
+                    onClick={() => undoAnswered(qid)}
+                    className={`font-medium transition-colors ${T.undoBtn}`}
+                  >
+                    Undo ({secs}s)
+                  </button>
+                </span>
               </div>
             );
           })}
@@ -414,21 +818,133 @@ export default function PresenterEventPage() {
             ⚙ Controls
           </summary>
           <div className="flex flex-wrap items-center gap-3 mt-3">
-            {/* Sort toggle */}
-            <div className={`flex gap-1 rounded-lg p-1 ${T.controlsBg}`}>
-              {(["top", "newest"] as const).map((mode) => (
+            {/* Remote control */}
+            {following ? (
+              <button
+                onClick={stopFollowing}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${T.manualRefresh}`}
+                title="Take back control with the keyboard"
+              >
+                📱 Remote connected · Stop following
+              </button>
+            ) : (
+              !remote && (
                 <button
-                  key={mode}
-                  onClick={() => setSortMode(mode)}
-                  className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
-                    sortMode === mode ? T.sortActive : T.sortInactive
-                  }`}
+                  onClick={openRemote}
+                  className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${T.manualRefresh}`}
                 >
-                  {mode === "top" ? "Top" : "Newest"}
+                  📱 Use a remote
                 </button>
-              ))}
+              )
+            )}
+
+            {/* View toggle — the remote picks the view while it is connected */}
+            {!following && (
+              <div className={`flex gap-1 rounded-lg p-1 ${T.controlsBg}`}>
+                {(["questions", "poll"] as const).map((v) => (
+                  <button
+                    key={v}
+                    onClick={() => setView(v)}
+                    className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                      view === v ? T.sortActive : T.sortInactive
+                    }`}
+                    title="Switch view (p)"
+                  >
+                    {v === "questions" ? "Questions" : "Poll results"}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* Poll picker */}
+            {screenView === "poll" && presentablePolls.length > 1 && (
+              <div className={`flex flex-wrap gap-1 rounded-lg p-1 ${T.controlsBg}`}>
+                {presentablePolls.map((p) => (
+                  <button
+                    key={p.id}
+                    onClick={() => setPollId(p.id)}
+                    className={`max-w-[14rem] truncate px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                      shownPoll?.id === p.id ? T.sortActive : T.sortInactive
+                    }`}
+                    title={p.question}
+                  >
+                    {p.status === "open" ? "● " : ""}
+                    {p.question}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* Sort toggle */}
+            <div className={`flex gap-1 rounded-lg p-1 ${T.controlsBg}`}>
+              {(["top", "newest", "queue"] as const)
+                // The queue is the hosts' plan, so it only reaches signed-in presenters
+                .filter((mode) => mode !== "queue" || canPresent)
+                .map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => setSortMode(mode)}
+                    className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                      sortMode === mode ? T.sortActive : T.sortInactive
+                    }`}
+                  >
+                    {mode === "top" ? "Top" : mode === "newest" ? "Newest" : "Queue"}
+                  </button>
+                ))}
             </div>
 
+            {/* Topic filter */}
+            {topics.length > 0 && (
+              <div className={`flex flex-wrap gap-1 rounded-lg p-1 ${T.controlsBg}`}>
+                {[{ id: null, name: "All topics" }, ...topics].map((t) => (
+                  <button
+                    key={t.id ?? "all"}
+                    onClick={() => { setTopicFilter(t.id); setSelectedIdx(0); }}
+                    className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                      (activeTopic?.id ?? null) === t.id ? T.sortActive : T.sortInactive
+                    }`}
+                  >
+                    {t.name}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* Panelist filter */}
+            {panelists.length > 0 && (
+              <div className={`flex flex-wrap gap-1 rounded-lg p-1 ${T.controlsBg}`}>
+                {[{ id: null, name: "Whole panel" }, ...panelists].map((p) => (
+                  <button
+                    key={p.id ?? "all"}
+                    onClick={() => { setPanelistFilter(p.id); setSelectedIdx(0); }}
+                    className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                      (activePanelist?.id ?? null) === p.id ? T.sortActive : T.sortInactive
+                    }`}
+                  >
+                    {p.name}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* Now answering broadcast toggle */}
+            {canPresent && (
+              <div className={`flex gap-1 rounded-lg p-1 ${T.controlsBg}`}>
+                {([true, false] as const).map((on) => (
+                  <button
+                    key={String(on)}
+                    onClick={() => setBroadcast(on)}
+                    className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                      broadcast === on ? T.toggleActive : T.toggleInactive
+                    }`}
+                    title="Show attendees which question is on screen"
+                  >
+                    {on ? "On air" : "Off air"}
+                  </button>
+                ))}
+              </div>
+            )}
+
             {/* Auto-refresh toggle */}
             <div className={`flex gap-1 rounded-lg p-1 ${T.controlsBg}`}>
               {([true, false] as const).map((on) => (
@@ -463,7 +979,7 @@ export default function PresenterEventPage() {
 
             {/* Manual refresh */}
             <button
-              onClick={fetchQuestions}
+              onClick={refresh}
               className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${T.manualRefresh}`}
               title="Refresh (r)"
             >
@@ -472,7 +988,7 @@ export default function PresenterEventPage() {
 
             {/* Status */}
             <span className={`text-xs ${T.statusText}`}>
-              {openQuestions.length} open
+              {streamConnected ? "Live" : "Polling"} · {openQuestions.length} open
               {lastRefreshed && (
                 <> · {relativeTime(lastRefreshed.toISOString())}</>
               )}
@@ -481,6 +997,21 @@ export default function PresenterEventPage() {
         </details>
       </footer>
 
+      {/* Pairing code — shown until a remote joins */}
+      {remote && remoteCode && !following && (
+        <div className={`fixed bottom-8 left-8 border rounded-xl px-5 py-4 shadow-2xl z-50 ${T.hintPanel}`}>
+          <p className={`text-xs font-medium ${T.hintTitle}`}>Remote control code</p>
+          <p className={`mt-1 text-4xl font-bold font-mono tracking-[0.2em] ${T.questionText}`}>{remoteCode}</p>
+          <p className="mt-2 text-xs">
+            Open <span className="font-mono">{window.location.host}/remote</span> on
+            your laptop or phone
+          </p>
+          <button onClick={stopFollowing} className={`mt-2 text-xs font-medium transition-colors ${T.undoBtn}`}>
+            Cancel
+          </button>
+        </div>
+      )}
+
       {/* Keyboard hint panel — toggled with ? key, hidden by default */}
       {showHints && (
         <div className={`fixed bottom-8 right-8 border rounded-xl px-5 py-4 text-xs shadow-2xl space-y-2 z-50 ${T.hintPanel}`}>
@@ -495,16 +1026,41 @@ export default function PresenterEventPage() {
             <kbd className={`px-1.5 py-0.5 rounded ${T.hintKbd}`}>Enter</kbd>
             {" — mark answered"}
           </p>
+          <p>
+            <kbd className={`px-1.5 py-0.5 rounded ${T.hintKbd}`}>a</kbd>
+            {" — write answer"}
+          </p>
           <p>
             <kbd className={`px-1.5 py-0.5 rounded ${T.hintKbd}`}>r</kbd>
             {" — refresh"}
           </p>
+          <p>
+            <kbd className={`px-1.5 py-0.5 rounded ${T.hintKbd}`}>p</kbd>
+            {" — questions / poll results"}
+          </p>
           <p>
             <kbd className={`px-1.5 py-0.5 rounded ${T.hintKbd}`}>?</kbd>
             {" — hide this panel"}
           </p>
         </div>
       )}
+
+      {answeringQuestion && (
+        <AnswerEditor
+          questionId={answeringQuestion.id}
+          questionText={answeringQuestion.text}
+          answer={answeringQuestion.answer}
+          onCancel={() => setAnsweringId(null)}
+          onSaved={(answer) => {
+            setQuestions((prev) =>
+              prev.map((q) => (q.id === answeringQuestion.id ? { ...q, answer } : q))
+            );
+            setAnsweringId(null);
+            // Writing an answer for the question on screen also marks it answered
+            if (answeringQuestion.status === "OPEN") markAnswered(answeringQuestion.id);
+          }}
+        />
+      )}
     </main>
   );
 }
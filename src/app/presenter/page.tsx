@@ -8,6 +8,7 @@ export const revalidate = 0;
 export default async function PresenterPickerPage() {
   // Show all events (active and inactive) so hosts can present any session.
   const events = await prisma.event.findMany({
+    where: { deletedAt: null },
     orderBy: { createdAt: "desc" },
     select: {
       id: true,
@@ -15,7 +16,7 @@ export default async function PresenterPickerPage() {
       description: true,
       isActive: true,
       createdAt: true,
-      _count: { select: { questions: true } },
+      _count: { select: { questions: { where: { deletedAt: null } } } },
     },
   });
 
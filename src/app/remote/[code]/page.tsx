@@ -0,0 +1,416 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import {
+  useEventStream,
+  applyQuestionDelta,
+  type ClientStreamDelta,
+  type StreamRemote,
+} from "@/lib/useEventStream";
+
+type Question = {
+  id: string;
+  text: string;
+  submittedName: string | null;
+  isAnonymous: boolean;
+  status: "OPEN" | "ANSWERED";
+  isHidden: boolean;
+  isPending: boolean;
+  pinnedAt: string | null;
+  createdAt: string;
+  score: number;
+  myVote: 1 | -1 | null;
+};
+
+type UndoEntry = { question: Question; deadline: number };
+
+const UNDO_MS = 10_000;
+
+// ── Page: join, then hand over to the controller ─────────────────────────────
+
+export default function RemoteControlPage() {
+  const { code } = useParams<{ code: string }>();
+  const [remote, setRemote] = useState<StreamRemote | null>(null);
+  const [eventTitle, setEventTitle] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Joining again is harmless, and covers opening this page from a link
+    fetch(`/api/remote/${encodeURIComponent(code)}/join`, { method: "POST" })
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) {
+          setError(data.error ?? "Failed to connect to the presenter view.");
+          return;
+        }
+        setRemote(data.remote);
+        setEventTitle(data.event.title);
+      })
+      .catch(() => setError("Network error. Reload to try again."));
+  }, [code]);
+
+  if (error) {
+    return (
+      <main className="max-w-md mx-auto px-4 py-16 text-center">
+        <p className="text-red-500 text-sm mb-3">{error}</p>
+        <Link href="/remote" className="text-sm text-brand-700 hover:underline">
+          Enter another code
+        </Link>
+      </main>
+    );
+  }
+  if (!remote) {
+    return <main className="max-w-md mx-auto px-4 py-16 text-center text-gray-400 text-sm">Connecting…</main>;
+  }
+  return <RemoteController code={code} eventTitle={eventTitle} initialRemote={remote} />;
+}
+
+// ── RemoteController ─────────────────────────────────────────────────────────
+
+function RemoteController({
+  code,
+  eventTitle,
+  initialRemote,
+}: {
+  code: string;
+  eventTitle: string;
+  initialRemote: StreamRemote;
+}) {
+  const eventId = initialRemote.eventId;
+  const [remote, setRemote] = useState<StreamRemote>(initialRemote);
+  const [questions, setQuestions] = useState<Question[]>([]);
+  // The presenter queue (run-of-show), as question ids
+  const [queue, setQueue] = useState<string[]>([]);
+  const [undoQueue, setUndoQueue] = useState<Record<string, UndoEntry>>({});
+  const [error, setError] = useState<string | null>(null);
+  // Set when the event is moved to the trash mid-session
+  const [removed, setRemoved] = useState(false);
+  const [, setTick] = useState(0);
+
+  const fetchQuestions = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/events/${eventId}/questions?sort=score`);
+      if (!res.ok) return;
+      const data = await res.json();
+      setQuestions(data.questions);
+      setQueue(data.queue ?? []);
+    } catch {
+      // the stream's next reconnect refetches
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchQuestions();
+  }, [fetchQuestions]);
+
+  const handleDelta = useCallback(
+    (delta: ClientStreamDelta) => {
+      if (delta.type === "remote.updated") {
+        // Another device driving the same screen
+        if (delta.remote.id === initialRemote.id) setRemote(delta.remote);
+        return;
+      }
+      if (delta.type === "queue.updated") {
+        setQueue(delta.queue);
+        return;
+      }
+      if (delta.type === "event.removed") {
+        setRemoved(true);
+        return;
+      }
+      setQuestions((prev) => applyQuestionDelta(prev, delta));
+    },
+    [initialRemote.id]
+  );
+
+  const streamConnected = useEventStream(eventId, { onDelta: handleDelta, onReady: fetchQuestions });
+
+  // Undo countdowns
+  useEffect(() => {
+    const id = setInterval(() => {
+      setTick((n) => n + 1);
+      setUndoQueue((prev) => {
+        const now = Date.now();
+        const live = Object.entries(prev).filter(([, entry]) => entry.deadline >= now);
+        return live.length === Object.keys(prev).length ? prev : Object.fromEntries(live);
+      });
+    }, 500);
+    return () => clearInterval(id);
+  }, []);
+
+  // Same order as the presenter's "Top" sort
+  const openQuestions = questions
+    .filter((q) => q.status === "OPEN" && !q.isHidden && !q.isPending)
+    .sort((a, b) => {
+      const aPinned = a.pinnedAt ? 1 : 0;
+      const bPinned = b.pinnedAt ? 1 : 0;
+      if (bPinned !== aPinned) return bPinned - aPinned;
+      return b.score - a.score || new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+    });
+  const selected = openQuestions.find((q) => q.id === remote.selectedId) ?? null;
+  // Prev / Next follow the presenter queue when the hosts have planned one
+  const openById = new Map(openQuestions.map((q) => [q.id, q]));
+  const queued = queue.flatMap((id) => openById.get(id) ?? []);
+  const stepOrder = queued.length > 0 ? queued : openQuestions;
+  const stepIdx = stepOrder.findIndex((q) => q.id === remote.selectedId);
+
+  async function update(data: { selectedId?: string | null; view?: "questions" | "poll" }) {
+    setError(null);
+    setRemote((prev) => ({ ...prev, ...data }));
+    try {
+      const res = await fetch(`/api/remote/${encodeURIComponent(code)}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        setError(body.error ?? "Failed to update the presenter view.");
+        return;
+      }
+      setRemote(body);
+    } catch {
+      setError("Network error. Please try again.");
+    }
+  }
+
+  async function toggleQueued(questionId: string) {
+    setError(null);
+    const previous = queue;
+    // Saving drops questions that are no longer open, as the console does
+    const current = queued.map((q) => q.id);
+    const next = current.includes(questionId)
+      ? current.filter((id) => id !== questionId)
+      : [...current, questionId];
+    setQueue(next);
+    try {
+      const res = await fetch(`/api/events/${eventId}/queue`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ questionIds: next }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        setQueue(previous);
+        setError(body.error ?? "Failed to update the queue.");
+      }
+    } catch {
+      setQueue(previous);
+      setError("Network error. Please try again.");
+    }
+  }
+
+  function step(by: 1 | -1) {
+    if (stepOrder.length === 0) return;
+    const next = stepIdx === -1 ? 0 : Math.min(Math.max(stepIdx + by, 0), stepOrder.length - 1);
+    update({ selectedId: stepOrder[next].id, view: "questions" });
+  }
+
+  async function markAnswered(question: Question) {
+    setError(null);
+    // Move the screen on to the next question, as the presenter's Enter key does
+    const remaining = stepOrder.filter((q) => q.id !== question.id);
+    const next = remaining[Math.min(Math.max(stepIdx, 0), remaining.length - 1)] ?? null;
+    setQuestions((prev) => prev.map((q) => (q.id === question.id ? { ...q, status: "ANSWERED" as const } : q)));
+    setUndoQueue((prev) => ({ ...prev, [question.id]: { question, deadline: Date.now() + UNDO_MS } }));
+    try {
+      const res = await fetch(`/api/questions/${question.id}/answer`, { method: "POST" });
+      if (!res.ok) throw new Error();
+    } catch {
+      setError("Failed to mark the question answered.");
+      setQuestions((prev) => prev.map((q) => (q.id === question.id ? { ...q, status: "OPEN" as const } : q)));
+      setUndoQueue((prev) => {
+        const rest = { ...prev };
+        delete rest[question.id];
+        return rest;
+      });
+      return;
+    }
+    if (question.id === remote.selectedId) update({ selectedId: next?.id ?? null });
+  }
+
+  async function undoAnswered(questionId: string) {
+    setUndoQueue((prev) => {
+      const rest = { ...prev };
+      delete rest[questionId];
+      return rest;
+    });
+    setQuestions((prev) => prev.map((q) => (q.id === questionId ? { ...q, status: "OPEN" as const } : q)));
+    try {
+      await fetch(`/api/questions/${questionId}/answer`, { method: "DELETE" });
+      update({ selectedId: questionId, view: "questions" });
+    } catch {
+      fetchQuestions();
+    }
+  }
+
+  const undoEntries = Object.entries(undoQueue);
+
+  if (removed) {
+    return (
+      <main className="max-w-md mx-auto px-4 py-16 text-center">
+        <p className="text-gray-500 text-sm mb-3">This event has been deleted.</p>
+        <Link href="/remote" className="text-sm text-brand-700 hover:underline">
+          Enter another code
+        </Link>
+      </main>
+    );
+  }
+
+  return (
+    <main className="max-w-md mx-auto px-4 py-6 pb-24">
+      <div className="mb-4">
+        <p className="text-xs font-semibold uppercase tracking-widest text-gray-400">Remote · {code.toUpperCase()}</p>
+        <h1 className="text-lg font-bold text-gray-900 leading-snug">{eventTitle}</h1>
+        <p className="text-xs text-gray-400 mt-0.5">
+          {streamConnected ? "Live" : "Reconnecting…"} · {openQuestions.length} open
+        </p>
+      </div>
+
+      {/* What the projector shows */}
+      <div className="flex gap-1 rounded-lg p-1 bg-gray-100 mb-4">
+        {(["questions", "poll"] as const).map((v) => (
+          <button
+            key={v}
+            onClick={() => update({ view: v })}
+            className={`flex-1 py-2 rounded-md text-sm font-medium transition-colors ${
+              remote.view === v ? "bg-gray-900 text-white shadow" : "text-gray-500 hover:text-gray-800"
+            }`}
+          >
+            {v === "questions" ? "Questions" : "Poll results"}
+          </button>
+        ))}
+      </div>
+
+      {/* On screen now */}
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-4 mb-4">
+        <p className="text-[10px] font-semibold uppercase tracking-wide text-brand-700 mb-1">On screen</p>
+        {remote.view === "poll" ? (
+          <p className="text-sm text-gray-500">Poll results</p>
+        ) : selected ? (
+          <>
+            <p className="font-medium text-gray-900 leading-snug">{selected.text}</p>
+            <p className="text-xs text-gray-400 mt-1">
+              {selected.isAnonymous ? "Anonymous" : selected.submittedName ?? "Unknown"} · {selected.score}{" "}
+              {selected.score === 1 ? "vote" : "votes"}
+            </p>
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">Nothing yet — pick a question below.</p>
+        )}
+        <div className="mt-3 grid grid-cols-3 gap-2">
+          <button
+            onClick={() => step(-1)}
+            disabled={openQuestions.length === 0}
+            className="py-2.5 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 transition-colors"
+          >
+            ◀ Prev
+          </button>
+          <button
+            onClick={() => selected && markAnswered(selected)}
+            disabled={!selected || remote.view !== "questions"}
+            className="py-2.5 rounded-lg text-sm font-medium bg-gray-900 text-white hover:bg-gray-700 disabled:opacity-50 transition-colors"
+          >
+            ✓ Answered
+          </button>
+          <button
+            onClick={() => step(1)}
+            disabled={openQuestions.length === 0}
+            className="py-2.5 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 transition-colors"
+          >
+            Next ▶
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-red-500 text-sm mb-3">{error}</p>}
+
+      {undoEntries.length > 0 && (
+        <div className="space-y-2 mb-4">
+          {undoEntries.map(([qid, entry]) => (
+            <div
+              key={qid}
+              className="flex items-center justify-between gap-3 rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm"
+            >
+              <span className="truncate text-gray-600">Answered: {entry.question.text}</span>
+              <button onClick={() => undoAnswered(qid)} className="shrink-0 font-medium text-brand-700">
+                Undo ({Math.max(0, Math.ceil((entry.deadline - Date.now()) / 1000))}s)
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Presenter queue — Prev / Next step through it */}
+      {queued.length > 0 && (
+        <>
+          <h2 className="text-xs font-semibold uppercase tracking-wide text-gray-400 mb-2">Queue</h2>
+          <ol className="space-y-2 mb-6">
+            {queued.map((q, i) => {
+              const onScreen = remote.view === "questions" && q.id === remote.selectedId;
+              return (
+                <li key={q.id}>
+                  <button
+                    onClick={() => update({ selectedId: q.id, view: "questions" })}
+                    className={`w-full text-left rounded-lg border px-3 py-2.5 text-sm transition-colors ${
+                      onScreen
+                        ? "border-brand-500 bg-brand-50 text-gray-900"
+                        : "border-gray-200 bg-white text-gray-700 hover:border-brand-400"
+                    }`}
+                  >
+                    <span className="mr-1.5 text-xs text-gray-400 tabular-nums">{i + 1}.</span>
+                    {q.text}
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+        </>
+      )}
+
+      {/* Every open question, in the presenter's Top order */}
+      <h2 className="text-xs font-semibold uppercase tracking-wide text-gray-400 mb-2">
+        {queued.length > 0 ? "All open questions" : "Up next"}
+      </h2>
+      {openQuestions.length === 0 ? (
+        <p className="text-sm text-gray-400">No open questions.</p>
+      ) : (
+        <ul className="space-y-2">
+          {openQuestions.map((q) => {
+            const onScreen = remote.view === "questions" && q.id === remote.selectedId;
+            const isQueued = queue.includes(q.id);
+            return (
+              <li key={q.id} className="flex gap-2">
+                <button
+                  onClick={() => update({ selectedId: q.id, view: "questions" })}
+                  className={`flex-1 min-w-0 text-left rounded-lg border px-3 py-2.5 text-sm transition-colors ${
+                    onScreen
+                      ? "border-brand-500 bg-brand-50 text-gray-900"
+                      : "border-gray-200 bg-white text-gray-700 hover:border-brand-400"
+                  }`}
+                >
+                  {q.pinnedAt && <span className="mr-1">📌</span>}
+                  {q.text}
+                  <span className="ml-2 text-xs text-gray-400 tabular-nums">{q.score}</span>
+                </button>
+                <button
+                  onClick={() => toggleQueued(q.id)}
+                  className={`shrink-0 w-20 rounded-lg border text-xs font-medium transition-colors ${
+                    isQueued
+                      ? "border-gray-900 bg-gray-900 text-white"
+                      : "border-gray-200 bg-white text-gray-600 hover:border-brand-400"
+                  }`}
+                  title={isQueued ? "Remove from the presenter queue" : "Add to the presenter queue"}
+                >
+                  {isQueued ? "Queued ✓" : "＋ Queue"}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { useState, FormEvent } from "react";
+import { useRouter } from "next/navigation";
+
+export default function RemoteJoinPage() {
+  const router = useRouter();
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    const trimmed = code.trim().toUpperCase();
+    setError(null);
+    setLoading(true);
+
+    try {
+      const res = await fetch(`/api/remote/${encodeURIComponent(trimmed)}/join`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Failed to connect to the presenter view.");
+        return;
+      }
+      router.push(`/remote/${trimmed}`);
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <main className="max-w-sm mx-auto px-4 py-16">
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+        <h1 className="text-xl font-bold mb-1">Presenter remote</h1>
+        <p className="text-sm text-gray-400 mb-5">
+          Enter the code shown on the presenter screen to pick questions, mark them answered and
+          switch to poll results from this device.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <input
+            type="text"
+            autoFocus
+            required
+            autoCapitalize="characters"
+            autoComplete="off"
+            placeholder="ABC123"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 text-lg font-mono tracking-[0.3em] uppercase text-center focus:outline-none focus:ring-2 focus:ring-brand-400"
+          />
+
+          {error && <p className="text-red-500 text-sm">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={loading || !code.trim()}
+            className="w-full bg-gray-900 text-white py-2 rounded-lg text-sm font-medium hover:bg-gray-700 disabled:opacity-50 transition-colors"
+          >
+            {loading ? "Connecting..." : "Connect"}
+          </button>
+        </form>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,35 @@
+type AnswerBlockProps = {
+  answer: {
+    text: string;
+    answeredBy: string;
+    answeredAt: string | Date;
+    link: string | null;
+  };
+};
+
+/** The written answer shown under an answered question. */
+export default function AnswerBlock({ answer }: AnswerBlockProps) {
+  return (
+    <div className="mt-3 border-l-2 border-green-200 pl-3">
+      <p className="text-sm text-gray-700 whitespace-pre-line">{answer.text}</p>
+      {answer.link && (
+        <a
+          href={answer.link}
+          target="_blank"
+          rel="noreferrer"
+          className="inline-block mt-1 text-xs text-brand-700 hover:underline break-all"
+        >
+          {answer.link} ↗
+        </a>
+      )}
+      <p className="text-xs text-gray-400 mt-1">
+        Answered by {answer.answeredBy} ·{" "}
+        {new Date(answer.answeredAt).toLocaleDateString("en-US", {
+          month: "short",
+          day: "numeric",
+          timeZone: "America/New_York",
+        })}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useEffect, useState, FormEvent } from "react";
+import type { StreamAnswer } from "@/lib/useEventStream";
+
+type AnswerEditorProps = {
+  questionId: string;
+  questionText: string;
+  answer: StreamAnswer | null;
+  onCancel: () => void;
+  onSaved: (answer: StreamAnswer | null) => void;
+};
+
+const inputClass =
+  "w-full border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-brand-400";
+
+/** Modal for writing or editing the answer recorded against a question. */
+export default function AnswerEditor({
+  questionId,
+  questionText,
+  answer,
+  onCancel,
+  onSaved,
+}: AnswerEditorProps) {
+  const [text, setText] = useState(answer?.text ?? "");
+  const [link, setLink] = useState(answer?.link ?? "");
+  const [answeredBy, setAnsweredBy] = useState(answer?.answeredBy ?? "");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    function onKey(e: KeyboardEvent) {
+      if (e.key === "Escape") onCancel();
+    }
+    document.addEventListener("keydown", onKey);
+    return () => document.removeEventListener("keydown", onKey);
+  }, [onCancel]);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/questions/${questionId}/answer`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text: text.trim(), link: link.trim(), answeredBy: answeredBy.trim() }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Failed to save answer.");
+        return;
+      }
+      onSaved(data.answer);
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
+      aria-modal="true"
+      role="dialog"
+      aria-labelledby="answer-editor-title"
+      onClick={(e) => { if (e.target === e.currentTarget) onCancel(); }}
+    >
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-xl shadow-xl w-full max-w-lg mx-4 p-6 space-y-2"
+      >
+        <h2 id="answer-editor-title" className="text-base font-semibold text-gray-900">
+          {answer ? "Edit answer" : "Write an answer"}
+        </h2>
+        <p className="text-sm text-gray-500 pb-2">&ldquo;{questionText}&rdquo;</p>
+        <textarea
+          autoFocus
+          rows={5}
+          placeholder="What was the answer? Leave empty to remove it."
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          maxLength={5000}
+          className={`${inputClass} resize-none`}
+        />
+        <input
+          type="url"
+          placeholder="Link (optional) — doc, recording, ticket…"
+          value={link}
+          onChange={(e) => setLink(e.target.value)}
+          maxLength={500}
+          className={inputClass}
+        />
+        <input
+          type="text"
+          placeholder="Answered by (defaults to you)"
+          value={answeredBy}
+          onChange={(e) => setAnsweredBy(e.target.value)}
+          maxLength={100}
+          className={inputClass}
+        />
+
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+
+        <div className="pt-3 flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={saving}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-white bg-gray-900 hover:bg-gray-700 disabled:opacity-50 transition-colors"
+          >
+            {saving ? "Saving..." : "Save Answer"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { MAX_COMMENT_LENGTH } from "@/lib/comments";
+
+type Comment = {
+  id: string;
+  text: string;
+  submittedName: string | null;
+  isAnonymous: boolean;
+  isHidden: boolean;
+  isPending: boolean;
+  createdAt: string;
+};
+
+type CommentThreadProps = {
+  questionId: string;
+  /** Visible comment count from the question; a change triggers a refetch. */
+  commentCount: number;
+  /** Comments awaiting approval (hosts only); a change triggers a refetch. */
+  pendingCount?: number;
+  /** Show the add-comment form (event open, question live). */
+  canComment: boolean;
+  /** Hide / unhide and approve / reject buttons for admins and hosts. */
+  moderate?: boolean;
+};
+
+/**
+ * Follow-up comments under a question. Used on the public event page and,
+ * with moderation controls, in the moderation console.
+ */
+export default function CommentThread({
+  questionId,
+  commentCount,
+  pendingCount = 0,
+  canComment,
+  moderate = false,
+}: CommentThreadProps) {
+  const [comments, setComments] = useState<Comment[] | null>(null);
+  const [text, setText] = useState("");
+  const [name, setName] = useState("");
+  const [isAnonymous, setIsAnonymous] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [actionId, setActionId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const fetchComments = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/questions/${questionId}/comments`);
+      if (!res.ok) return;
+      const data = await res.json();
+      setComments(data.comments);
+    } catch {
+      // keep what we have; the next count change refetches
+    }
+  }, [questionId]);
+
+  useEffect(() => {
+    fetchComments();
+  }, [fetchComments, commentCount, pendingCount]);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setNotice(null);
+    if (!isAnonymous && !name.trim()) {
+      setError("Please enter your name, or comment anonymously.");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const res = await fetch(`/api/questions/${questionId}/comments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          text: text.trim(),
+          isAnonymous,
+          submittedName: isAnonymous ? null : name.trim(),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Failed to post comment.");
+        return;
+      }
+      setText("");
+      if (data.isHidden || data.isPending) {
+        setNotice("Thanks! Your comment will appear once a moderator has reviewed it.");
+      }
+      await fetchComments();
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  async function moderateComment(commentId: string, action: "hide" | "unhide" | "approve" | "reject") {
+    setActionId(commentId);
+    try {
+      await fetch(`/api/comments/${commentId}/${action === "unhide" ? "hide" : action}`, {
+        method: action === "unhide" ? "DELETE" : "POST",
+      });
+      await fetchComments();
+    } finally {
+      setActionId(null);
+    }
+  }
+
+  return (
+    <div className="mt-3 border-t border-gray-100 pt-3 space-y-2">
+      {comments === null ? (
+        <p className="text-xs text-gray-400">Loading comments...</p>
+      ) : comments.length === 0 ? (
+        <p className="text-xs text-gray-400">No comments yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {comments.map((c) => (
+            <li key={c.id} className={`text-sm ${c.isHidden || c.isPending ? "opacity-60" : ""}`}>
+              <p className="text-gray-700 whitespace-pre-wrap break-words">{c.text}</p>
+              <p className="text-xs text-gray-400 mt-0.5 flex items-center gap-2">
+                <span>
+                  {c.isAnonymous ? "Anonymous" : c.submittedName ?? "Unknown"} ·{" "}
+                  {new Date(c.createdAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}
+                </span>
+                {c.isHidden && (
+                  <span className="text-[10px] font-medium px-1.5 py-0.5 rounded bg-gray-100 text-gray-600">
+                    Hidden
+                  </span>
+                )}
+                {c.isPending && (
+                  <span className="text-[10px] font-medium px-1.5 py-0.5 rounded bg-amber-100 text-amber-700">
+                    Pending
+                  </span>
+                )}
+                {moderate &&
+                  (c.isPending ? (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => moderateComment(c.id, "approve")}
+                        disabled={actionId === c.id}
+                        className="text-brand-700 hover:underline disabled:opacity-50"
+                      >
+                        Approve
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moderateComment(c.id, "reject")}
+                        disabled={actionId === c.id}
+                        className="text-red-600 hover:underline disabled:opacity-50"
+                      >
+                        Reject
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => moderateComment(c.id, c.isHidden ? "unhide" : "hide")}
+                      disabled={actionId === c.id}
+                      className="text-brand-700 hover:underline disabled:opacity-50"
+                    >
+                      {c.isHidden ? "Unhide" : "Hide"}
+                    </button>
+                  ))}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canComment && (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <textarea
+            className="w-full border border-gray-300 rounded-lg p-2 text-sm resize-none focus:outline-none focus:ring-2 focus:ring-brand-400"
+            rows={2}
+            placeholder="Add context to this question…"
+            value={text}
+            onChange={(e) => setText(e.target.value.slice(0, MAX_COMMENT_LENGTH))}
+            maxLength={MAX_COMMENT_LENGTH}
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="flex items-center gap-1.5 text-xs text-gray-600 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                className="rounded"
+                checked={isAnonymous}
+                onChange={(e) => setIsAnonymous(e.target.checked)}
+              />
+              Anonymous
+            </label>
+            {!isAnonymous && (
+              <input
+                type="text"
+                className="flex-1 min-w-[8rem] border border-gray-300 rounded-lg px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-brand-400"
+                placeholder="Your name (required)"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+              />
+            )}
+            <span className="ml-auto text-xs tabular-nums text-gray-400">
+              {text.length} / {MAX_COMMENT_LENGTH}
+            </span>
+            <button
+              type="submit"
+              disabled={submitting || !text.trim()}
+              className="px-3 py-1 text-xs bg-gray-900 text-white rounded-lg hover:bg-gray-700 disabled:opacity-50 font-medium transition-colors"
+            >
+              {submitting ? "Posting..." : "Comment"}
+            </button>
+          </div>
+          {error && <p className="text-red-500 text-xs">{error}</p>}
+          {notice && <p className="text-gray-600 text-xs">{notice}</p>}
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import { useState, ChangeEvent } from "react";
+
+type ImportFormat = "csv" | "json";
+type RowError = { row: number; error: string };
+
+const CSV_EXAMPLE = `text,submittedName,isAnonymous,status
+"What's the plan for Q3?",Jane Doe,false,OPEN
+How do promotions work?,,true,`;
+
+/** Admin bulk import of pre-submitted questions (CSV or JSON). */
+export default function ImportQuestionsPanel({
+  eventId,
+  onImported,
+}: {
+  eventId: string;
+  onImported: () => void;
+}) {
+  const [format, setFormat] = useState<ImportFormat>("csv");
+  const [data, setData] = useState("");
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [rowErrors, setRowErrors] = useState<RowError[]>([]);
+  const [result, setResult] = useState<string | null>(null);
+
+  async function handleFile(e: ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setData(await file.text());
+    if (file.name.toLowerCase().endsWith(".json")) setFormat("json");
+    else if (file.name.toLowerCase().endsWith(".csv")) setFormat("csv");
+    e.target.value = "";
+  }
+
+  async function handleImport() {
+    setError(null);
+    setRowErrors([]);
+    setResult(null);
+    setImporting(true);
+    try {
+      const res = await fetch(`/api/admin/events/${eventId}/import`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ format, data }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        setError(body.error ?? "Import failed.");
+        setRowErrors(body.errors ?? []);
+        return;
+      }
+      setResult(`Imported ${body.created} question${body.created !== 1 ? "s" : ""}.`);
+      setData("");
+      onImported();
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  return (
+    <details className="mb-6 rounded-xl border border-gray-200 bg-white shadow-sm">
+      <summary className="cursor-pointer select-none px-4 py-3 text-sm font-semibold text-gray-800">
+        Import questions
+      </summary>
+      <div className="px-4 pb-4 space-y-2">
+        <p className="text-xs text-gray-500">
+          CSV with a header row, or a JSON array. Fields: <code>text</code>,{" "}
+          <code>submittedName</code>, <code>isAnonymous</code>, optional <code>status</code>{" "}
+          (OPEN or ANSWERED). Same rules as the public form; nothing is imported if any row fails.
+        </p>
+        <div className="flex items-center gap-3">
+          <div className="flex gap-1 bg-gray-100 rounded-lg p-1">
+            {(["csv", "json"] as const).map((f) => (
+              <button
+                key={f}
+                type="button"
+                onClick={() => setFormat(f)}
+                className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                  format === f ? "bg-white shadow text-gray-900" : "text-gray-500 hover:text-gray-700"
+                }`}
+              >
+                {f.toUpperCase()}
+              </button>
+            ))}
+          </div>
+          <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} className="text-xs" />
+        </div>
+        <textarea
+          rows={6}
+          value={data}
+          onChange={(e) => setData(e.target.value)}
+          placeholder={format === "csv" ? CSV_EXAMPLE : '[{ "text": "...", "submittedName": "...", "isAnonymous": false }]'}
+          className="w-full border border-gray-300 rounded-lg px-3 py-2 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-brand-400"
+        />
+
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+        {rowErrors.length > 0 && (
+          <ul className="text-xs text-red-500 max-h-40 overflow-y-auto space-y-0.5">
+            {rowErrors.map((e) => (
+              <li key={e.row}>
+                Row {e.row}: {e.error}
+              </li>
+            ))}
+          </ul>
+        )}
+        {result && <p className="text-green-700 text-sm">{result}</p>}
+
+        <button
+          type="button"
+          onClick={handleImport}
+          disabled={importing || !data.trim()}
+          className="bg-gray-900 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-gray-700 disabled:opacity-50 transition-colors"
+        >
+          {importing ? "Importing..." : "Import"}
+        </button>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { SIMILARITY_THRESHOLD, questionSimilarity } from "@/lib/similarity";
+
+type Candidate = { id: string; text: string; score: number };
+
+type MergeQuestionDialogProps = {
+  question: { id: string; text: string; score: number };
+  candidates: Candidate[];
+  onCancel: () => void;
+  onMerged: () => void;
+};
+
+/**
+ * Modal for merging a question into another one at the same event. Likely
+ * duplicates (lib/similarity.ts) are listed first; votes move to the chosen
+ * question on merge.
+ */
+export default function MergeQuestionDialog({
+  question,
+  candidates,
+  onCancel,
+  onMerged,
+}: MergeQuestionDialogProps) {
+  const [filter, setFilter] = useState("");
+  const [intoId, setIntoId] = useState<string | null>(null);
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    function onKey(e: KeyboardEvent) {
+      if (e.key === "Escape") onCancel();
+    }
+    document.addEventListener("keydown", onKey);
+    return () => document.removeEventListener("keydown", onKey);
+  }, [onCancel]);
+
+  const ranked = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    return candidates
+      .filter((c) => c.id !== question.id && (!needle || c.text.toLowerCase().includes(needle)))
+      .map((c) => ({ ...c, similarity: questionSimilarity(question.text, c.text) }))
+      .sort((a, b) => b.similarity - a.similarity || b.score - a.score);
+  }, [candidates, filter, question]);
+
+  async function handleMerge() {
+    if (!intoId) return;
+    setError(null);
+    setMerging(true);
+    try {
+      const res = await fetch(`/api/questions/${question.id}/merge`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ intoId }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Failed to merge questions.");
+        return;
+      }
+      onMerged();
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setMerging(false);
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
+      aria-modal="true"
+      role="dialog"
+      aria-labelledby="merge-dialog-title"
+      onClick={(e) => { if (e.target === e.currentTarget) onCancel(); }}
+    >
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg mx-4 p-6 space-y-3">
+        <h2 id="merge-dialog-title" className="text-base font-semibold text-gray-900">
+          Merge into another question
+        </h2>
+        <p className="text-sm text-gray-500">
+          &ldquo;{question.text}&rdquo; will be removed and its votes and comments moved to the
+          question you pick. People who voted on both keep a single vote.
+        </p>
+        <input
+          type="text"
+          autoFocus
+          placeholder="Filter questions…"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-400"
+        />
+        <ul className="max-h-72 overflow-y-auto divide-y divide-gray-100 rounded-lg border border-gray-100">
+          {ranked.length === 0 ? (
+            <li className="px-3 py-2 text-sm text-gray-400">No other questions to merge into.</li>
+          ) : (
+            ranked.map((c) => (
+              <li key={c.id}>
+                <label className="flex items-start gap-2 px-3 py-2 text-sm cursor-pointer hover:bg-gray-50">
+                  <input
+                    type="radio"
+                    name="merge-into"
+                    checked={intoId === c.id}
+                    onChange={() => setIntoId(c.id)}
+                    className="mt-0.5"
+                  />
+                  <span className="flex-1 min-w-0 text-gray-800">{c.text}</span>
+                  {c.similarity >= SIMILARITY_THRESHOLD && (
+                    <span className="shrink-0 text-[10px] font-medium px-1.5 py-0.5 rounded bg-amber-50 text-amber-800">
+                      Likely duplicate
+                    </span>
+                  )}
+                  <span className="shrink-0 text-xs text-gray-400 tabular-nums">{c.score}</span>
+                </label>
+              </li>
+            ))
+          )}
+        </ul>
+
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+
+        <div className="pt-2 flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={merging}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleMerge}
+            disabled={!intoId || merging}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-white bg-gray-900 hover:bg-gray-700 disabled:opacity-50 transition-colors"
+          >
+            {merging ? "Merging..." : "Merge"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
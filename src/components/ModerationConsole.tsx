@@ -0,0 +1,944 @@
+"use client";
+
+import { useEffect, useState, useCallback, useRef } from "react";
+import Link from "next/link";
+import VotingToggle from "@/components/VotingToggle";
+import SettingToggle from "@/components/SettingToggle";
+import AnswerBlock from "@/components/AnswerBlock";
+import AnswerEditor from "@/components/AnswerEditor";
+import MergeQuestionDialog from "@/components/MergeQuestionDialog";
+import CommentThread from "@/components/CommentThread";
+import ImportQuestionsPanel from "@/components/ImportQuestionsPanel";
+import RateLimitPanel from "@/components/RateLimitPanel";
+import SuspiciousVotesPanel from "@/components/SuspiciousVotesPanel";
+import ScreeningRulesEditor from "@/components/ScreeningRulesEditor";
+import TopicsPanel from "@/components/TopicsPanel";
+import PanelistsPanel from "@/components/PanelistsPanel";
+import PollsPanel from "@/components/PollsPanel";
+import PresenterQueuePanel, { QUEUE_DRAG_TYPE } from "@/components/PresenterQueuePanel";
+import SessionTimerPanel from "@/components/SessionTimerPanel";
+import QuestionTimings from "@/components/QuestionTimings";
+import {
+  useEventStream,
+  applyQuestionDelta,
+  applyPollDelta,
+  type ClientStreamDelta,
+  type StreamPoll,
+  type StreamAnswer,
+  type StreamTopic,
+  type StreamPanelist,
+} from "@/lib/useEventStream";
+
+type Question = {
+  id: string;
+  text: string;
+  submittedName: string | null;
+  isAnonymous: boolean;
+  status: "OPEN" | "ANSWERED";
+  isHidden: boolean;
+  isPending: boolean;
+  topicId: string | null;
+  directedToId: string | null;
+  flagReason: string | null;
+  pinnedAt: string | null;
+  createdAt: string;
+  score: number;
+  commentCount: number;
+  pendingCommentCount: number;
+  myVote: 1 | -1 | null;
+  answer: StreamAnswer | null;
+};
+
+type Event = {
+  id: string;
+  title: string;
+  description: string | null;
+  isVotingOpen: boolean;
+  isModerated: boolean;
+  startsAt: string | null;
+  durationMinutes: number | null;
+  questionLimitMinutes: number | null;
+};
+
+export type EventSettings = Partial<
+  Pick<Event, "isVotingOpen" | "isModerated" | "durationMinutes" | "questionLimitMinutes">
+>;
+
+type Tab = "pending" | "open" | "answered" | "hidden" | "analytics";
+
+type ModerationConsoleProps = {
+  eventId: string;
+  backHref: string;
+  backLabel: string;
+  /** Persists a voting, pre-moderation or timer change; throws on failure. */
+  saveSettings: (settings: EventSettings) => Promise<void>;
+  /** Team event host view: refuse to render for anyone who cannot manage the event. */
+  hostOnly?: boolean;
+  /** Show export links, bulk import, topics, panelists, rate limits and vote review (admin-only endpoints). */
+  adminTools?: boolean;
+};
+
+/**
+ * Open / answered / hidden / analytics tabs for running a live event. Used by
+ * the admin event page and by the team event host console.
+ */
+export default function ModerationConsole({
+  eventId,
+  backHref,
+  backLabel,
+  saveSettings,
+  hostOnly = false,
+  adminTools = false,
+}: ModerationConsoleProps) {
+  const [event, setEvent] = useState<Event | null>(null);
+  const [canManage, setCanManage] = useState(false);
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [tab, setTab] = useState<Tab>("open");
+  const [loading, setLoading] = useState(true);
+  // Set when the event is moved to the trash from another tab
+  const [removed, setRemoved] = useState(false);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [settingsSaving, setSettingsSaving] = useState(false);
+  const [openMenu, setOpenMenu] = useState<string | null>(null);
+  const [answeringId, setAnsweringId] = useState<string | null>(null);
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  // Question whose comment thread is expanded
+  const [commentsId, setCommentsId] = useState<string | null>(null);
+  const [topics, setTopics] = useState<StreamTopic[]>([]);
+  const [topicFilter, setTopicFilter] = useState<string | null>(null);
+  const [panelists, setPanelists] = useState<StreamPanelist[]>([]);
+  const [polls, setPolls] = useState<StreamPoll[]>([]);
+  // Presenter run-of-show, as question ids
+  const [queue, setQueue] = useState<string[]>([]);
+  const [queueSaving, setQueueSaving] = useState(false);
+  const [queueError, setQueueError] = useState<string | null>(null);
+
+  const pollRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  const fetchQuestions = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/events/${eventId}/questions?sort=score`);
+      if (!res.ok) return;
+      const data = await res.json();
+      setEvent(data.event);
+      setCanManage(data.canManage === true);
+      setQuestions(data.questions);
+      setTopics(data.topics ?? []);
+      setPanelists(data.panelists ?? []);
+      setQueue(data.queue ?? []);
+    } catch {
+      // silently retry on next poll
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  const fetchPolls = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/events/${eventId}/polls`);
+      if (res.ok) setPolls(await res.json());
+    } catch {
+      // silently retry on next poll
+    }
+  }, [eventId]);
+
+  const refresh = useCallback(() => {
+    fetchQuestions();
+    fetchPolls();
+  }, [fetchQuestions, fetchPolls]);
+
+  const handleDelta = useCallback((delta: ClientStreamDelta) => {
+    if (delta.type === "event.updated") {
+      setEvent((prev) => (prev ? { ...prev, ...delta.event } : prev));
+      return;
+    }
+    if (delta.type === "event.removed") {
+      setRemoved(true);
+      return;
+    }
+    if (delta.type === "topics.updated") {
+      setTopics(delta.topics);
+      return;
+    }
+    if (delta.type === "panelists.updated") {
+      setPanelists(delta.panelists);
+      return;
+    }
+    if (delta.type === "poll.updated" || delta.type === "poll.removed") {
+      setPolls((prev) => applyPollDelta(prev, delta));
+      return;
+    }
+    if (delta.type === "queue.updated") {
+      setQueue(delta.queue);
+      return;
+    }
+    setQuestions((prev) => applyQuestionDelta(prev, delta));
+  }, []);
+
+  const streamConnected = useEventStream(eventId, {
+    onDelta: handleDelta,
+    onReady: refresh,
+  });
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Poll only while the live stream is down
+  useEffect(() => {
+    if (streamConnected) return;
+    pollRef.current = setInterval(refresh, 3000);
+    return () => {
+      if (pollRef.current) clearInterval(pollRef.current);
+    };
+  }, [refresh, streamConnected]);
+
+  useEffect(() => {
+    if (!openMenu) return;
+    function handleClick() { setOpenMenu(null); }
+    document.addEventListener("click", handleClick);
+    return () => document.removeEventListener("click", handleClick);
+  }, [openMenu]);
+
+  async function markAnswered(questionId: string) {
+    setActionLoading(questionId);
+    try {
+      await fetch(`/api/questions/${questionId}/answer`, { method: "POST" });
+      await fetchQuestions();
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
+  async function markOpen(questionId: string) {
+    setActionLoading(questionId);
+    try {
+      await fetch(`/api/questions/${questionId}/answer`, { method: "DELETE" });
+      await fetchQuestions();
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
+  async function hideQuestion(questionId: string) {
+    setActionLoading(questionId);
+    try {
+      await fetch(`/api/questions/${questionId}/hide`, { method: "POST" });
+      await fetchQuestions();
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
+  async function unhideQuestion(questionId: string) {
+    setActionLoading(questionId);
+    try {
+      await fetch(`/api/questions/${questionId}/hide`, { method: "DELETE" });
+      await fetchQuestions();
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
+  async function clearFlag(questionId: string) {
+    setActionLoading(questionId);
+    try {
+      await fetch(`/api/questions/${questionId}/flag`, { method: "DELETE" });
+      await fetchQuestions();
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
+  async function deleteQuestion(questionId: string) {
+    if (!confirm("Delete this question? An admin can restore it from the trash for 30 days.")) return;
+    setActionLoading(questionId);
+    try {
+      await fetch(`/api/questions/${questionId}`, { method: "DELETE" });
+      await fetchQuestions();
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
+  async function pinQuestion(questionId: string) {
+    setActionLoading(questionId);
+    try {
+      await fetch(`/api/questions/${questionId}/pin`, { method: "POST" });
+      await fetchQuestions();
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
+  async function unpinQuestion(questionId: string) {
+    setActionLoading(questionId);
+    try {
+      await fetch(`/api/questions/${questionId}/pin`, { method: "DELETE" });
+      await fetchQuestions();
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
+  async function retagQuestion(questionId: string, topicId: string | null) {
+    setActionLoading(questionId);
+    try {
+      await fetch(`/api/questions/${questionId}/topic`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ topicId }),
+      });
+      await fetchQuestions();
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
+  async function saveTimerSettings(settings: EventSettings) {
+    await saveSettings(settings);
+    setEvent((prev) => (prev ? { ...prev, ...settings } : prev));
+  }
+
+  async function toggleSetting(key: "isVotingOpen" | "isModerated") {
+    if (!event) return;
+    setSettingsSaving(true);
+    const next = !event[key];
+    setEvent((prev) => prev ? { ...prev, [key]: next } : prev);
+    try {
+      await saveSettings({ [key]: next });
+    } catch {
+      setEvent((prev) => prev ? { ...prev, [key]: !next } : prev);
+    } finally {
+      setSettingsSaving(false);
+    }
+  }
+
+  async function approveQuestion(questionId: string) {
+    setActionLoading(questionId);
+    try {
+      await fetch(`/api/questions/${questionId}/approve`, { method: "POST" });
+      await fetchQuestions();
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
+  async function rejectQuestion(questionId: string) {
+    setActionLoading(questionId);
+    try {
+      await fetch(`/api/questions/${questionId}/reject`, { method: "POST" });
+      await fetchQuestions();
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
+  async function saveQueue(questionIds: string[]) {
+    const previous = queue;
+    setQueue(questionIds);
+    setQueueError(null);
+    setQueueSaving(true);
+    try {
+      const res = await fetch(`/api/events/${eventId}/queue`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ questionIds }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setQueue(previous);
+        setQueueError(data.error ?? "Failed to save the queue.");
+      }
+    } catch {
+      setQueue(previous);
+      setQueueError("Network error. Please try again.");
+    } finally {
+      setQueueSaving(false);
+    }
+  }
+
+  const pendingQuestions = questions
+    .filter((q) => q.isPending && !q.isHidden)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+  const openQuestions = questions
+    .filter((q) => q.status === "OPEN" && !q.isHidden && !q.isPending)
+    .sort((a, b) => {
+      const aPinned = a.pinnedAt ? 1 : 0;
+      const bPinned = b.pinnedAt ? 1 : 0;
+      if (bPinned !== aPinned) return bPinned - aPinned;
+      return b.score - a.score || new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+    });
+
+  const answeredQuestions = questions
+    .filter((q) => q.status === "ANSWERED" && !q.isHidden && !q.isPending)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  const hiddenQuestions = questions
+    .filter((q) => q.isHidden)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  // Only questions still open stay in the run-of-show; saving drops the rest
+  const openById = new Map(openQuestions.map((q) => [q.id, q]));
+  const queuedQuestions = queue.flatMap((id) => openById.get(id) ?? []);
+  const queuedIds = queuedQuestions.map((q) => q.id);
+
+  const answeringQuestion = answeringId ? questions.find((q) => q.id === answeringId) ?? null : null;
+  const mergingQuestion = mergingId ? questions.find((q) => q.id === mergingId) ?? null : null;
+
+  const tabQuestions =
+    tab === "pending"
+      ? pendingQuestions
+      : tab === "open"
+      ? openQuestions
+      : tab === "answered"
+      ? answeredQuestions
+      : hiddenQuestions;
+  // Falls back to all topics if the selected one is removed
+  const activeTopic = topics.find((t) => t.id === topicFilter) ?? null;
+  const displayedQuestions = activeTopic
+    ? tabQuestions.filter((q) => q.topicId === activeTopic.id)
+    : tabQuestions;
+  const topicNames = new Map(topics.map((t) => [t.id, t.name]));
+  const panelistNames = new Map(panelists.map((p) => [p.id, p.name]));
+
+  // Analytics stats
+  const totalQuestions = questions.length;
+  const openCount = openQuestions.length;
+  const answeredCount = answeredQuestions.length;
+  const hiddenCount = hiddenQuestions.length;
+  const totalVotes = questions.reduce((sum, q) => sum + Math.abs(q.score), 0);
+  const totalComments = questions.reduce((sum, q) => sum + q.commentCount, 0);
+  const anonymousCount = questions.filter((q) => q.isAnonymous).length;
+  const namedCount = questions.filter((q) => !q.isAnonymous).length;
+  const anonPct = totalQuestions > 0 ? Math.round((anonymousCount / totalQuestions) * 100) : 0;
+
+  if (removed) {
+    return (
+      <main className="max-w-2xl mx-auto px-4 py-12 text-center text-gray-500">
+        This event has been deleted.{" "}
+        <Link href={backHref} className="text-brand-700 hover:underline">
+          {backLabel}
+        </Link>
+      </main>
+    );
+  }
+
+  if (hostOnly && !loading && !canManage) {
+    return (
+      <main className="max-w-2xl mx-auto px-4 py-12 text-center text-gray-500">
+        Only this event&apos;s hosts can moderate it.{" "}
+        <Link href={backHref} className="text-brand-700 hover:underline">
+          {backLabel}
+        </Link>
+      </main>
+    );
+  }
+
+  return (
+    <main className="max-w-2xl mx-auto px-4 py-8">
+      {/* Back link */}
+      <Link href={backHref} className="text-sm text-brand-700 hover:underline">
+        ← {backLabel}
+      </Link>
+
+      {/* Header */}
+      <div className="mt-3 mb-6">
+        <h1 className="text-2xl font-bold">{event?.title ?? "Loading..."}</h1>
+        {event?.description && (
+          <p className="text-gray-500 text-sm mt-1">{event.description}</p>
+        )}
+        <div className="flex items-center gap-4 mt-1">
+          <a
+            href={`/events/${eventId}`}
+            target="_blank"
+            rel="noreferrer"
+            className="text-xs text-brand-700 hover:underline"
+          >
+            Open public board ↗
+          </a>
+          <a
+            href={`/presenter/${eventId}`}
+            target="_blank"
+            rel="noreferrer"
+            className="text-xs text-white bg-gray-900 hover:bg-gray-700 px-2.5 py-1 rounded-md font-medium transition-colors"
+          >
+            Presenter Mode ↗
+          </a>
+          {adminTools && (
+            <span className="flex items-center gap-2 text-xs text-gray-400">
+              Export:
+              {(["csv", "json", "md"] as const).map((format) => (
+                <a
+                  key={format}
+                  href={`/api/admin/events/${eventId}/export?format=${format}`}
+                  download
+                  className="text-brand-700 hover:underline"
+                >
+                  {format === "md" ? "Markdown" : format.toUpperCase()}
+                </a>
+              ))}
+            </span>
+          )}
+          {adminTools && (
+            <Link href={`/admin/audit?eventId=${eventId}`} className="text-xs text-brand-700 hover:underline">
+              Audit log
+            </Link>
+          )}
+        </div>
+      </div>
+
+      {/* Voting and pre-moderation toggles */}
+      <div className="mb-6 space-y-3">
+        <VotingToggle
+          isOpen={event?.isVotingOpen ?? true}
+          onChange={() => toggleSetting("isVotingOpen")}
+          disabled={settingsSaving || !event}
+        />
+        <SettingToggle
+          label="Pre-moderation"
+          description={
+            event?.isModerated
+              ? "New questions wait in Pending until a moderator approves them."
+              : "New questions appear to everyone as soon as they are asked."
+          }
+          isOn={event?.isModerated ?? false}
+          onChange={() => toggleSetting("isModerated")}
+          disabled={settingsSaving || !event}
+        />
+      </div>
+
+      <PollsPanel eventId={eventId} polls={polls} onChanged={fetchPolls} />
+      <PresenterQueuePanel queued={queuedQuestions} saving={queueSaving} error={queueError} onChange={saveQueue} />
+      <SessionTimerPanel
+        startsAt={event?.startsAt ?? null}
+        durationMinutes={event?.durationMinutes ?? null}
+        questionLimitMinutes={event?.questionLimitMinutes ?? null}
+        onSave={saveTimerSettings}
+      />
+
+      {adminTools && (
+        <>
+          <ImportQuestionsPanel eventId={eventId} onImported={fetchQuestions} />
+          <TopicsPanel eventId={eventId} topics={topics} onChanged={fetchQuestions} />
+          <PanelistsPanel eventId={eventId} panelists={panelists} onChanged={fetchQuestions} />
+          <RateLimitPanel eventId={eventId} />
+          <SuspiciousVotesPanel eventId={eventId} onChanged={fetchQuestions} />
+          <details className="mb-6 rounded-xl border border-gray-200 bg-white shadow-sm">
+            <summary className="cursor-pointer select-none px-4 py-3 text-sm font-semibold text-gray-800">
+              Content screening
+            </summary>
+            <div className="px-4 pb-4 space-y-2">
+              <p className="text-xs text-gray-500">
+                Rules for this event only, applied on top of the{" "}
+                <Link href="/admin/screening" className="text-brand-700 hover:underline">
+                  global rules
+                </Link>
+                .
+              </p>
+              <ScreeningRulesEditor eventId={eventId} />
+            </div>
+          </details>
+        </>
+      )}
+
+      {/* Tab bar */}
+      <div className="flex gap-1 bg-gray-100 rounded-lg p-1 mb-6 w-fit">
+        {(event?.isModerated || pendingQuestions.length > 0) && (
+          <button
+            onClick={() => setTab("pending")}
+            className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+              tab === "pending" ? "bg-white shadow text-gray-900" : "text-gray-500 hover:text-gray-700"
+            }`}
+          >
+            Pending
+            <span className="ml-1.5 bg-amber-100 text-amber-800 text-xs px-1.5 py-0.5 rounded-full">
+              {pendingQuestions.length}
+            </span>
+          </button>
+        )}
+        <button
+          onClick={() => setTab("open")}
+          className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+            tab === "open" ? "bg-white shadow text-gray-900" : "text-gray-500 hover:text-gray-700"
+          }`}
+        >
+          Open
+          <span className="ml-1.5 bg-brand-100 text-brand-700 text-xs px-1.5 py-0.5 rounded-full">
+            {openQuestions.length}
+          </span>
+        </button>
+        <button
+          onClick={() => setTab("answered")}
+          className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+            tab === "answered" ? "bg-white shadow text-gray-900" : "text-gray-500 hover:text-gray-700"
+          }`}
+        >
+          Answered
+          <span className="ml-1.5 bg-gray-200 text-gray-600 text-xs px-1.5 py-0.5 rounded-full">
+            {answeredQuestions.length}
+          </span>
+        </button>
+        <button
+          onClick={() => setTab("hidden")}
+          className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+            tab === "hidden" ? "bg-white shadow text-gray-900" : "text-gray-500 hover:text-gray-700"
+          }`}
+        >
+          Hidden
+          {hiddenQuestions.length > 0 && (
+            <span className="ml-1.5 bg-gray-200 text-gray-600 text-xs px-1.5 py-0.5 rounded-full">
+              {hiddenQuestions.length}
+            </span>
+          )}
+        </button>
+        <button
+          onClick={() => setTab("analytics")}
+          className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+            tab === "analytics" ? "bg-white shadow text-gray-900" : "text-gray-500 hover:text-gray-700"
+          }`}
+        >
+          Analytics
+        </button>
+      </div>
+
+      {/* Analytics tab */}
+      {tab === "analytics" && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+            {[
+              { label: "Total Questions", value: totalQuestions },
+              { label: "Open", value: openCount },
+              ...(pendingQuestions.length > 0 ? [{ label: "Pending", value: pendingQuestions.length }] : []),
+              { label: "Answered", value: answeredCount },
+              { label: "Hidden", value: hiddenCount },
+              { label: "Total Votes Cast", value: totalVotes },
+              { label: "Comments", value: totalComments },
+              { label: "Anonymous", value: `${anonymousCount} (${anonPct}%)` },
+              { label: "Named", value: `${namedCount} (${100 - anonPct}%)` },
+            ].map(({ label, value }) => (
+              <div
+                key={label}
+                className="bg-white rounded-xl border border-gray-200 shadow-sm p-4"
+              >
+                <p className="text-2xl font-bold text-gray-900">{value}</p>
+                <p className="text-xs text-gray-500 mt-1">{label}</p>
+              </div>
+            ))}
+          </div>
+          <QuestionTimings eventId={eventId} />
+        </div>
+      )}
+
+      {/* Topic filter */}
+      {tab !== "analytics" && topics.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mb-4">
+          {[{ id: null, name: "All topics" }, ...topics].map((t) => (
+            <button
+              key={t.id ?? "all"}
+              onClick={() => setTopicFilter(t.id)}
+              className={`px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${
+                (activeTopic?.id ?? null) === t.id
+                  ? "bg-gray-900 text-white"
+                  : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+              }`}
+            >
+              {t.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Question list (pending / open / answered / hidden tabs) */}
+      {tab !== "analytics" && (
+        loading ? (
+          <p className="text-gray-400 text-sm">Loading...</p>
+        ) : displayedQuestions.length === 0 ? (
+          <div className="rounded-lg border border-dashed border-gray-300 p-10 text-center text-gray-400">
+            {activeTopic
+              ? `No questions under ${activeTopic.name} here.`
+              : tab === "pending"
+              ? "No questions waiting for approval."
+              : tab === "open"
+              ? "No open questions yet."
+              : tab === "answered"
+              ? "No answered questions yet."
+              : "No hidden questions."}
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {displayedQuestions.map((q) => (
+              <li
+                key={q.id}
+                draggable={tab === "open"}
+                onDragStart={(e) => {
+                  e.dataTransfer.setData(QUEUE_DRAG_TYPE, q.id);
+                  e.dataTransfer.effectAllowed = "move";
+                }}
+                className={[
+                  "rounded-xl border border-gray-200 shadow-sm p-4 flex gap-4 relative",
+                  tab === "hidden" ? "bg-gray-50 opacity-60" : "bg-white",
+                  tab === "open" ? "cursor-grab" : "",
+                  q.status === "ANSWERED" ? "border-l-2 border-l-green-200" : "",
+                ].join(" ")}
+              >
+                {/* Score */}
+                <div className="flex flex-col items-center justify-start pt-0.5 min-w-[2rem] text-center">
+                  <span
+                    className={`text-xl font-bold leading-none tabular-nums ${
+                      q.score > 0
+                        ? "text-brand-700"
+                        : q.score < 0
+                        ? "text-red-500"
+                        : "text-gray-400"
+                    }`}
+                  >
+                    {q.score}
+                  </span>
+                  <span className="text-[10px] text-gray-400 mt-0.5 leading-none">votes</span>
+                </div>
+
+                {/* Content */}
+                <div className="flex-1 min-w-0">
+                  {tab === "open" && q.pinnedAt && (
+                    <span className="inline-flex items-center text-[10px] font-medium text-brand-600 bg-brand-50 px-1.5 py-0.5 rounded-full mb-1.5">
+                      Pinned
+                    </span>
+                  )}
+                  {tab === "open" && queuedIds.includes(q.id) && (
+                    <span className="inline-flex items-center text-[10px] font-medium text-gray-700 bg-gray-100 px-1.5 py-0.5 rounded-full mb-1.5 ml-1 first:ml-0">
+                      Queued #{queuedIds.indexOf(q.id) + 1}
+                    </span>
+                  )}
+                  {q.flagReason && (
+                    <span
+                      className="inline-flex items-center text-[10px] font-medium text-amber-800 bg-amber-50 px-1.5 py-0.5 rounded-full mb-1.5 ml-1 first:ml-0"
+                      title="Matched a content-screening rule"
+                    >
+                      Flagged: {q.flagReason}
+                    </span>
+                  )}
+                  {q.directedToId && panelistNames.has(q.directedToId) && (
+                    <span className="inline-flex items-center text-[10px] font-medium text-gray-700 bg-gray-100 px-1.5 py-0.5 rounded-full mb-1.5 ml-1 first:ml-0">
+                      For {panelistNames.get(q.directedToId)}
+                    </span>
+                  )}
+                  <p className="text-[18px] font-medium leading-snug text-gray-900">{q.text}</p>
+                  {q.status === "ANSWERED" && (
+                    <span className="inline-flex items-center gap-1 mt-1.5 px-1.5 py-0.5 text-[10px] font-medium text-green-700 bg-green-50 rounded">
+                      <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3 h-3">
+                        <path fillRule="evenodd" d="M16.704 4.153a.75.75 0 01.143 1.052l-8 10.5a.75.75 0 01-1.127.075l-4.5-4.5a.75.75 0 011.06-1.06l3.894 3.893 7.48-9.817a.75.75 0 011.05-.143z" clipRule="evenodd" />
+                      </svg>
+                      Answered
+                    </span>
+                  )}
+                  <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-gray-400 mt-1.5">
+                    <span>
+                      {q.isAnonymous ? "Anonymous" : q.submittedName ?? "Unknown"} ·{" "}
+                      {new Date(q.createdAt).toLocaleTimeString([], {
+                        hour: "2-digit",
+                        minute: "2-digit",
+                      })}
+                    </span>
+                    {topics.length > 0 && (
+                      <select
+                        value={q.topicId && topicNames.has(q.topicId) ? q.topicId : ""}
+                        onChange={(e) => retagQuestion(q.id, e.target.value || null)}
+                        disabled={actionLoading === q.id}
+                        title="Topic"
+                        className="border border-gray-200 rounded-md px-1.5 py-0.5 text-xs text-gray-600 bg-white focus:outline-none focus:ring-2 focus:ring-brand-400 disabled:opacity-50"
+                      >
+                        <option value="">No topic</option>
+                        {topics.map((t) => (
+                          <option key={t.id} value={t.id}>
+                            {t.name}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                  {q.status === "ANSWERED" && q.answer && <AnswerBlock answer={q.answer} />}
+                  {tab !== "pending" && (
+                    <button
+                      onClick={() => setCommentsId(commentsId === q.id ? null : q.id)}
+                      aria-expanded={commentsId === q.id}
+                      className="mt-1.5 text-xs text-gray-500 hover:text-brand-700 transition-colors"
+                    >
+                      {commentsId === q.id ? "Hide comments" : `Comments (${q.commentCount})`}
+                      {q.pendingCommentCount > 0 && (
+                        <span className="ml-1.5 bg-amber-100 text-amber-800 px-1.5 py-0.5 rounded-full">
+                          {q.pendingCommentCount} to review
+                        </span>
+                      )}
+                    </button>
+                  )}
+                  {commentsId === q.id && (
+                    <CommentThread
+                      questionId={q.id}
+                      commentCount={q.commentCount}
+                      pendingCount={q.pendingCommentCount}
+                      canComment={false}
+                      moderate
+                    />
+                  )}
+                  {tab === "pending" && (
+                    <div className="flex gap-2 mt-3">
+                      <button
+                        onClick={() => approveQuestion(q.id)}
+                        disabled={actionLoading === q.id}
+                        className="px-3 py-1.5 text-xs bg-gray-900 text-white rounded-lg hover:bg-gray-700 font-medium disabled:opacity-50 transition-colors"
+                      >
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => rejectQuestion(q.id)}
+                        disabled={actionLoading === q.id}
+                        className="px-3 py-1.5 text-xs text-red-600 bg-red-50 rounded-lg hover:bg-red-100 font-medium disabled:opacity-50 transition-colors"
+                      >
+                        Reject
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                {/* Overflow menu */}
+                <div className="shrink-0 flex items-start">
+                  <div className="relative">
+                    <button
+                      onClick={(e) => { e.stopPropagation(); setOpenMenu(openMenu === q.id ? null : q.id); }}
+                      className="w-7 h-7 flex items-center justify-center rounded-md text-gray-400 hover:text-gray-600 hover:bg-gray-100 transition-colors"
+                      title="More actions"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
+                        <path fillRule="evenodd" d="M4.5 12a1.5 1.5 0 113 0 1.5 1.5 0 01-3 0zm6 0a1.5 1.5 0 113 0 1.5 1.5 0 01-3 0zm6 0a1.5 1.5 0 113 0 1.5 1.5 0 01-3 0z" clipRule="evenodd" />
+                      </svg>
+                    </button>
+                    {openMenu === q.id && (
+                      <div className="absolute right-0 top-8 z-20 bg-white border border-gray-200 rounded-lg shadow-md py-1 min-w-[150px]">
+                        {tab === "open" && (
+                          <>
+                            <button
+                              onClick={() => { markAnswered(q.id); setOpenMenu(null); }}
+                              disabled={actionLoading === q.id}
+                              className="w-full text-left px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                            >
+                              Mark Answered
+                            </button>
+                            <button
+                              onClick={() => { q.pinnedAt ? unpinQuestion(q.id) : pinQuestion(q.id); setOpenMenu(null); }}
+                              disabled={actionLoading === q.id}
+                              className="w-full text-left px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                            >
+                              {q.pinnedAt ? "Unpin" : "Pin to top"}
+                            </button>
+                            <button
+                              onClick={() => {
+                                saveQueue(
+                                  queuedIds.includes(q.id)
+                                    ? queuedIds.filter((id) => id !== q.id)
+                                    : [...queuedIds, q.id]
+                                );
+                                setOpenMenu(null);
+                              }}
+                              disabled={queueSaving}
+                              className="w-full text-left px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                            >
+                              {queuedIds.includes(q.id) ? "Remove from queue" : "Add to queue"}
+                            </button>
+                            <button
+                              onClick={() => { hideQuestion(q.id); setOpenMenu(null); }}
+                              disabled={actionLoading === q.id}
+                              className="w-full text-left px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                            >
+                              Hide
+                            </button>
+                            <button
+                              onClick={() => { setMergingId(q.id); setOpenMenu(null); }}
+                              className="w-full text-left px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-50"
+                            >
+                              Merge into…
+                            </button>
+                          </>
+                        )}
+                        {tab === "answered" && (
+                          <>
+                            <button
+                              onClick={() => { setAnsweringId(q.id); setOpenMenu(null); }}
+                              className="w-full text-left px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-50"
+                            >
+                              {q.answer ? "Edit Answer" : "Write Answer"}
+                            </button>
+                            <button
+                              onClick={() => { markOpen(q.id); setOpenMenu(null); }}
+                              disabled={actionLoading === q.id}
+                              className="w-full text-left px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                            >
+                              Mark Unanswered
+                            </button>
+                          </>
+                        )}
+                        {tab === "hidden" && (
+                          <button
+                            onClick={() => { unhideQuestion(q.id); setOpenMenu(null); }}
+                            disabled={actionLoading === q.id}
+                            className="w-full text-left px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                          >
+                            Unhide
+                          </button>
+                        )}
+                        {q.flagReason && (
+                          <button
+                            onClick={() => { clearFlag(q.id); setOpenMenu(null); }}
+                            disabled={actionLoading === q.id}
+                            className="w-full text-left px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                          >
+                            Clear Flag
+                          </button>
+                        )}
+                        <button
+                          onClick={() => { deleteQuestion(q.id); setOpenMenu(null); }}
+                          disabled={actionLoading === q.id}
+                          className="w-full text-left px-3 py-1.5 text-xs text-red-600 hover:bg-red-50 disabled:opacity-50"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+
+      {answeringQuestion && (
+        <AnswerEditor
+          questionId={answeringQuestion.id}
+          questionText={answeringQuestion.text}
+          answer={answeringQuestion.answer}
+          onCancel={() => setAnsweringId(null)}
+          onSaved={(answer) => {
+            setQuestions((prev) =>
+              prev.map((q) => (q.id === answeringQuestion.id ? { ...q, answer } : q))
+            );
+            setAnsweringId(null);
+          }}
+        />
+      )}
+
+      {mergingQuestion && (
+        <MergeQuestionDialog
+          question={mergingQuestion}
+          candidates={questions.filter((q) => !q.isPending && !q.isHidden)}
+          onCancel={() => setMergingId(null)}
+          onMerged={() => {
+            setMergingId(null);
+            fetchQuestions();
+          }}
+        />
+      )}
+    </main>
+  );
+}
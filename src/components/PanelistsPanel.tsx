@@ -0,0 +1,177 @@
+"use client";
+
+import { useState } from "react";
+import type { StreamPanelist } from "@/lib/useEventStream";
+
+type PanelistsPanelProps = {
+  eventId: string;
+  panelists: StreamPanelist[];
+  onChanged: () => void;
+};
+
+type Draft = { name: string; title: string };
+
+const inputClass =
+  "border border-gray-300 rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-brand-400";
+
+/** Admin list of the people on stage that askers can direct a question to. */
+export default function PanelistsPanel({ eventId, panelists, onChanged }: PanelistsPanelProps) {
+  const [draft, setDraft] = useState<Draft>({ name: "", title: "" });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<Draft>({ name: "", title: "" });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function send(method: "POST" | "PATCH" | "DELETE", body: Record<string, string | null>): Promise<boolean> {
+    setError(null);
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/admin/events/${eventId}/panelists`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Failed to save panelists.");
+        return false;
+      }
+      onChanged();
+      return true;
+    } catch {
+      setError("Network error. Please try again.");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    if (await send("POST", { name: draft.name.trim(), title: draft.title.trim() || null })) {
+      setDraft({ name: "", title: "" });
+    }
+  }
+
+  async function handleSave(id: string) {
+    const saved = await send("PATCH", {
+      id,
+      name: editDraft.name.trim(),
+      title: editDraft.title.trim() || null,
+    });
+    if (saved) setEditingId(null);
+  }
+
+  function handleRemove(id: string) {
+    if (!confirm("Remove this panelist? Questions directed to them go back to the whole panel.")) return;
+    send("DELETE", { id });
+  }
+
+  return (
+    <details className="mb-6 rounded-xl border border-gray-200 bg-white shadow-sm">
+      <summary className="cursor-pointer select-none px-4 py-3 text-sm font-semibold text-gray-800">
+        Panelists{panelists.length > 0 && <span className="ml-1 font-normal text-gray-400">({panelists.length})</span>}
+      </summary>
+      <div className="px-4 pb-4 space-y-3">
+        <p className="text-xs text-gray-500">
+          Askers can direct their question to one of these people, and the presenter view can
+          show only the questions for one panelist.
+        </p>
+
+        {panelists.length > 0 && (
+          <ul className="divide-y divide-gray-100 rounded-lg border border-gray-100">
+            {panelists.map((p) => (
+              <li key={p.id} className="flex flex-wrap items-center gap-2 px-3 py-2 text-sm">
+                {editingId === p.id ? (
+                  <>
+                    <input
+                      type="text"
+                      autoFocus
+                      placeholder="Name"
+                      value={editDraft.name}
+                      onChange={(e) => setEditDraft({ ...editDraft, name: e.target.value })}
+                      className={`flex-1 min-w-[8rem] ${inputClass}`}
+                    />
+                    <input
+                      type="text"
+                      placeholder="Title (optional)"
+                      value={editDraft.title}
+                      onChange={(e) => setEditDraft({ ...editDraft, title: e.target.value })}
+                      className={`flex-1 min-w-[8rem] ${inputClass}`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => handleSave(p.id)}
+                      disabled={saving || !editDraft.name.trim()}
+                      className="text-xs text-brand-700 hover:underline disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditingId(null)}
+                      className="text-xs text-gray-500 hover:underline"
+                    >
+                      Cancel
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <span className="flex-1 text-gray-800">
+                      {p.name}
+                      {p.title && <span className="text-gray-400"> · {p.title}</span>}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setEditingId(p.id);
+                        setEditDraft({ name: p.name, title: p.title ?? "" });
+                      }}
+                      className="text-xs text-brand-700 hover:underline"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(p.id)}
+                      disabled={saving}
+                      className="text-xs text-red-600 hover:underline disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+
+        <form onSubmit={handleAdd} className="flex flex-wrap gap-2">
+          <input
+            type="text"
+            placeholder="Name, e.g. Dana Whitfield"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className={`flex-1 min-w-[8rem] ${inputClass}`}
+          />
+          <input
+            type="text"
+            placeholder="Title (optional)"
+            value={draft.title}
+            onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+            className={`flex-1 min-w-[8rem] ${inputClass}`}
+          />
+          <button
+            type="submit"
+            disabled={saving || !draft.name.trim()}
+            className="bg-gray-900 text-white px-4 py-1.5 rounded-lg text-sm font-medium hover:bg-gray-700 disabled:opacity-50 transition-colors"
+          >
+            Add panelist
+          </button>
+        </form>
+      </div>
+    </details>
+  );
+}
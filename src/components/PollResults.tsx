@@ -0,0 +1,41 @@
+type PollResultsProps = {
+  options: { id: string; label: string; count: number }[];
+  responseCount: number;
+  /** The viewer's own answer, marked in the list. */
+  myOptionId?: string | null;
+};
+
+function percent(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 100) : 0;
+}
+
+/** Horizontal bar per option with its share of the answers. */
+export default function PollResults({ options, responseCount, myOptionId = null }: PollResultsProps) {
+  return (
+    <ul className="space-y-2">
+      {options.map((o) => {
+        const pct = percent(o.count, responseCount);
+        const mine = o.id === myOptionId;
+        return (
+          <li key={o.id}>
+            <div className="flex items-baseline justify-between gap-2 text-sm">
+              <span className={mine ? "font-semibold text-gray-900" : "text-gray-700"}>
+                {o.label}
+                {mine && <span className="ml-1.5 text-[10px] font-medium text-brand-700">Your answer</span>}
+              </span>
+              <span className="shrink-0 text-xs text-gray-500 tabular-nums">
+                {pct}% · {o.count}
+              </span>
+            </div>
+            <div className="mt-1 h-2 rounded-full bg-gray-100 overflow-hidden">
+              <div
+                className={`h-full rounded-full transition-all ${mine ? "bg-brand-500" : "bg-gray-400"}`}
+                style={{ width: `${pct}%` }}
+              />
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
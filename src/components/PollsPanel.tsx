@@ -0,0 +1,199 @@
+"use client";
+
+import { useState } from "react";
+import PollResults from "@/components/PollResults";
+import { MAX_POLL_OPTIONS, MIN_POLL_OPTIONS } from "@/lib/polls";
+import type { StreamPoll } from "@/lib/useEventStream";
+
+type PollsPanelProps = {
+  eventId: string;
+  polls: StreamPoll[];
+  onChanged: () => void;
+};
+
+const inputClass =
+  "border border-gray-300 rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-brand-400";
+
+const STATUS_BADGES: Record<StreamPoll["status"], { label: string; className: string }> = {
+  draft: { label: "Draft", className: "bg-gray-100 text-gray-600" },
+  open: { label: "Live", className: "bg-green-50 text-green-700" },
+  closed: { label: "Closed", className: "bg-gray-100 text-gray-500" },
+};
+
+function emptyOptions(): string[] {
+  return Array.from({ length: MIN_POLL_OPTIONS }, () => "");
+}
+
+/**
+ * Host list of the event's polls: write a draft, open it for answers, close
+ * it, and watch the results come in.
+ */
+export default function PollsPanel({ eventId, polls, onChanged }: PollsPanelProps) {
+  const [question, setQuestion] = useState("");
+  const [options, setOptions] = useState<string[]>(emptyOptions);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function send(url: string, method: "POST" | "PATCH" | "DELETE", body?: object): Promise<boolean> {
+    setError(null);
+    setSaving(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Failed to save the poll.");
+        return false;
+      }
+      onChanged();
+      return true;
+    } catch {
+      setError("Network error. Please try again.");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    const created = await send(`/api/events/${eventId}/polls`, "POST", {
+      question: question.trim(),
+      options: options.map((o) => o.trim()).filter(Boolean),
+    });
+    if (created) {
+      setQuestion("");
+      setOptions(emptyOptions());
+    }
+  }
+
+  function handleDelete(id: string) {
+    if (!confirm("Delete this poll and all of its answers?")) return;
+    send(`/api/polls/${id}`, "DELETE");
+  }
+
+  const liveCount = polls.filter((p) => p.status === "open").length;
+
+  return (
+    <details className="mb-6 rounded-xl border border-gray-200 bg-white shadow-sm">
+      <summary className="cursor-pointer select-none px-4 py-3 text-sm font-semibold text-gray-800">
+        Polls
+        {polls.length > 0 && (
+          <span className="ml-1 font-normal text-gray-400">
+            ({polls.length}{liveCount > 0 && `, ${liveCount} live`})
+          </span>
+        )}
+      </summary>
+      <div className="px-4 pb-4 space-y-3">
+        <p className="text-xs text-gray-500">
+          Drafts are only visible to hosts. Open a poll to show it on the public board; each
+          attendee gets one answer, which they can change until you close it.
+        </p>
+
+        {polls.length > 0 && (
+          <ul className="divide-y divide-gray-100 rounded-lg border border-gray-100">
+            {polls.map((p) => {
+              const badge = STATUS_BADGES[p.status];
+              return (
+                <li key={p.id} className="px-3 py-3 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className={`text-[10px] font-medium px-1.5 py-0.5 rounded ${badge.className}`}>
+                      {badge.label}
+                    </span>
+                    <span className="flex-1 min-w-0 font-medium text-gray-800">{p.question}</span>
+                    <span className="text-xs text-gray-400">
+                      {p.responseCount} {p.responseCount === 1 ? "answer" : "answers"}
+                    </span>
+                  </div>
+                  <PollResults options={p.options} responseCount={p.responseCount} />
+                  <div className="flex gap-3">
+                    {p.status === "open" ? (
+                      <button
+                        type="button"
+                        onClick={() => send(`/api/polls/${p.id}`, "PATCH", { status: "closed" })}
+                        disabled={saving}
+                        className="text-xs text-brand-700 hover:underline disabled:opacity-50"
+                      >
+                        Close
+                      </button>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => send(`/api/polls/${p.id}`, "PATCH", { status: "open" })}
+                        disabled={saving}
+                        className="text-xs text-brand-700 hover:underline disabled:opacity-50"
+                      >
+                        {p.status === "draft" ? "Open" : "Reopen"}
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(p.id)}
+                      disabled={saving}
+                      className="text-xs text-red-600 hover:underline disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+
+        <form onSubmit={handleCreate} className="space-y-2">
+          <input
+            type="text"
+            placeholder="Poll question, e.g. Which topic should we cover next?"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            className={`w-full ${inputClass}`}
+          />
+          {options.map((option, i) => (
+            <div key={i} className="flex gap-2">
+              <input
+                type="text"
+                placeholder={`Option ${i + 1}`}
+                value={option}
+                onChange={(e) => setOptions(options.map((o, j) => (j === i ? e.target.value : o)))}
+                className={`flex-1 ${inputClass}`}
+              />
+              {options.length > MIN_POLL_OPTIONS && (
+                <button
+                  type="button"
+                  onClick={() => setOptions(options.filter((_, j) => j !== i))}
+                  className="text-xs text-gray-500 hover:underline"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          ))}
+          <div className="flex items-center gap-3">
+            {options.length < MAX_POLL_OPTIONS && (
+              <button
+                type="button"
+                onClick={() => setOptions([...options, ""])}
+                className="text-xs text-brand-700 hover:underline"
+              >
+                + Add option
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={saving || !question.trim()}
+              className="ml-auto bg-gray-900 text-white px-4 py-1.5 rounded-lg text-sm font-medium hover:bg-gray-700 disabled:opacity-50 transition-colors"
+            >
+              Save draft
+            </button>
+          </div>
+        </form>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useState } from "react";
+
+type QueuedQuestion = { id: string; text: string; score: number };
+
+type PresenterQueuePanelProps = {
+  /** Open questions in queue order; answered and hidden ones are left out. */
+  queued: QueuedQuestion[];
+  saving: boolean;
+  error: string | null;
+  /** Saves the whole queue in the given order. */
+  onChange: (questionIds: string[]) => void;
+};
+
+/** Drag data type carrying a question id, set by the moderation list and by queue rows. */
+export const QUEUE_DRAG_TYPE = "application/x-ama-question-id";
+
+/**
+ * Host run-of-show for the presenter view's Queue mode. Questions are dragged
+ * in from the open list (or added from their menu) and dragged or stepped
+ * into order; vote counts do not move them.
+ */
+export default function PresenterQueuePanel({ queued, saving, error, onChange }: PresenterQueuePanelProps) {
+  // Row a dragged question would be dropped in front of; queued.length means the end
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const ids = queued.map((q) => q.id);
+
+  function place(questionId: string, at: number) {
+    const next = ids.filter((id) => id !== questionId);
+    const from = ids.indexOf(questionId);
+    next.splice(from !== -1 && from < at ? at - 1 : at, 0, questionId);
+    if (next.join() !== ids.join()) onChange(next);
+  }
+
+  function move(index: number, by: 1 | -1) {
+    const next = [...ids];
+    [next[index], next[index + by]] = [next[index + by], next[index]];
+    onChange(next);
+  }
+
+  function dragOver(e: React.DragEvent, at: number) {
+    if (!e.dataTransfer.types.includes(QUEUE_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = "move";
+    setDropIndex(at);
+  }
+
+  function drop(e: React.DragEvent, at: number) {
+    const questionId = e.dataTransfer.getData(QUEUE_DRAG_TYPE);
+    setDropIndex(null);
+    if (!questionId) return;
+    e.preventDefault();
+    e.stopPropagation();
+    place(questionId, at);
+  }
+
+  return (
+    <details className="mb-6 rounded-xl border border-gray-200 bg-white shadow-sm">
+      <summary
+        className="cursor-pointer select-none px-4 py-3 text-sm font-semibold text-gray-800"
+        onDragOver={(e) => dragOver(e, queued.length)}
+        onDragLeave={() => setDropIndex(null)}
+        onDrop={(e) => drop(e, queued.length)}
+      >
+        Presenter queue
+        {queued.length > 0 && <span className="ml-1 font-normal text-gray-400">({queued.length})</span>}
+      </summary>
+      <div className="px-4 pb-4 space-y-3">
+        <p className="text-xs text-gray-500">
+          Drag open questions here to plan what gets asked next, then drag to reorder. Switch the
+          presenter view to Queue to step through them in this order. Answered questions drop off.
+        </p>
+
+        <ol
+          onDragOver={(e) => dragOver(e, queued.length)}
+          onDragLeave={() => setDropIndex(null)}
+          onDrop={(e) => drop(e, queued.length)}
+          className={`rounded-lg border divide-y divide-gray-100 transition-colors ${
+            dropIndex !== null ? "border-brand-400 bg-brand-50/40" : "border-gray-100"
+          }`}
+        >
+          {queued.length === 0 && (
+            <li className="px-3 py-6 text-center text-sm text-gray-400">Drop questions here.</li>
+          )}
+          {queued.map((q, i) => (
+            <li
+              key={q.id}
+              draggable={!saving}
+              onDragStart={(e) => {
+                e.dataTransfer.setData(QUEUE_DRAG_TYPE, q.id);
+                e.dataTransfer.effectAllowed = "move";
+              }}
+              onDragEnd={() => setDropIndex(null)}
+              onDragOver={(e) => dragOver(e, i)}
+              onDrop={(e) => drop(e, i)}
+              className={`flex items-center gap-2 px-3 py-2 text-sm bg-white cursor-grab ${
+                dropIndex === i ? "border-t-2 border-t-brand-500" : ""
+              }`}
+            >
+              <span className="w-5 shrink-0 text-xs text-gray-400 tabular-nums">{i + 1}.</span>
+              <span className="flex-1 min-w-0 text-gray-800">{q.text}</span>
+              <span className="shrink-0 text-xs text-gray-400 tabular-nums">{q.score}</span>
+              <button
+                onClick={() => move(i, -1)}
+                disabled={saving || i === 0}
+                className="shrink-0 px-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                title="Move up"
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => move(i, 1)}
+                disabled={saving || i === queued.length - 1}
+                className="shrink-0 px-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                title="Move down"
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => onChange(ids.filter((id) => id !== q.id))}
+                disabled={saving}
+                className="shrink-0 text-xs text-red-600 hover:underline disabled:opacity-50"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ol>
+
+        {queued.length > 0 && (
+          <button
+            onClick={() => onChange([])}
+            disabled={saving}
+            className="px-3 py-1.5 text-xs text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 font-medium disabled:opacity-50 transition-colors"
+          >
+            Clear queue
+          </button>
+        )}
+
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatDuration } from "@/lib/sessionTimer";
+
+type TimedQuestion = {
+  id: string;
+  text: string;
+  status: "OPEN" | "ANSWERED";
+  isDeleted: boolean;
+  firstStartedAt: string;
+  totalSec: number;
+};
+
+type Timings = {
+  startsAt: string | null;
+  durationMinutes: number | null;
+  questionLimitMinutes: number | null;
+  firstStartedAt: string | null;
+  lastEndedAt: string | null;
+  totalSec: number;
+  questions: TimedQuestion[];
+};
+
+/**
+ * Analytics on how the session's time was spent: each question's time on the
+ * presenter's screen, in the order they were taken, against the soft limit
+ * and the planned length.
+ */
+export default function QuestionTimings({ eventId }: { eventId: string }) {
+  const [timings, setTimings] = useState<Timings | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/events/${eventId}/timings`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) {
+          setError(data.error ?? "Failed to load question timings.");
+          return;
+        }
+        setTimings(data);
+      })
+      .catch(() => setError("Network error. Please try again."));
+  }, [eventId]);
+
+  if (error) return <p className="text-red-500 text-sm">{error}</p>;
+  if (!timings) return <p className="text-gray-400 text-sm">Loading...</p>;
+
+  const { questions, questionLimitMinutes, durationMinutes } = timings;
+  const limitSec = questionLimitMinutes ? questionLimitMinutes * 60 : null;
+  const overLimit = limitSec ? questions.filter((q) => q.totalSec > limitSec).length : 0;
+  const averageSec = questions.length > 0 ? Math.round(timings.totalSec / questions.length) : 0;
+  // From the first question on screen to the last one leaving it (or now, while presenting)
+  const ranSec = timings.firstStartedAt
+    ? Math.round(
+        ((timings.lastEndedAt ? new Date(timings.lastEndedAt).getTime() : Date.now()) -
+          new Date(timings.firstStartedAt).getTime()) /
+          1000
+      )
+    : null;
+
+  return (
+    <div className="space-y-3">
+      <h2 className="text-sm font-semibold text-gray-800">Time per question</h2>
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+        {[
+          { label: "Time on Screen", value: formatDuration(timings.totalSec) },
+          { label: "Questions Shown", value: questions.length },
+          { label: "Average per Question", value: formatDuration(averageSec) },
+          ...(ranSec !== null
+            ? [
+                {
+                  label: durationMinutes ? `Ran (planned ${durationMinutes} min)` : "Ran",
+                  value: formatDuration(ranSec),
+                },
+              ]
+            : []),
+          ...(limitSec ? [{ label: `Over the ${questionLimitMinutes} min Limit`, value: overLimit }] : []),
+        ].map(({ label, value }) => (
+          <div key={label} className="bg-white rounded-xl border border-gray-200 shadow-sm p-4">
+            <p className="text-2xl font-bold text-gray-900">{value}</p>
+            <p className="text-xs text-gray-500 mt-1">{label}</p>
+          </div>
+        ))}
+      </div>
+
+      {questions.length === 0 ? (
+        <p className="text-sm text-gray-400">
+          Nothing recorded yet. Times are logged while the presenter view is on air.
+        </p>
+      ) : (
+        <ol className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white shadow-sm">
+          {questions.map((q, i) => {
+            const over = limitSec !== null && q.totalSec > limitSec;
+            return (
+              <li key={q.id} className="flex items-start gap-3 px-4 py-2.5 text-sm">
+                <span className="w-5 shrink-0 text-xs text-gray-400 tabular-nums">{i + 1}.</span>
+                <span className="flex-1 min-w-0 text-gray-800">
+                  {q.text}
+                  {q.isDeleted && <span className="ml-1 text-xs text-gray-400">(deleted)</span>}
+                  {q.status === "OPEN" && !q.isDeleted && (
+                    <span className="ml-1 text-xs text-gray-400">(still open)</span>
+                  )}
+                </span>
+                <span
+                  className={`shrink-0 tabular-nums ${over ? "font-medium text-red-600" : "text-gray-500"}`}
+                  title={over ? "Over the soft limit" : undefined}
+                >
+                  {formatDuration(q.totalSec)}
+                </span>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type Scope = "question" | "vote";
+type Rule = { limit: number; windowSec: number; isDefault: boolean };
+type Limits = Record<Scope, Rule> & {
+  defaults: Record<Scope, { limit: number; windowSec: number }>;
+};
+type Draft = Record<Scope, { limit: string; windowMin: string }>;
+
+const LABELS: Record<Scope, string> = {
+  question: "Questions",
+  vote: "Votes",
+};
+
+function toDraft(limits: Limits): Draft {
+  return {
+    question: {
+      limit: String(limits.question.limit),
+      windowMin: String(limits.question.windowSec / 60),
+    },
+    vote: {
+      limit: String(limits.vote.limit),
+      windowMin: String(limits.vote.windowSec / 60),
+    },
+  };
+}
+
+/** Admin per-event rate limits for question submission and voting. */
+export default function RateLimitPanel({ eventId }: { eventId: string }) {
+  const [limits, setLimits] = useState<Limits | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/admin/events/${eventId}/rate-limits`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: Limits | null) => {
+        if (!data) return;
+        setLimits(data);
+        setDraft(toDraft(data));
+      })
+      .catch(() => {});
+  }, [eventId]);
+
+  async function save(body: Partial<Record<Scope, { limit: number; windowSec: number } | null>>) {
+    setError(null);
+    setSaved(false);
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/admin/events/${eventId}/rate-limits`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Failed to save limits.");
+        return;
+      }
+      setLimits(data);
+      setDraft(toDraft(data));
+      setSaved(true);
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function handleSave() {
+    if (!draft) return;
+    save({
+      question: {
+        limit: Number(draft.question.limit),
+        windowSec: Math.round(Number(draft.question.windowMin) * 60),
+      },
+      vote: {
+        limit: Number(draft.vote.limit),
+        windowSec: Math.round(Number(draft.vote.windowMin) * 60),
+      },
+    });
+  }
+
+  return (
+    <details className="mb-6 rounded-xl border border-gray-200 bg-white shadow-sm">
+      <summary className="cursor-pointer select-none px-4 py-3 text-sm font-semibold text-gray-800">
+        Rate limits
+      </summary>
+      <div className="px-4 pb-4 space-y-3">
+        <p className="text-xs text-gray-500">
+          Per attendee. Each network address gets 20× the allowance, so a shared office
+          connection is not throttled as one person.
+        </p>
+        {!limits || !draft ? (
+          <p className="text-sm text-gray-400">Loading...</p>
+        ) : (
+          <>
+            {(["question", "vote"] as const).map((scope) => (
+              <div key={scope} className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+                <span className="w-20 font-medium">{LABELS[scope]}</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={draft[scope].limit}
+                  onChange={(e) =>
+                    setDraft({ ...draft, [scope]: { ...draft[scope], limit: e.target.value } })
+                  }
+                  className="w-20 border border-gray-300 rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-brand-400"
+                />
+                <span>per</span>
+                <input
+                  type="number"
+                  min={1}
+                  step="any"
+                  value={draft[scope].windowMin}
+                  onChange={(e) =>
+                    setDraft({ ...draft, [scope]: { ...draft[scope], windowMin: e.target.value } })
+                  }
+                  className="w-20 border border-gray-300 rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-brand-400"
+                />
+                <span>min</span>
+                {limits[scope].isDefault ? (
+                  <span className="text-xs text-gray-400">(default)</span>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => save({ [scope]: null })}
+                    disabled={saving}
+                    className="text-xs text-brand-700 hover:underline disabled:opacity-50"
+                  >
+                    Reset to default ({limits.defaults[scope].limit} per{" "}
+                    {limits.defaults[scope].windowSec / 60} min)
+                  </button>
+                )}
+              </div>
+            ))}
+
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+            {saved && <p className="text-green-700 text-sm">Limits saved.</p>}
+
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="bg-gray-900 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-gray-700 disabled:opacity-50 transition-colors"
+            >
+              {saving ? "Saving..." : "Save limits"}
+            </button>
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,179 @@
+"use client";
+
+import { useCallback, useEffect, useState, FormEvent } from "react";
+
+type Match = "word" | "regex" | "email" | "phone" | "employee_id";
+type Action = "block" | "hide" | "flag";
+
+type Rule = {
+  id: string;
+  match: Match;
+  pattern: string | null;
+  action: Action;
+};
+
+const MATCH_LABELS: Record<Match, string> = {
+  word: "Words",
+  regex: "Custom regex",
+  email: "Email addresses",
+  phone: "Phone numbers",
+  employee_id: "Employee IDs",
+};
+
+const ACTION_LABELS: Record<Action, string> = {
+  block: "Block",
+  hide: "Hide for review",
+  flag: "Flag",
+};
+
+const ACTION_BADGES: Record<Action, string> = {
+  block: "bg-red-50 text-red-700",
+  hide: "bg-gray-100 text-gray-700",
+  flag: "bg-amber-50 text-amber-800",
+};
+
+const PATTERN_PLACEHOLDERS: Partial<Record<Match, string>> = {
+  word: "one or more words, comma-separated",
+  regex: "e.g. \\bproject\\s+falcon\\b",
+  employee_id: "optional — defaults to E12345 / EMP-12345",
+};
+
+const inputClass =
+  "border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-400";
+
+/**
+ * Lists and edits content-screening rules (lib/screening.ts). Without an
+ * eventId it manages the global rules that apply to every event.
+ */
+export default function ScreeningRulesEditor({ eventId }: { eventId?: string }) {
+  const [rules, setRules] = useState<Rule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [match, setMatch] = useState<Match>("word");
+  const [pattern, setPattern] = useState("");
+  const [action, setAction] = useState<Action>("hide");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    const res = await fetch(`/api/admin/screening-rules${eventId ? `?eventId=${eventId}` : ""}`);
+    if (res.ok) setRules(await res.json());
+    setLoading(false);
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  async function handleAdd(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setSaving(true);
+    try {
+      const res = await fetch("/api/admin/screening-rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ eventId, match, pattern, action }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Failed to add rule.");
+        return;
+      }
+      setPattern("");
+      await fetchRules();
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function removeRule(id: string) {
+    setError(null);
+    const res = await fetch("/api/admin/screening-rules", {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id }),
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      setError(data.error ?? "Failed to remove rule.");
+    }
+    await fetchRules();
+  }
+
+  const needsPattern = match === "word" || match === "regex";
+
+  return (
+    <div className="space-y-3">
+      {loading ? (
+        <p className="text-sm text-gray-400">Loading...</p>
+      ) : rules.length === 0 ? (
+        <p className="text-sm text-gray-400">No rules yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 rounded-lg border border-gray-100">
+          {rules.map((rule) => (
+            <li key={rule.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+              <span className={`text-[10px] font-medium px-1.5 py-0.5 rounded ${ACTION_BADGES[rule.action]}`}>
+                {ACTION_LABELS[rule.action]}
+              </span>
+              <span className="text-gray-500">{MATCH_LABELS[rule.match]}</span>
+              {rule.pattern && (
+                <code className="flex-1 min-w-0 truncate text-xs text-gray-800">{rule.pattern}</code>
+              )}
+              <button
+                type="button"
+                onClick={() => removeRule(rule.id)}
+                className="ml-auto text-xs text-red-600 hover:underline"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-2">
+        <select
+          value={match}
+          onChange={(e) => {
+            setMatch(e.target.value as Match);
+            setPattern("");
+          }}
+          className={inputClass}
+        >
+          {(Object.keys(MATCH_LABELS) as Match[]).map((m) => (
+            <option key={m} value={m}>
+              {MATCH_LABELS[m]}
+            </option>
+          ))}
+        </select>
+        {PATTERN_PLACEHOLDERS[match] && (
+          <input
+            type="text"
+            required={needsPattern}
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value)}
+            placeholder={PATTERN_PLACEHOLDERS[match]}
+            className={`${inputClass} flex-1 min-w-[12rem]`}
+          />
+        )}
+        <select value={action} onChange={(e) => setAction(e.target.value as Action)} className={inputClass}>
+          {(Object.keys(ACTION_LABELS) as Action[]).map((a) => (
+            <option key={a} value={a}>
+              {ACTION_LABELS[a]}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={saving}
+          className="bg-gray-900 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-gray-700 disabled:opacity-50 transition-colors"
+        >
+          {saving ? "Adding..." : "Add rule"}
+        </button>
+      </form>
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { MAX_DURATION_MINUTES, MAX_QUESTION_LIMIT_MINUTES, type TimerSettings } from "@/lib/sessionTimer";
+
+type SessionTimerPanelProps = {
+  startsAt: string | null;
+  durationMinutes: number | null;
+  questionLimitMinutes: number | null;
+  /** Persists the settings; throws on failure. */
+  onSave: (settings: TimerSettings) => Promise<void>;
+};
+
+const inputClass =
+  "w-24 border border-gray-300 rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-brand-400";
+
+// "" clears the setting; anything else must be a whole number of minutes
+function parseMinutes(value: string, max: number): number | null | undefined {
+  if (!value.trim()) return null;
+  const minutes = Number(value);
+  return Number.isInteger(minutes) && minutes >= 1 && minutes <= max ? minutes : undefined;
+}
+
+/**
+ * Host settings for the presenter view's clocks: the session length, which
+ * with the start time gives the countdown to the hard stop, and an optional
+ * soft limit per question.
+ */
+export default function SessionTimerPanel({
+  startsAt,
+  durationMinutes,
+  questionLimitMinutes,
+  onSave,
+}: SessionTimerPanelProps) {
+  const [duration, setDuration] = useState(durationMinutes?.toString() ?? "");
+  const [limit, setLimit] = useState(questionLimitMinutes?.toString() ?? "");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  // Pick up the event once it loads, and changes made in another console
+  useEffect(() => setDuration(durationMinutes?.toString() ?? ""), [durationMinutes]);
+  useEffect(() => setLimit(questionLimitMinutes?.toString() ?? ""), [questionLimitMinutes]);
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setSaved(false);
+    const settings = {
+      durationMinutes: parseMinutes(duration, MAX_DURATION_MINUTES),
+      questionLimitMinutes: parseMinutes(limit, MAX_QUESTION_LIMIT_MINUTES),
+    };
+    if (settings.durationMinutes === undefined) {
+      setError(`Session length must be a whole number of minutes, up to ${MAX_DURATION_MINUTES}.`);
+      return;
+    }
+    if (settings.questionLimitMinutes === undefined) {
+      setError(`The per-question limit must be a whole number of minutes, up to ${MAX_QUESTION_LIMIT_MINUTES}.`);
+      return;
+    }
+    setSaving(true);
+    try {
+      await onSave(settings);
+      setSaved(true);
+    } catch {
+      setError("Failed to save the timer settings.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <details className="mb-6 rounded-xl border border-gray-200 bg-white shadow-sm">
+      <summary className="cursor-pointer select-none px-4 py-3 text-sm font-semibold text-gray-800">
+        Session timer
+        {durationMinutes && <span className="ml-1 font-normal text-gray-400">({durationMinutes} min)</span>}
+      </summary>
+      <form onSubmit={handleSave} className="px-4 pb-4 space-y-3">
+        <p className="text-xs text-gray-500">
+          The presenter view counts down to the start time plus the session length, and times each
+          question while it is on screen, turning amber near the soft limit and red past it. Leave a
+          field empty to turn it off.
+        </p>
+        {!startsAt && (
+          <p className="text-xs text-amber-700">This event has no start time, so there is no countdown.</p>
+        )}
+        <div className="flex flex-wrap items-end gap-4">
+          <label className="text-xs text-gray-600 space-y-1">
+            <span className="block font-medium">Session length (minutes)</span>
+            <input
+              type="number"
+              min={1}
+              max={MAX_DURATION_MINUTES}
+              value={duration}
+              onChange={(e) => setDuration(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className="text-xs text-gray-600 space-y-1">
+            <span className="block font-medium">Soft limit per question (minutes)</span>
+            <input
+              type="number"
+              min={1}
+              max={MAX_QUESTION_LIMIT_MINUTES}
+              value={limit}
+              onChange={(e) => setLimit(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-3 py-1.5 text-xs bg-gray-900 text-white rounded-lg hover:bg-gray-700 font-medium disabled:opacity-50 transition-colors"
+          >
+            {saving ? "Saving..." : "Save"}
+          </button>
+          {saved && <span className="text-xs text-green-700">Saved</span>}
+        </div>
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+      </form>
+    </details>
+  );
+}
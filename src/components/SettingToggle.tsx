@@ -0,0 +1,55 @@
+type SettingToggleProps = {
+  label: string;
+  description: string;
+  isOn: boolean;
+  onChange: (isOn: boolean) => void;
+  disabled?: boolean;
+  onText?: string;
+  offText?: string;
+  title?: string;
+};
+
+/** A labelled on/off switch card, as used for event settings in the host consoles. */
+export default function SettingToggle({
+  label,
+  description,
+  isOn,
+  onChange,
+  disabled = false,
+  onText = "ON",
+  offText = "OFF",
+  title,
+}: SettingToggleProps) {
+  return (
+    <div className="flex items-center justify-between rounded-xl border border-gray-200 bg-white shadow-sm px-4 py-3">
+      <div>
+        <p className="text-sm font-semibold text-gray-800">{label}</p>
+        <p className="text-xs text-gray-500 mt-0.5">{description}</p>
+      </div>
+      <button
+        type="button"
+        onClick={() => onChange(!isOn)}
+        disabled={disabled}
+        className={`relative inline-flex h-6 w-11 shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 focus:outline-none disabled:opacity-50 ${
+          isOn ? "bg-gray-900" : "bg-gray-300"
+        }`}
+        role="switch"
+        aria-checked={isOn}
+        title={title}
+      >
+        <span
+          className={`inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0 transition duration-200 ${
+            isOn ? "translate-x-5" : "translate-x-0"
+          }`}
+        />
+      </button>
+      <span
+        className={`ml-3 text-xs font-semibold shrink-0 ${
+          isOn ? "text-brand-700" : "text-gray-500"
+        }`}
+      >
+        {isOn ? onText : offText}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type SuspiciousVote = {
+  id: string;
+  value: number;
+  network: string | null;
+  voterIssuedAt: string | null;
+  createdAt: string;
+  reason: string;
+};
+
+type Group = {
+  question: { id: string; text: string };
+  votes: SuspiciousVote[];
+};
+
+const POLL_MS = 15_000;
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString([], { hour: "numeric", minute: "2-digit", second: "2-digit" });
+}
+
+/** Admin review of votes flagged by lib/voteAnomaly.ts: discard or keep them. */
+export default function SuspiciousVotesPanel({
+  eventId,
+  onChanged,
+}: {
+  eventId: string;
+  onChanged: () => void;
+}) {
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchGroups = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/admin/events/${eventId}/suspicious-votes`);
+      if (!res.ok) return;
+      const data = await res.json();
+      setGroups(data.groups);
+    } catch {
+      // Next poll will retry
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchGroups();
+    const id = setInterval(fetchGroups, POLL_MS);
+    return () => clearInterval(id);
+  }, [fetchGroups]);
+
+  async function review(action: "discard" | "dismiss", voteIds: string[], key: string) {
+    setError(null);
+    setBusy(key);
+    try {
+      const res = await fetch(`/api/admin/events/${eventId}/suspicious-votes`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, voteIds }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setError(data.error ?? "Failed to update votes.");
+        return;
+      }
+      await fetchGroups();
+      if (action === "discard") onChanged();
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const total = groups.reduce((sum, g) => sum + g.votes.length, 0);
+
+  return (
+    <details className="mb-6 rounded-xl border border-gray-200 bg-white shadow-sm">
+      <summary className="cursor-pointer select-none px-4 py-3 text-sm font-semibold text-gray-800">
+        Suspicious votes
+        {total > 0 && (
+          <span className="ml-1.5 bg-amber-100 text-amber-800 text-xs px-1.5 py-0.5 rounded-full">
+            {total}
+          </span>
+        )}
+      </summary>
+      <div className="px-4 pb-4 space-y-4">
+        <p className="text-xs text-gray-500">
+          Votes from bursts of brand-new voter IDs on one network — usually one person voting
+          again from private windows. Flagged votes still count until discarded.
+        </p>
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+        {groups.length === 0 ? (
+          <p className="text-sm text-gray-400">Nothing flagged.</p>
+        ) : (
+          groups.map((group) => {
+            const ids = group.votes.map((v) => v.id);
+            const up = group.votes.filter((v) => v.value > 0).length;
+            const down = group.votes.length - up;
+            return (
+              <div key={group.question.id} className="rounded-lg border border-gray-100 p-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 leading-snug">{group.question.text}</p>
+                    <p className="text-xs text-gray-400 mt-0.5">
+                      {group.votes.length} flagged vote{group.votes.length !== 1 ? "s" : ""} (+{up} / −{down})
+                    </p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      type="button"
+                      onClick={() => review("discard", ids, group.question.id)}
+                      disabled={busy !== null}
+                      className="bg-red-600 text-white px-3 py-1 rounded-md text-xs font-medium hover:bg-red-700 disabled:opacity-50 transition-colors"
+                    >
+                      Discard all
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => review("dismiss", ids, group.question.id)}
+                      disabled={busy !== null}
+                      className="border border-gray-300 text-gray-700 px-3 py-1 rounded-md text-xs font-medium hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                    >
+                      Keep all
+                    </button>
+                  </div>
+                </div>
+                <ul className="mt-2 divide-y divide-gray-50 text-xs text-gray-500">
+                  {group.votes.map((v) => (
+                    <li key={v.id} className="flex items-center justify-between gap-3 py-1.5">
+                      <span title={v.reason}>
+                        <span className={v.value > 0 ? "text-green-700" : "text-red-600"}>
+                          {v.value > 0 ? "▲ up" : "▼ down"}
+                        </span>{" "}
+                        · network {v.network ?? "unknown"} · voted {formatTime(v.createdAt)}
+                        {v.voterIssuedAt && <> · ID issued {formatTime(v.voterIssuedAt)}</>}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => review("discard", [v.id], v.id)}
+                        disabled={busy !== null}
+                        className="text-red-600 hover:underline disabled:opacity-50"
+                      >
+                        Discard
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import { useState } from "react";
+import type { StreamTopic } from "@/lib/useEventStream";
+
+type TopicsPanelProps = {
+  eventId: string;
+  topics: StreamTopic[];
+  onChanged: () => void;
+};
+
+const inputClass =
+  "border border-gray-300 rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-brand-400";
+
+/** Admin list of an event's topics: add, rename and remove. */
+export default function TopicsPanel({ eventId, topics, onChanged }: TopicsPanelProps) {
+  const [name, setName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function send(method: "POST" | "PATCH" | "DELETE", body: Record<string, string>): Promise<boolean> {
+    setError(null);
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/admin/events/${eventId}/topics`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Failed to save topics.");
+        return false;
+      }
+      onChanged();
+      return true;
+    } catch {
+      setError("Network error. Please try again.");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    if (await send("POST", { name: name.trim() })) setName("");
+  }
+
+  async function handleRename(id: string) {
+    if (await send("PATCH", { id, name: editName.trim() })) setEditingId(null);
+  }
+
+  function handleRemove(id: string) {
+    if (!confirm("Remove this topic? Questions filed under it become untagged.")) return;
+    send("DELETE", { id });
+  }
+
+  return (
+    <details className="mb-6 rounded-xl border border-gray-200 bg-white shadow-sm">
+      <summary className="cursor-pointer select-none px-4 py-3 text-sm font-semibold text-gray-800">
+        Topics{topics.length > 0 && <span className="ml-1 font-normal text-gray-400">({topics.length})</span>}
+      </summary>
+      <div className="px-4 pb-4 space-y-3">
+        <p className="text-xs text-gray-500">
+          Askers can file their question under a topic, and everyone can filter the board by
+          one. Removing a topic leaves its questions untagged.
+        </p>
+
+        {topics.length > 0 && (
+          <ul className="divide-y divide-gray-100 rounded-lg border border-gray-100">
+            {topics.map((topic) => (
+              <li key={topic.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                {editingId === topic.id ? (
+                  <>
+                    <input
+                      type="text"
+                      autoFocus
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") handleRename(topic.id);
+                        if (e.key === "Escape") setEditingId(null);
+                      }}
+                      className={`flex-1 ${inputClass}`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => handleRename(topic.id)}
+                      disabled={saving || !editName.trim()}
+                      className="text-xs text-brand-700 hover:underline disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditingId(null)}
+                      className="text-xs text-gray-500 hover:underline"
+                    >
+                      Cancel
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <span className="flex-1 text-gray-800">{topic.name}</span>
+                    <button
+                      type="button"
+                      onClick={() => { setEditingId(topic.id); setEditName(topic.name); }}
+                      className="text-xs text-brand-700 hover:underline"
+                    >
+                      Rename
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(topic.id)}
+                      disabled={saving}
+                      className="text-xs text-red-600 hover:underline disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <input
+            type="text"
+            placeholder="New topic, e.g. Benefits"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={`flex-1 ${inputClass}`}
+          />
+          <button
+            type="submit"
+            disabled={saving || !name.trim()}
+            className="bg-gray-900 text-white px-4 py-1.5 rounded-lg text-sm font-medium hover:bg-gray-700 disabled:opacity-50 transition-colors"
+          >
+            Add topic
+          </button>
+        </form>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,168 @@
+/**
+ * Audit trail for moderation and event changes. Every admin and host
+ * mutation route records who did what to which question, comment, poll,
+ * event, screening rule, vote, topic, panelist, co-host, import or admin
+ * account, with the changed fields before and after, so a question that
+ * "disappears" can be traced back to the person who hid it.
+ */
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getAdminSession } from "@/lib/session";
+import { getVoterId } from "@/lib/voter";
+import type { EventAccess } from "@/lib/eventAccess";
+
+type CookieReader = { get(name: string): { value: string } | undefined };
+
+export const AUDIT_ACTIONS = [
+  "question.answered",
+  "question.reopened",
+  "question.answer_edited",
+  "question.hidden",
+  "question.unhidden",
+  "question.pinned",
+  "question.unpinned",
+  "question.approved",
+  "question.rejected",
+  "question.unflagged",
+  "question.deleted",
+  "question.restored",
+  "question.merged",
+  "question.retagged",
+  "questions.imported",
+  "comment.hidden",
+  "comment.unhidden",
+  "comment.approved",
+  "comment.rejected",
+  "poll.created",
+  "poll.opened",
+  "poll.closed",
+  "poll.deleted",
+  "event.updated",
+  "event.closed",
+  "event.deleted",
+  "event.restored",
+  "event.rate_limits_changed",
+  "screening_rule.created",
+  "screening_rule.deleted",
+  "vote.discarded",
+  "vote.dismissed",
+  "topic.created",
+  "topic.renamed",
+  "topic.deleted",
+  "panelist.created",
+  "panelist.updated",
+  "panelist.deleted",
+  "cohost.invite_reset",
+  "cohost.invite_disabled",
+  "cohost.removed",
+  "admin_user.created",
+  "admin_user.updated",
+  "admin_user.deleted",
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export type AuditTargetType =
+  | "question"
+  | "comment"
+  | "poll"
+  | "event"
+  | "screening_rule"
+  | "vote"
+  | "topic"
+  | "panelist"
+  | "cohost"
+  | "import"
+  | "admin_user";
+
+export type AuditEntryInput = {
+  /** null for site-wide changes, such as global screening rules and admin accounts */
+  eventId: string | null;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+};
+
+type Actor = { kind: NonNullable<EventAccess>; id: string | null; name: string };
+
+async function resolveActor(
+  cookies: CookieReader,
+  access: NonNullable<EventAccess>,
+  eventId: string | null
+): Promise<Actor> {
+  if (access === "admin") {
+    const session = await getAdminSession(cookies);
+    const user = session
+      ? await prisma.adminUser.findUnique({ where: { id: session.userId } })
+      : null;
+    return { kind: access, id: user?.id ?? null, name: user?.name ?? user?.email ?? "Admin" };
+  }
+
+  const voterId = await getVoterId(cookies);
+  if (access === "cohost" && voterId && eventId) {
+    const coHost = await prisma.eventCoHost.findUnique({
+      where: { eventId_voterId: { eventId, voterId } },
+    });
+    if (coHost) return { kind: access, id: voterId, name: coHost.name };
+  }
+  const event = eventId
+    ? await prisma.event.findUnique({ where: { id: eventId }, select: { hostName: true } })
+    : null;
+  return { kind: access, id: voterId, name: event?.hostName ?? "Host" };
+}
+
+// Dates and other non-JSON values become their JSON form
+function toJson(value: Record<string, unknown> | null | undefined): Prisma.InputJsonValue | undefined {
+  return value ? (JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue) : undefined;
+}
+
+/**
+ * The fields of `after` whose values differ from `before`, as a before/after
+ * pair. Routes pass the row they loaded and the data they wrote.
+ */
+export function auditDiff(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): { before: Record<string, unknown>; after: Record<string, unknown> } {
+  const diff = { before: {} as Record<string, unknown>, after: {} as Record<string, unknown> };
+  for (const [key, value] of Object.entries(after)) {
+    if (JSON.stringify(before[key] ?? null) === JSON.stringify(value ?? null)) continue;
+    diff.before[key] = before[key] ?? null;
+    diff.after[key] = value ?? null;
+  }
+  return diff;
+}
+
+/**
+ * Writes an audit entry for a change that has already been made. A failed
+ * write is not thrown: the change is already committed, and an error response
+ * would tell the client it failed and invite a retry of something that
+ * happened. Instead the whole entry goes to the error log, so it can be
+ * restored by hand.
+ */
+export async function recordAudit(
+  cookies: CookieReader,
+  access: NonNullable<EventAccess>,
+  entry: AuditEntryInput
+): Promise<void> {
+  try {
+    const actor = await resolveActor(cookies, access, entry.eventId);
+    await prisma.auditEntry.create({
+      data: {
+        eventId: entry.eventId,
+        actorKind: actor.kind,
+        actorId: actor.id,
+        actorName: actor.name,
+        action: entry.action,
+        targetType: entry.targetType,
+        targetId: entry.targetId,
+        before: toJson(entry.before),
+        after: toJson(entry.after),
+      },
+    });
+  } catch (err) {
+    console.error("Failed to write audit entry", JSON.stringify({ ...entry, actorKind: access }), err);
+  }
+}
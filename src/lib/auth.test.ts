@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  can,
+  createSessionToken,
+  signValue,
+  verifySessionToken,
+  verifySignedValue,
+  verifySitePassword,
+} from "@/lib/auth";
+
+const SECRET = "test-secret-at-least-16-chars";
+
+beforeEach(() => {
+  vi.stubEnv("ADMIN_SESSION_SECRET", SECRET);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.useRealTimers();
+});
+
+describe("can", () => {
+  it("lets owners do everything", () => {
+    expect(can("owner", "users:manage")).toBe(true);
+    expect(can("owner", "events:delete")).toBe(true);
+  });
+
+  it("keeps presenters to presenting", () => {
+    expect(can("presenter", "questions:answer")).toBe(true);
+    expect(can("presenter", "questions:moderate")).toBe(false);
+    expect(can("presenter", "events:manage")).toBe(false);
+  });
+
+  it("does not let moderators delete events or manage users", () => {
+    expect(can("moderator", "questions:moderate")).toBe(true);
+    expect(can("moderator", "events:delete")).toBe(false);
+    expect(can("moderator", "users:manage")).toBe(false);
+  });
+});
+
+describe("session tokens", () => {
+  it("round-trips a valid token", async () => {
+    const token = await createSessionToken({ kind: "admin", sid: "s1", sub: "u1", role: "owner" }, 60);
+    const payload = await verifySessionToken(token, "admin");
+    expect(payload).toMatchObject({ kind: "admin", sid: "s1", sub: "u1", role: "owner" });
+  });
+
+  it("rejects a token of the other kind", async () => {
+    const token = await createSessionToken({ kind: "site", sid: "s1", sub: "site" }, 60);
+    expect(await verifySessionToken(token, "admin")).toBeNull();
+  });
+
+  it("rejects a tampered payload", async () => {
+    const token = await createSessionToken({ kind: "admin", sid: "s1", sub: "u1", role: "presenter" }, 60);
+    const [, sig] = token.split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ kind: "admin", sid: "s1", sub: "u1", role: "owner", iat: 0, exp: 4102444800 })
+    ).toString("base64url");
+    expect(await verifySessionToken(`${forged}.${sig}`, "admin")).toBeNull();
+  });
+
+  it("rejects an expired token", async () => {
+    vi.useFakeTimers();
+    const token = await createSessionToken({ kind: "admin", sid: "s1", sub: "u1", role: "owner" }, 60);
+    vi.advanceTimersByTime(61_000);
+    expect(await verifySessionToken(token, "admin")).toBeNull();
+  });
+
+  it("rejects tokens older than SESSION_MAX_AGE_HOURS", async () => {
+    vi.stubEnv("SESSION_MAX_AGE_HOURS", "1");
+    vi.useFakeTimers();
+    const token = await createSessionToken({ kind: "site", sid: "s1", sub: "site" }, 24 * 60 * 60);
+    vi.advanceTimersByTime(2 * 60 * 60 * 1000);
+    expect(await verifySessionToken(token, "site")).toBeNull();
+  });
+
+  it("accepts the previous secret only during its grace period", async () => {
+    const token = await createSessionToken({ kind: "admin", sid: "s1", sub: "u1", role: "owner" }, 60);
+    vi.stubEnv("ADMIN_SESSION_SECRET", "a-brand-new-secret-value");
+    vi.stubEnv("ADMIN_SESSION_SECRET_PREVIOUS", SECRET);
+    vi.stubEnv("ADMIN_SESSION_SECRET_PREVIOUS_UNTIL", new Date(Date.now() + 60_000).toISOString());
+    expect(await verifySessionToken(token, "admin")).not.toBeNull();
+
+    vi.stubEnv("ADMIN_SESSION_SECRET_PREVIOUS_UNTIL", new Date(Date.now() - 1000).toISOString());
+    expect(await verifySessionToken(token, "admin")).toBeNull();
+  });
+});
+
+describe("signed values", () => {
+  it("verifies a value under the same purpose only", async () => {
+    const sig = await signValue("voter", "abc");
+    expect(await verifySignedValue("voter", "abc", sig)).toBe(true);
+    expect(await verifySignedValue("other", "abc", sig)).toBe(false);
+    expect(await verifySignedValue("voter", "abd", sig)).toBe(false);
+  });
+
+  it("fails closed without a secret", async () => {
+    vi.stubEnv("ADMIN_SESSION_SECRET", "");
+    expect(await verifySignedValue("voter", "abc", "sig")).toBe(false);
+  });
+});
+
+describe("verifySitePassword", () => {
+  it("compares against SITE_PASSWORD", () => {
+    vi.stubEnv("SITE_PASSWORD", "letmein");
+    expect(verifySitePassword("letmein")).toBe(true);
+    expect(verifySitePassword("nope")).toBe(false);
+  });
+});
@@ -1,12 +1,49 @@
 /**
- * Minimal admin auth using a signed token stored in an HttpOnly cookie.
- * We sign/verify with HMAC-SHA256 using the ADMIN_SESSION_SECRET env var.
+ * Minimal session auth using signed tokens stored in HttpOnly cookies.
+ * A token is "<base64url JSON payload>.<signature>", signed with HMAC-SHA256
+ * using the ADMIN_SESSION_SECRET env var. Every token names a row in the
+ * sessions table (see lib/session.ts), which is what makes logout and
+ * "log out everywhere" stick server-side.
+ *
+ * This module is edge-safe (used by middleware): it only checks signature,
+ * kind and expiry. Revocation is checked by lib/session.ts.
  * No third-party auth libraries required.
  */
+import type { AdminRole } from "@prisma/client";
 
 export const ADMIN_COOKIE = "ama_admin_session";
 export const SITE_COOKIE = "ama_site_session";
-const TOKEN_VALUE = "authenticated"; // what we sign
+
+export const ADMIN_SESSION_TTL = 60 * 60 * 8; // 8 hours
+export const SITE_SESSION_TTL = 60 * 60 * 24 * 7; // 7 days
+
+export type SessionKind = "admin" | "site";
+
+export type SessionPayload = {
+  kind: SessionKind;
+  sid: string; // sessions.id
+  sub: string; // AdminUser id for admin sessions, "site" for site sessions
+  role?: AdminRole;
+  iat: number; // unix seconds
+  exp: number; // unix seconds
+};
+
+// What each role may do. Owners manage accounts; moderators run events;
+// presenters can only drive presenter mode (mark answered / reopen).
+const PERMISSIONS = {
+  "events:view": ["owner", "moderator", "presenter"],
+  "events:manage": ["owner", "moderator"],
+  "events:delete": ["owner"],
+  "questions:answer": ["owner", "moderator", "presenter"],
+  "questions:moderate": ["owner", "moderator"],
+  "users:manage": ["owner"],
+} satisfies Record<string, AdminRole[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export function can(role: AdminRole, permission: Permission): boolean {
+  return (PERMISSIONS[permission] as AdminRole[]).includes(role);
+}
 
 function getSecret(): string {
   const secret = process.env.ADMIN_SESSION_SECRET;
@@ -16,6 +53,23 @@ function getSecret(): string {
   return secret;
 }
 
+// During a secret rotation, tokens signed with the old secret stay valid
+// until ADMIN_SESSION_SECRET_PREVIOUS_UNTIL (ISO timestamp) passes.
+function getPreviousSecret(): string | null {
+  const secret = process.env.ADMIN_SESSION_SECRET_PREVIOUS;
+  const until = process.env.ADMIN_SESSION_SECRET_PREVIOUS_UNTIL;
+  if (!secret || !until) return null;
+  const untilMs = new Date(until).getTime();
+  if (isNaN(untilMs) || untilMs <= Date.now()) return null;
+  return secret;
+}
+
+// Hard cap on session age regardless of the cookie's own expiry.
+function getMaxAgeSeconds(): number | null {
+  const hours = Number(process.env.SESSION_MAX_AGE_HOURS);
+  return hours > 0 ? hours * 60 * 60 : null;
+}
+
 async function hmac(secret: string, data: string): Promise<string> {
   const enc = new TextEncoder();
   const key = await crypto.subtle.importKey(
@@ -29,33 +83,77 @@ async function hmac(secret: string, data: string): Promise<string> {
   return Buffer.from(sig).toString("base64url");
 }
 
-/** Creates a signed session token: "value.signature" */
-export async function createSessionToken(): Promise<string> {
-  const secret = getSecret();
-  const sig = await hmac(secret, TOKEN_VALUE);
-  return `${TOKEN_VALUE}.${sig}`;
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+// True if sig signs data under the current secret, or the previous one
+// within its rotation grace period.
+async function isSignedBy(data: string, sig: string): Promise<boolean> {
+  if (safeEqual(sig, await hmac(getSecret(), data))) return true;
+  const previous = getPreviousSecret();
+  return previous !== null && safeEqual(sig, await hmac(previous, data));
 }
 
-/** Returns true if the token is valid. */
-export async function verifySessionToken(token: string): Promise<boolean> {
+/**
+ * Signs a non-session value (e.g. the voter cookie) with the session secret.
+ * The purpose prefix keeps a signature for one use from validating another.
+ */
+export async function signValue(purpose: string, value: string): Promise<string> {
+  return hmac(getSecret(), `${purpose}:${value}`);
+}
+
+export async function verifySignedValue(purpose: string, value: string, sig: string): Promise<boolean> {
   try {
-    const secret = getSecret();
-    const [value, sig] = token.split(".");
-    if (value !== TOKEN_VALUE || !sig) return false;
-    const expected = await hmac(secret, TOKEN_VALUE);
-    // Constant-time compare via timing-safe equal
-    return sig === expected;
+    return await isSignedBy(`${purpose}:${value}`, sig);
   } catch {
     return false;
   }
 }
 
-export function verifyAdminPassword(password: string): boolean {
-  const adminPassword = process.env.ADMIN_PASSWORD;
-  if (!adminPassword) {
-    throw new Error("ADMIN_PASSWORD env var is not set");
+/** Creates a signed session token: "payload.signature" */
+export async function createSessionToken(
+  session: Omit<SessionPayload, "iat" | "exp">,
+  ttlSeconds: number
+): Promise<string> {
+  const secret = getSecret();
+  const now = Math.floor(Date.now() / 1000);
+  const payload: SessionPayload = { ...session, iat: now, exp: now + ttlSeconds };
+  const value = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  const sig = await hmac(secret, value);
+  return `${value}.${sig}`;
+}
+
+/**
+ * Returns the payload if the token is correctly signed (current secret, or
+ * the previous one within its grace period), unexpired and of the given kind.
+ * Does not consult the sessions table.
+ */
+export async function verifySessionToken(
+  token: string,
+  kind: SessionKind
+): Promise<SessionPayload | null> {
+  try {
+    const [value, sig] = token.split(".");
+    if (!value || !sig) return null;
+
+    if (!(await isSignedBy(value, sig))) return null;
+
+    const payload = JSON.parse(Buffer.from(value, "base64url").toString()) as SessionPayload;
+    const now = Math.floor(Date.now() / 1000);
+    if (payload.kind !== kind || !payload.sid) return null;
+    if (typeof payload.exp !== "number" || payload.exp <= now) return null;
+    const maxAge = getMaxAgeSeconds();
+    if (maxAge !== null && (typeof payload.iat !== "number" || now - payload.iat > maxAge)) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
   }
-  return password === adminPassword;
 }
 
 export function verifySitePassword(password: string): boolean {
@@ -0,0 +1,68 @@
+/**
+ * Follow-up comments under a question. Attendees add context to an existing
+ * question ("this also affects the EU team") instead of asking a
+ * near-duplicate; admins and hosts can hide a comment without touching the
+ * question. In a moderated event comments wait for approval, as questions do.
+ */
+import type { Comment } from "@prisma/client";
+
+export const MAX_COMMENT_LENGTH = 500;
+
+export type CommentSnapshot = {
+  id: string;
+  questionId: string;
+  text: string;
+  submittedName: string | null;
+  isAnonymous: boolean;
+  isHidden: boolean;
+  isPending: boolean;
+  createdAt: Date;
+};
+
+export type CommentInput = {
+  text: string;
+  isAnonymous: boolean;
+  submittedName: string | null;
+};
+
+export type CommentValidation =
+  | { ok: true; value: CommentInput }
+  | { ok: false; error: string };
+
+// Same anonymity rules as questions (lib/questions.ts), with a longer limit
+export function validateCommentInput(raw: {
+  text?: unknown;
+  isAnonymous?: unknown;
+  submittedName?: unknown;
+}): CommentValidation {
+  const text = typeof raw.text === "string" ? raw.text.trim() : "";
+  const isAnonymous = raw.isAnonymous === true;
+  const submittedName =
+    isAnonymous || typeof raw.submittedName !== "string"
+      ? null
+      : raw.submittedName.trim() || null;
+
+  if (!text) {
+    return { ok: false, error: "Comment text is required" };
+  }
+  if (text.length > MAX_COMMENT_LENGTH) {
+    return { ok: false, error: `Comments must be ${MAX_COMMENT_LENGTH} characters or fewer.` };
+  }
+  if (!isAnonymous && !submittedName) {
+    return { ok: false, error: "Name is required when not commenting anonymously" };
+  }
+  return { ok: true, value: { text, isAnonymous, submittedName } };
+}
+
+export function toCommentSnapshot(c: Comment): CommentSnapshot {
+  return {
+    id: c.id,
+    questionId: c.questionId,
+    text: c.text,
+    submittedName: c.isAnonymous ? null : c.submittedName,
+    isAnonymous: c.isAnonymous,
+    isHidden: c.isHidden,
+    isPending: c.isPending,
+    createdAt: c.createdAt,
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Who may manage a team event. Team events are guest-run: the browser that
+ * created one (its signed voter ID is stored as createdByUserId) owns it,
+ * co-hosts who joined through the event's invite link share its host powers,
+ * and admins holding the given permission can step in on any event.
+ */
+import type { Event } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { can, type Permission } from "@/lib/auth";
+import { getAdminSession } from "@/lib/session";
+import { getVoterId } from "@/lib/voter";
+
+type CookieReader = { get(name: string): { value: string } | undefined };
+
+export type EventAccess = "admin" | "creator" | "cohost" | null;
+
+export async function getEventAccess(
+  cookies: CookieReader,
+  event: Pick<Event, "id" | "type" | "createdByUserId">,
+  adminPermission: Permission = "events:manage"
+): Promise<EventAccess> {
+  const session = await getAdminSession(cookies);
+  if (session && can(session.role, adminPermission)) return "admin";
+
+  const voterId = await getVoterId(cookies);
+  if (!voterId || event.type !== "team") return null;
+  if (event.createdByUserId === voterId) return "creator";
+
+  const coHost = await prisma.eventCoHost.findUnique({
+    where: { eventId_voterId: { eventId: event.id, voterId } },
+  });
+  return coHost ? "cohost" : null;
+}
+
+/** Access to the event a question belongs to; null if the question or its event is missing or in the trash. */
+export async function getQuestionAccess(
+  cookies: CookieReader,
+  questionId: string,
+  adminPermission: Permission
+): Promise<EventAccess> {
+  const question = await prisma.question.findUnique({
+    where: { id: questionId, deletedAt: null },
+    select: { event: { select: { id: true, type: true, createdByUserId: true, deletedAt: true } } },
+  });
+  if (!question || question.event.deletedAt) return null;
+  return getEventAccess(cookies, question.event, adminPermission);
+}
+
+/** Access to the event a poll belongs to; null if the poll or its event is missing or in the trash. */
+export async function getPollAccess(
+  cookies: CookieReader,
+  pollId: string,
+  adminPermission: Permission
+): Promise<EventAccess> {
+  const poll = await prisma.poll.findUnique({
+    where: { id: pollId },
+    select: { event: { select: { id: true, type: true, createdByUserId: true, deletedAt: true } } },
+  });
+  if (!poll || poll.event.deletedAt) return null;
+  return getEventAccess(cookies, poll.event, adminPermission);
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { csvField, toCsv, toMarkdown, type ExportEvent, type ExportQuestion } from "@/lib/export";
+
+const event: ExportEvent = {
+  id: "e1",
+  title: "All-Hands",
+  description: null,
+  startsAt: null,
+  status: "OPEN",
+  exportedAt: "2026-01-01T00:00:00.000Z",
+};
+
+function question(overrides: Partial<ExportQuestion> = {}): ExportQuestion {
+  return {
+    id: "q1",
+    text: "When is the offsite?",
+    status: "OPEN",
+    isHidden: false,
+    isPending: false,
+    isPinned: false,
+    submittedName: "Sam",
+    isAnonymous: false,
+    upvotes: 3,
+    downvotes: 1,
+    score: 2,
+    createdAt: "2026-01-01T09:00:00.000Z",
+    answeredAt: null,
+    answer: null,
+    ...overrides,
+  };
+}
+
+describe("csvField", () => {
+  it("quotes commas, quotes and line breaks", () => {
+    expect(csvField('say "hi", then\nleave')).toBe('"say ""hi"", then\nleave"');
+    expect(csvField(null)).toBe("");
+  });
+
+  it("neutralises formula-like text", () => {
+    expect(csvField("=HYPERLINK(\"http://x\")")).toBe('"\'=HYPERLINK(""http://x"")"');
+    expect(csvField("+1 to this")).toBe("'+1 to this");
+    expect(csvField("@here")).toBe("'@here");
+  });
+
+  it("leaves numbers alone, including negative scores", () => {
+    expect(csvField(-3)).toBe("-3");
+    expect(csvField(true)).toBe("true");
+  });
+});
+
+describe("toCsv", () => {
+  it("writes a header and one CRLF-terminated row per question", () => {
+    const lines = toCsv([question(), question({ id: "q2", isAnonymous: true, submittedName: null })]).split("\r\n");
+    expect(lines[0].split(",")).toContain("is_anonymous");
+    expect(lines).toHaveLength(4);
+    expect(lines[2]).toContain(",Anonymous,true,");
+    expect(lines[3]).toBe("");
+  });
+});
+
+describe("toMarkdown", () => {
+  it("groups questions into sections and escapes markdown", () => {
+    const md = toMarkdown(event, [
+      question({ text: "Is *this* on?" }),
+      question({ id: "q2", isHidden: true }),
+      question({
+        id: "q3",
+        status: "ANSWERED",
+        answer: { text: "Yes", answeredBy: "CEO", answeredAt: "2026-01-01T10:00:00.000Z", link: null },
+      }),
+    ]);
+    expect(md).toContain("## Open (1)");
+    expect(md).toContain("## Answered (1)");
+    expect(md).toContain("## Hidden (1)");
+    expect(md).toContain("Is \\*this\\* on?");
+    expect(md).toContain("  - Answer (CEO): Yes");
+  });
+});
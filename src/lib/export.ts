@@ -0,0 +1,114 @@
+/**
+ * Serialises an event's questions for GET /api/admin/events/[eventId]/export.
+ * Pure functions — the route does the querying.
+ */
+
+export type ExportFormat = "csv" | "json" | "md";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "json", "md"];
+
+export type ExportQuestion = {
+  id: string;
+  text: string;
+  status: "OPEN" | "ANSWERED";
+  isHidden: boolean;
+  isPending: boolean;
+  isPinned: boolean;
+  submittedName: string | null; // null for anonymous questions
+  isAnonymous: boolean;
+  upvotes: number;
+  downvotes: number;
+  score: number;
+  createdAt: string;
+  answeredAt: string | null;
+  answer: { text: string; answeredBy: string; answeredAt: string; link: string | null } | null;
+};
+
+export type ExportEvent = {
+  id: string;
+  title: string;
+  description: string | null;
+  startsAt: string | null;
+  status: "OPEN" | "CLOSED";
+  exportedAt: string;
+};
+
+const CSV_COLUMNS: { header: string; value: (q: ExportQuestion) => string | number | boolean | null }[] = [
+  { header: "id", value: (q) => q.id },
+  { header: "text", value: (q) => q.text },
+  { header: "status", value: (q) => q.status },
+  { header: "hidden", value: (q) => q.isHidden },
+  { header: "pending", value: (q) => q.isPending },
+  { header: "pinned", value: (q) => q.isPinned },
+  { header: "submitted_by", value: (q) => (q.isAnonymous ? "Anonymous" : q.submittedName) },
+  { header: "is_anonymous", value: (q) => q.isAnonymous },
+  { header: "upvotes", value: (q) => q.upvotes },
+  { header: "downvotes", value: (q) => q.downvotes },
+  { header: "score", value: (q) => q.score },
+  { header: "created_at", value: (q) => q.createdAt },
+  { header: "answered_at", value: (q) => q.answeredAt },
+  { header: "answer", value: (q) => q.answer?.text ?? null },
+  { header: "answered_by", value: (q) => q.answer?.answeredBy ?? null },
+  { header: "answer_link", value: (q) => q.answer?.link ?? null },
+];
+
+// Text a spreadsheet would run as a formula (CSV injection)
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * RFC 4180 field quoting. Text starting like a formula gets a leading "'",
+ * as OWASP recommends, so attendee-written questions and names open in
+ * Excel or Sheets as plain text. Numbers (negative scores) are left alone.
+ */
+export function csvField(value: string | number | boolean | null): string {
+  if (value === null) return "";
+  const str = typeof value === "string" && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+export function toCsv(questions: ExportQuestion[]): string {
+  const lines = [CSV_COLUMNS.map((c) => c.header).join(",")];
+  for (const q of questions) {
+    lines.push(CSV_COLUMNS.map((c) => csvField(c.value(q))).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function toJson(event: ExportEvent, questions: ExportQuestion[]): string {
+  return JSON.stringify({ event, questions }, null, 2);
+}
+
+function mdEscape(text: string): string {
+  return text.replace(/([\\`*_[\]<>|])/g, "\\$1").replace(/\r?\n/g, " ");
+}
+
+export function toMarkdown(event: ExportEvent, questions: ExportQuestion[]): string {
+  const out: string[] = [`# ${mdEscape(event.title)}`, ""];
+  if (event.description) out.push(mdEscape(event.description), "");
+  if (event.startsAt) out.push(`- Starts: ${event.startsAt}`);
+  out.push(`- Status: ${event.status}`, `- Exported: ${event.exportedAt}`, `- Questions: ${questions.length}`, "");
+
+  const sections: { title: string; items: ExportQuestion[] }[] = [
+    { title: "Open", items: questions.filter((q) => q.status === "OPEN" && !q.isHidden && !q.isPending) },
+    { title: "Answered", items: questions.filter((q) => q.status === "ANSWERED" && !q.isHidden && !q.isPending) },
+    { title: "Pending approval", items: questions.filter((q) => q.isPending && !q.isHidden) },
+    { title: "Hidden", items: questions.filter((q) => q.isHidden) },
+  ];
+
+  for (const { title, items } of sections) {
+    if (items.length === 0) continue;
+    out.push(`## ${title} (${items.length})`, "");
+    for (const q of items) {
+      const who = q.isAnonymous ? "Anonymous" : q.submittedName ?? "Unknown";
+      const flags = q.isPinned ? " 📌" : "";
+      out.push(`- **${mdEscape(q.text)}**${flags}`);
+      out.push(`  - ${mdEscape(who)} · score ${q.score} (+${q.upvotes} / −${q.downvotes}) · asked ${q.createdAt}`);
+      if (q.answer) {
+        out.push(`  - Answer (${mdEscape(q.answer.answeredBy)}): ${mdEscape(q.answer.text)}`);
+        if (q.answer.link) out.push(`  - Link: <${q.answer.link}>`);
+      }
+    }
+    out.push("");
+  }
+  return out.join("\n");
+}
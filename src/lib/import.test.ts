@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { MAX_IMPORT_ROWS, parseCsv, parseImport } from "@/lib/import";
+import { toCsv, toJson, type ExportQuestion } from "@/lib/export";
+
+describe("parseCsv", () => {
+  it("handles quoted fields, escaped quotes and CRLF", () => {
+    expect(parseCsv('text,name\r\n"a, b","say ""hi"""\r\nc,d\n')).toEqual([
+      ["text", "name"],
+      ["a, b", 'say "hi"'],
+      ["c", "d"],
+    ]);
+  });
+
+  it("keeps line breaks inside quotes and drops blank lines", () => {
+    expect(parseCsv('text\n"line 1\nline 2"\n\n')).toEqual([["text"], ["line 1\nline 2"]]);
+  });
+});
+
+describe("parseImport", () => {
+  it("reads CSV with column aliases", () => {
+    const result = parseImport("csv", "Question,Name,Anonymous,Status\nWhy?,Sam,no,answered\nHow?,,yes,\n");
+    expect(result).toEqual({
+      rows: [
+        { text: "Why?", submittedName: "Sam", isAnonymous: false, status: "ANSWERED" },
+        { text: "How?", submittedName: null, isAnonymous: true, status: "OPEN" },
+      ],
+      errors: [],
+    });
+  });
+
+  it("reads JSON as an array or { questions }", () => {
+    const rows = [{ text: "Why?", isAnonymous: true }];
+    expect(parseImport("json", JSON.stringify(rows))).toMatchObject({ rows: [{ text: "Why?" }] });
+    expect(parseImport("json", JSON.stringify({ questions: rows }))).toMatchObject({ rows: [{ text: "Why?" }] });
+  });
+
+  it("reports per-row errors with 1-based row numbers", () => {
+    const result = parseImport("csv", "text,name,status\nWhy?,Sam,DONE\n,Sam,\nOk,,\n");
+    expect(result).toMatchObject({
+      rows: [],
+      errors: [{ row: 1 }, { row: 2 }, { row: 3 }],
+    });
+  });
+
+  it("rejects whole-file problems", () => {
+    expect(parseImport("csv", "name\nSam\n")).toBe('CSV must have a "text" column');
+    expect(parseImport("json", "{")).toBe("Invalid JSON");
+    expect(parseImport("csv", "text\n")).toBe("No questions found");
+    expect(parseImport("csv", "text\n" + "Why?\n".repeat(MAX_IMPORT_ROWS + 1))).toMatch(/^At most/);
+  });
+});
+
+describe("re-importing an export", () => {
+  const questions: ExportQuestion[] = [
+    {
+      id: "q1",
+      text: "=1+1 is two, right?",
+      status: "ANSWERED",
+      isHidden: false,
+      isPending: false,
+      isPinned: false,
+      submittedName: "@sam",
+      isAnonymous: false,
+      upvotes: 0,
+      downvotes: 0,
+      score: 0,
+      createdAt: "2026-01-01T09:00:00.000Z",
+      answeredAt: null,
+      answer: null,
+    },
+    {
+      id: "q2",
+      text: "Anything, really",
+      status: "OPEN",
+      isHidden: false,
+      isPending: false,
+      isPinned: false,
+      submittedName: null,
+      isAnonymous: true,
+      upvotes: 0,
+      downvotes: 0,
+      score: 0,
+      createdAt: "2026-01-01T09:00:00.000Z",
+      answeredAt: null,
+      answer: null,
+    },
+  ];
+  const expected = [
+    { text: "=1+1 is two, right?", submittedName: "@sam", isAnonymous: false, status: "ANSWERED" },
+    { text: "Anything, really", submittedName: null, isAnonymous: true, status: "OPEN" },
+  ];
+
+  it("round-trips the CSV export, anonymity and formula guard included", () => {
+    expect(parseImport("csv", toCsv(questions))).toEqual({ rows: expected, errors: [] });
+  });
+
+  it("round-trips the JSON export", () => {
+    const event = {
+      id: "e1",
+      title: "All-Hands",
+      description: null,
+      startsAt: null,
+      status: "OPEN" as const,
+      exportedAt: "2026-01-01T00:00:00.000Z",
+    };
+    expect(parseImport("json", toJson(event, questions))).toEqual({ rows: expected, errors: [] });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Parses and validates a bulk question import for
+ * POST /api/admin/events/[eventId]/import. Accepts CSV with a header row or
+ * JSON (an array of objects, or { questions: [...] }). Column names match the
+ * public submission form; the export's submitted_by and is_anonymous columns
+ * are accepted too, and its "'" formula guard is undone, so an export can be
+ * re-imported.
+ */
+import { validateQuestionInput, type QuestionInput } from "@/lib/questions";
+
+export type ImportFormat = "csv" | "json";
+
+export const MAX_IMPORT_ROWS = 1000;
+
+export type ImportRow = QuestionInput & { status: "OPEN" | "ANSWERED" };
+
+export type ImportRowError = { row: number; error: string };
+
+export type ImportResult = { rows: ImportRow[]; errors: ImportRowError[] };
+
+/** Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF or LF. */
+export function parseCsv(input: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      record.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  // Drop blank lines
+  return records.filter((r) => r.some((f) => f.trim() !== ""));
+}
+
+const COLUMN_ALIASES: Record<string, keyof RawRow> = {
+  text: "text",
+  question: "text",
+  submittedname: "submittedName",
+  submitted_name: "submittedName",
+  submitted_by: "submittedName",
+  name: "submittedName",
+  isanonymous: "isAnonymous",
+  is_anonymous: "isAnonymous",
+  anonymous: "isAnonymous",
+  status: "status",
+};
+
+type RawRow = {
+  text?: unknown;
+  submittedName?: unknown;
+  isAnonymous?: unknown;
+  status?: unknown;
+};
+
+// The "'" that csvField in lib/export.ts puts in front of formula-like text
+const ESCAPED_FORMULA = /^'(?=[=+\-@\t\r])/;
+
+function csvToRawRows(input: string): RawRow[] | string {
+  const [header, ...records] = parseCsv(input);
+  if (!header) return "The file is empty";
+  const keys = header.map((h) => COLUMN_ALIASES[h.trim().toLowerCase()]);
+  if (!keys.includes("text")) return 'CSV must have a "text" column';
+
+  return records.map((record) => {
+    const row: RawRow = {};
+    keys.forEach((key, i) => {
+      if (key) row[key] = (record[i] ?? "").replace(ESCAPED_FORMULA, "");
+    });
+    return row;
+  });
+}
+
+function jsonToRawRows(input: string): RawRow[] | string {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(input);
+  } catch {
+    return "Invalid JSON";
+  }
+  const list =
+    parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as { questions?: unknown }).questions
+      : parsed;
+  if (!Array.isArray(list)) return "JSON must be an array of questions or { questions: [...] }";
+  return list.map((item) => (item && typeof item === "object" ? (item as RawRow) : {}));
+}
+
+function parseBoolean(value: unknown): boolean {
+  if (typeof value === "boolean") return value;
+  if (typeof value === "string") return ["true", "yes", "y", "1"].includes(value.trim().toLowerCase());
+  return value === 1;
+}
+
+/**
+ * Returns either a whole-file error or every row with its validation result.
+ * Row numbers are 1-based data rows (the CSV header is not counted).
+ */
+export function parseImport(format: ImportFormat, input: string): ImportResult | string {
+  const raw = format === "csv" ? csvToRawRows(input) : jsonToRawRows(input);
+  if (typeof raw === "string") return raw;
+  if (raw.length === 0) return "No questions found";
+  if (raw.length > MAX_IMPORT_ROWS) return `At most ${MAX_IMPORT_ROWS} questions per import`;
+
+  const rows: ImportRow[] = [];
+  const errors: ImportRowError[] = [];
+
+  raw.forEach((r, i) => {
+    const row = i + 1;
+    const status = typeof r.status === "string" ? r.status.trim().toUpperCase() : "";
+    if (status && status !== "OPEN" && status !== "ANSWERED") {
+      errors.push({ row, error: "status must be OPEN or ANSWERED" });
+      return;
+    }
+    const validation = validateQuestionInput({
+      text: r.text,
+      submittedName: r.submittedName,
+      isAnonymous: parseBoolean(r.isAnonymous),
+    });
+    if (!validation.ok) {
+      errors.push({ row, error: validation.error });
+      return;
+    }
+    rows.push({ ...validation.value, status: status === "ANSWERED" ? "ANSWERED" : "OPEN" });
+  });
+
+  return { rows, errors };
+}
@@ -0,0 +1,19 @@
+/**
+ * Server-side half of the legacy voter cookie migration (see lib/voter.ts).
+ * A bare UUID from before cookies were signed is only worth keeping if it
+ * already owns something; otherwise the client made it up.
+ */
+import { prisma } from "@/lib/prisma";
+
+/** True if the voter ID owns votes, questions, comments, poll answers, team events or co-host seats. */
+export async function isKnownLegacyVoter(voterId: string): Promise<boolean> {
+  const owned = await Promise.all([
+    prisma.vote.findFirst({ where: { voterId }, select: { id: true } }),
+    prisma.question.findFirst({ where: { submitterId: voterId }, select: { id: true } }),
+    prisma.comment.findFirst({ where: { submitterId: voterId }, select: { id: true } }),
+    prisma.pollResponse.findFirst({ where: { voterId }, select: { id: true } }),
+    prisma.event.findFirst({ where: { createdByUserId: voterId }, select: { id: true } }),
+    prisma.eventCoHost.findFirst({ where: { voterId }, select: { id: true } }),
+  ]);
+  return owned.some((row) => row !== null);
+}
@@ -0,0 +1,50 @@
+/**
+ * The presenter's "now answering" pointer. The presenter view reports the
+ * question on screen; it is stored on the event (so it reaches attendees in
+ * the event snapshot) and logged as answering segments, which the recap adds
+ * up to show the order questions were taken in and how long each one took.
+ */
+import type { Event } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Points the event at `questionId` (null clears it), closing the previous
+ * question's segment. A no-op if the pointer is already there.
+ */
+export async function setNowAnswering(eventId: string, questionId: string | null): Promise<Event> {
+  return prisma.$transaction(async (tx) => {
+    const event = await tx.event.findUniqueOrThrow({ where: { id: eventId } });
+    if (event.nowAnsweringId === questionId) return event;
+
+    const now = new Date();
+    await tx.answeringSegment.updateMany({ where: { eventId, endedAt: null }, data: { endedAt: now } });
+    if (questionId) {
+      await tx.answeringSegment.create({ data: { eventId, questionId, startedAt: now } });
+    }
+    return tx.event.update({
+      where: { id: eventId },
+      data: { nowAnsweringId: questionId, nowAnsweringAt: questionId ? now : null },
+    });
+  });
+}
+
+export type AnsweringTime = { firstStartedAt: Date; totalSec: number };
+
+/** When each question was first on screen and its total time there; a segment still open counts up to now. */
+export async function getAnsweringTimes(eventId: string): Promise<Map<string, AnsweringTime>> {
+  const segments = await prisma.answeringSegment.findMany({
+    where: { eventId },
+    orderBy: { startedAt: "asc" },
+  });
+  const now = Date.now();
+  const times = new Map<string, AnsweringTime>();
+  for (const s of segments) {
+    const sec = Math.round(((s.endedAt?.getTime() ?? now) - s.startedAt.getTime()) / 1000);
+    const prev = times.get(s.questionId);
+    times.set(s.questionId, {
+      firstStartedAt: prev?.firstStartedAt ?? s.startedAt,
+      totalSec: (prev?.totalSec ?? 0) + sec,
+    });
+  }
+  return times;
+}
@@ -0,0 +1,38 @@
+/**
+ * Per-event panelists. Admins list the people on stage; askers may direct
+ * their question to one of them, and the presenter view can show only the
+ * questions addressed to a given panelist.
+ */
+import { prisma } from "@/lib/prisma";
+import { publish } from "@/lib/realtime";
+
+export const MAX_PANELIST_NAME_LENGTH = 80;
+export const MAX_PANELIST_TITLE_LENGTH = 80;
+export const MAX_PANELISTS_PER_EVENT = 12;
+
+export type PanelistSummary = { id: string; name: string; title: string | null };
+
+export async function getEventPanelists(eventId: string): Promise<PanelistSummary[]> {
+  return prisma.eventPanelist.findMany({
+    where: { eventId },
+    orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+    select: { id: true, name: true, title: true },
+  });
+}
+
+/** Checks a panelist from the admin form; returns an error message or null. */
+export function validatePanelist(name: string, title: string | null): string | null {
+  if (!name) return "Panelist name is required";
+  if (name.length > MAX_PANELIST_NAME_LENGTH) {
+    return `Panelist names are limited to ${MAX_PANELIST_NAME_LENGTH} characters`;
+  }
+  if (title && title.length > MAX_PANELIST_TITLE_LENGTH) {
+    return `Titles are limited to ${MAX_PANELIST_TITLE_LENGTH} characters`;
+  }
+  return null;
+}
+
+/** Sends the event's current panel to everyone watching it. */
+export async function publishPanelists(eventId: string): Promise<void> {
+  publish(eventId, { type: "panelists.updated", panelists: await getEventPanelists(eventId) });
+}
@@ -0,0 +1,55 @@
+/**
+ * Password hashing for admin accounts — PBKDF2-SHA256 via Web Crypto, so it
+ * runs in route handlers and in scripts without a native dependency.
+ * Stored format: "pbkdf2$<iterations>$<salt>$<hash>" (base64url parts).
+ */
+
+const ITERATIONS = 210_000;
+const KEY_BYTES = 32;
+
+async function derive(password: string, salt: BufferSource, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    key,
+    KEY_BYTES * 8
+  );
+  return new Uint8Array(bits);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derive(password, salt, ITERATIONS);
+  return [
+    "pbkdf2",
+    ITERATIONS,
+    Buffer.from(salt).toString("base64url"),
+    Buffer.from(hash).toString("base64url"),
+  ].join("$");
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, iterationsRaw, saltRaw, hashRaw] = stored.split("$");
+  const iterations = Number(iterationsRaw);
+  if (scheme !== "pbkdf2" || !iterations || !saltRaw || !hashRaw) return false;
+
+  const expected = Buffer.from(hashRaw, "base64url");
+  const salt = new Uint8Array(Buffer.from(saltRaw, "base64url"));
+  const actual = await derive(password, salt, iterations);
+  if (actual.length !== expected.length) return false;
+  let diff = 0;
+  for (let i = 0; i < actual.length; i++) diff |= actual[i] ^ expected[i];
+  return diff === 0;
+}
+
+/** Minimum rules for new admin passwords. Returns an error message or null. */
+export function validateNewPassword(password: string): string | null {
+  if (password.length < 10) return "Password must be at least 10 characters.";
+  return null;
+}
@@ -0,0 +1,75 @@
+/**
+ * Multiple-choice polls that hosts run alongside the Q&A. A poll starts as a
+ * draft only hosts can see, is opened for answers and then closed; each
+ * voter (ama_voter_id) holds one response per poll, which they can change
+ * while the poll is open. No database access here, so the browser can use the
+ * limits and types too.
+ */
+import type { Poll, PollOption, PollStatus } from "@prisma/client";
+
+export const MAX_POLL_QUESTION_LENGTH = 200;
+export const MAX_POLL_OPTION_LENGTH = 80;
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 6;
+
+export type PollSnapshot = {
+  id: string;
+  eventId: string;
+  question: string;
+  status: PollStatus;
+  openedAt: Date | null;
+  closedAt: Date | null;
+  createdAt: Date;
+  options: { id: string; label: string; count: number }[];
+  responseCount: number;
+};
+
+// Include for toPollSnapshot: options in order with their response counts
+export const POLL_INCLUDE = {
+  options: { orderBy: { position: "asc" }, include: { _count: { select: { responses: true } } } },
+} as const;
+
+export type PollInput = { question: string; options: string[] };
+
+export type PollValidation = { ok: true; value: PollInput } | { ok: false; error: string };
+
+export function validatePollInput(raw: { question?: unknown; options?: unknown }): PollValidation {
+  const question = typeof raw.question === "string" ? raw.question.trim() : "";
+  const options = Array.isArray(raw.options)
+    ? raw.options.map((o) => (typeof o === "string" ? o.trim() : "")).filter(Boolean)
+    : [];
+
+  if (!question) {
+    return { ok: false, error: "Poll question is required" };
+  }
+  if (question.length > MAX_POLL_QUESTION_LENGTH) {
+    return { ok: false, error: `Poll questions must be ${MAX_POLL_QUESTION_LENGTH} characters or fewer.` };
+  }
+  if (options.length < MIN_POLL_OPTIONS || options.length > MAX_POLL_OPTIONS) {
+    return { ok: false, error: `Polls need ${MIN_POLL_OPTIONS} to ${MAX_POLL_OPTIONS} options` };
+  }
+  if (options.some((o) => o.length > MAX_POLL_OPTION_LENGTH)) {
+    return { ok: false, error: `Options must be ${MAX_POLL_OPTION_LENGTH} characters or fewer.` };
+  }
+  if (new Set(options.map((o) => o.toLowerCase())).size !== options.length) {
+    return { ok: false, error: "Options must be different from each other" };
+  }
+  return { ok: true, value: { question, options } };
+}
+
+export function toPollSnapshot(
+  poll: Poll & { options: (PollOption & { _count: { responses: number } })[] }
+): PollSnapshot {
+  const options = poll.options.map((o) => ({ id: o.id, label: o.label, count: o._count.responses }));
+  return {
+    id: poll.id,
+    eventId: poll.eventId,
+    question: poll.question,
+    status: poll.status,
+    openedAt: poll.openedAt,
+    closedAt: poll.closedAt,
+    createdAt: poll.createdAt,
+    options,
+    responseCount: options.reduce((sum, o) => sum + o.count, 0),
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * The presenter's run-of-show: an ordered list of questions moderators pick
+ * from the open list, independent of votes. The presenter view can step
+ * through it instead of the Top / Newest order. Stored server-side so a
+ * reload of the projector keeps it; answered and removed questions simply
+ * drop out of what is shown.
+ */
+import { prisma } from "@/lib/prisma";
+import { publish } from "@/lib/realtime";
+
+export const MAX_QUEUE_LENGTH = 50;
+
+/** Question ids in run-of-show order. */
+export async function getEventQueue(eventId: string): Promise<string[]> {
+  const items = await prisma.presenterQueueItem.findMany({
+    where: { eventId },
+    orderBy: { position: "asc" },
+    select: { questionId: true },
+  });
+  return items.map((i) => i.questionId);
+}
+
+/** Replaces the whole queue with `questionIds`, in that order. */
+export async function setEventQueue(eventId: string, questionIds: string[]): Promise<void> {
+  await prisma.$transaction([
+    prisma.presenterQueueItem.deleteMany({ where: { eventId } }),
+    prisma.presenterQueueItem.createMany({
+      data: questionIds.map((questionId, position) => ({ eventId, questionId, position })),
+    }),
+  ]);
+}
+
+/** Sends the event's current queue to everyone watching it. */
+export async function publishQueue(eventId: string): Promise<void> {
+  publish(eventId, { type: "queue.updated", queue: await getEventQueue(eventId) });
+}
@@ -0,0 +1,76 @@
+/**
+ * Remote control for presenter mode. The projector's presenter view opens a
+ * remote and shows its short code; a moderator types the code in at /remote
+ * on a laptop or phone and from then on picks the question on screen (and
+ * the questions / poll results view) from there. The projector follows the
+ * remote's state over the event stream. Anyone may open a remote (rate
+ * limited, and capped per event), but only people who can present the event
+ * may join or drive one.
+ */
+import { Prisma, type PresenterRemote } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { publish } from "@/lib/realtime";
+
+// No 0/O or 1/I, so codes read cleanly off a projector
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+export const REMOTE_CODE_LENGTH = 6;
+export const REMOTE_TTL_MS = 12 * 60 * 60 * 1000;
+// Unexpired remotes an event may have at once
+export const MAX_ACTIVE_REMOTES = 20;
+const CODE_ATTEMPTS = 5;
+
+export type RemoteSnapshot = {
+  id: string;
+  eventId: string;
+  selectedId: string | null;
+  view: PresenterRemote["view"];
+  pairedAt: Date | null;
+};
+
+export function toRemoteSnapshot(remote: PresenterRemote): RemoteSnapshot {
+  return {
+    id: remote.id,
+    eventId: remote.eventId,
+    selectedId: remote.selectedId,
+    view: remote.view,
+    pairedAt: remote.pairedAt,
+  };
+}
+
+function generateCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(REMOTE_CODE_LENGTH));
+  return Array.from(bytes, (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]).join("");
+}
+
+/** Unexpired remotes for the event, after clearing out its expired ones. */
+export async function countActiveRemotes(eventId: string): Promise<number> {
+  await prisma.presenterRemote.deleteMany({ where: { eventId, expiresAt: { lt: new Date() } } });
+  return prisma.presenterRemote.count({ where: { eventId } });
+}
+
+/** Opens a remote for the event; null if no free code turned up. */
+export async function createRemote(eventId: string): Promise<PresenterRemote | null> {
+  for (let attempt = 0; attempt < CODE_ATTEMPTS; attempt++) {
+    try {
+      return await prisma.presenterRemote.create({
+        data: { eventId, code: generateCode(), expiresAt: new Date(Date.now() + REMOTE_TTL_MS) },
+      });
+    } catch (err) {
+      // Code already taken — try another
+      if (!(err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002")) throw err;
+    }
+  }
+  return null;
+}
+
+/** A live remote by code (case-insensitive); null if unknown, expired or its event is in the trash. */
+export async function findRemote(code: string) {
+  return prisma.presenterRemote.findFirst({
+    where: { code: code.toUpperCase(), expiresAt: { gt: new Date() }, event: { deletedAt: null } },
+    include: { event: true },
+  });
+}
+
+export function publishRemote(remote: PresenterRemote): void {
+  publish(remote.eventId, { type: "remote.updated", remote: toRemoteSnapshot(remote) });
+}
@@ -0,0 +1,40 @@
+/**
+ * Submission rules shared by everything that creates questions: the public
+ * form (POST /api/events/[eventId]/questions) and the admin bulk import.
+ */
+
+export const MAX_QUESTION_LENGTH = 280;
+
+export type QuestionInput = {
+  text: string;
+  isAnonymous: boolean;
+  submittedName: string | null;
+};
+
+export type QuestionValidation =
+  | { ok: true; value: QuestionInput }
+  | { ok: false; error: string };
+
+export function validateQuestionInput(raw: {
+  text?: unknown;
+  isAnonymous?: unknown;
+  submittedName?: unknown;
+}): QuestionValidation {
+  const text = typeof raw.text === "string" ? raw.text.trim() : "";
+  const isAnonymous = raw.isAnonymous === true;
+  const submittedName =
+    isAnonymous || typeof raw.submittedName !== "string"
+      ? null
+      : raw.submittedName.trim() || null;
+
+  if (!text) {
+    return { ok: false, error: "Question text is required" };
+  }
+  if (text.length > MAX_QUESTION_LENGTH) {
+    return { ok: false, error: `Questions must be ${MAX_QUESTION_LENGTH} characters or fewer.` };
+  }
+  if (!isAnonymous && !submittedName) {
+    return { ok: false, error: "Name is required when not submitting anonymously" };
+  }
+  return { ok: true, value: { text, isAnonymous, submittedName } };
+}
@@ -0,0 +1,212 @@
+/**
+ * Fixed-window rate limiting for public writes (question submission, votes,
+ * comments).
+ *
+ * Each request is counted twice: once against the caller's voter cookie and
+ * once against their IP address. The IP allowance is a multiple of the
+ * per-voter limit because whole offices share one address;
+ * RATE_LIMIT_IP_MULTIPLIER changes it, and 0 turns the IP check off.
+ *
+ * The client address comes from the platform (req.ip) or, behind your own
+ * proxies, from X-Forwarded-For counted TRUSTED_PROXY_HOPS entries from the
+ * right — the leftmost entry is whatever the client sent. Without either the
+ * address is unknown and only the voter check applies.
+ *
+ * The store is pluggable. The in-memory store (default) is per-process, so
+ * with several server instances each one counts separately; set
+ * RATE_LIMIT_STORE=postgres to share counters through the rate_limit_buckets
+ * table instead. If that table can't be reached, the instance falls back to
+ * counting in memory until it can, so an outage loosens the limits (each
+ * instance counts on its own) rather than lifting them or failing requests.
+ */
+import type { Event } from "@prisma/client";
+import { NextResponse, type NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+
+export type RateLimitScope = "question" | "vote";
+
+export type RateLimitRule = { limit: number; windowSec: number };
+
+export type RateLimitResult = { ok: true } | { ok: false; retryAfterSec: number };
+
+export interface RateLimitStore {
+  /** Counts one hit against key and returns the window's running total. */
+  hit(key: string, windowSec: number): Promise<{ count: number; resetAt: Date }>;
+}
+
+export const DEFAULT_RATE_LIMITS: Record<RateLimitScope, RateLimitRule> = {
+  question: { limit: 5, windowSec: 10 * 60 },
+  vote: { limit: 60, windowSec: 60 },
+};
+
+// Comments have no per-event override
+export const COMMENT_RATE_LIMIT: RateLimitRule = { limit: 10, windowSec: 10 * 60 };
+
+// Opening a presenter remote (POST /api/events/[eventId]/remote), which needs no sign-in
+export const REMOTE_RATE_LIMIT: RateLimitRule = { limit: 5, windowSec: 10 * 60 };
+
+// Allowance per IP relative to the per-voter limit
+const DEFAULT_IP_LIMIT_MULTIPLIER = 20;
+
+function readNonNegativeInt(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+// ── Stores ──────────────────────────────────────────────────────────────────
+
+class MemoryStore implements RateLimitStore {
+  private buckets = new Map<string, { count: number; resetAt: number }>();
+
+  async hit(key: string, windowSec: number) {
+    const now = Date.now();
+    let bucket = this.buckets.get(key);
+    if (!bucket || bucket.resetAt <= now) {
+      if (this.buckets.size > 10_000) this.sweep(now);
+      bucket = { count: 0, resetAt: now + windowSec * 1000 };
+      this.buckets.set(key, bucket);
+    }
+    bucket.count++;
+    return { count: bucket.count, resetAt: new Date(bucket.resetAt) };
+  }
+
+  private sweep(now: number) {
+    this.buckets.forEach((bucket, key) => {
+      if (bucket.resetAt <= now) this.buckets.delete(key);
+    });
+  }
+}
+
+class PostgresStore implements RateLimitStore {
+  async hit(key: string, windowSec: number) {
+    // One atomic upsert: start a new window if the old one has expired,
+    // otherwise increment.
+    const rows = await prisma.$queryRaw<{ count: number; resetAt: Date }[]>`
+      INSERT INTO "rate_limit_buckets" ("key", "count", "resetAt")
+      VALUES (${key}, 1, NOW() + ${windowSec} * INTERVAL '1 second')
+      ON CONFLICT ("key") DO UPDATE SET
+        "count" = CASE WHEN "rate_limit_buckets"."resetAt" <= NOW() THEN 1
+                       ELSE "rate_limit_buckets"."count" + 1 END,
+        "resetAt" = CASE WHEN "rate_limit_buckets"."resetAt" <= NOW()
+                         THEN NOW() + ${windowSec} * INTERVAL '1 second'
+                         ELSE "rate_limit_buckets"."resetAt" END
+      RETURNING "count", "resetAt"
+    `;
+    // Opportunistic cleanup of long-expired buckets
+    if (Math.random() < 0.01) {
+      await prisma.rateLimitBucket.deleteMany({
+        where: { resetAt: { lt: new Date(Date.now() - 60 * 60 * 1000) } },
+      });
+    }
+    return rows[0];
+  }
+}
+
+const globalForRateLimit = globalThis as unknown as {
+  rateLimitStore: RateLimitStore | undefined;
+  rateLimitFallbackStore: MemoryStore | undefined;
+};
+
+function getStore(): RateLimitStore {
+  if (!globalForRateLimit.rateLimitStore) {
+    globalForRateLimit.rateLimitStore =
+      process.env.RATE_LIMIT_STORE === "postgres" ? new PostgresStore() : new MemoryStore();
+  }
+  return globalForRateLimit.rateLimitStore;
+}
+
+// Counts for this instance while the configured store is erroring
+function getFallbackStore(): MemoryStore {
+  globalForRateLimit.rateLimitFallbackStore ??= new MemoryStore();
+  return globalForRateLimit.rateLimitFallbackStore;
+}
+
+// Seconds until the caller may retry; 0 if every check is within its limit
+async function countHits(
+  store: RateLimitStore,
+  checks: { key: string; limit: number }[],
+  windowSec: number
+): Promise<number> {
+  let retryAfterSec = 0;
+  for (const { key, limit } of checks) {
+    const { count, resetAt } = await store.hit(key, windowSec);
+    if (count > limit) {
+      retryAfterSec = Math.max(retryAfterSec, Math.ceil((new Date(resetAt).getTime() - Date.now()) / 1000));
+    }
+  }
+  return retryAfterSec;
+}
+
+// ── Public API ──────────────────────────────────────────────────────────────
+
+/** The event's configured limit for a scope, falling back to the default. */
+export function getRateLimitRule(
+  event: Pick<Event, "questionRateLimit" | "questionRateWindowSec" | "voteRateLimit" | "voteRateWindowSec">,
+  scope: RateLimitScope
+): RateLimitRule {
+  const fallback = DEFAULT_RATE_LIMITS[scope];
+  const limit = scope === "question" ? event.questionRateLimit : event.voteRateLimit;
+  const windowSec = scope === "question" ? event.questionRateWindowSec : event.voteRateWindowSec;
+  return { limit: limit ?? fallback.limit, windowSec: windowSec ?? fallback.windowSec };
+}
+
+/**
+ * The caller's address as seen by the nearest trusted proxy; "unknown" when
+ * neither the platform nor a configured proxy chain vouches for one.
+ */
+export function getClientIp(req: Pick<NextRequest, "ip" | "headers">): string {
+  if (req.ip) return req.ip;
+  const hops = readNonNegativeInt("TRUSTED_PROXY_HOPS", 0);
+  const forwarded = req.headers.get("x-forwarded-for");
+  if (hops === 0 || !forwarded) return "unknown";
+  // Each trusted proxy appends the address it received the request from
+  const entries = forwarded.split(",").map((e) => e.trim()).filter(Boolean);
+  return entries[entries.length - hops] ?? "unknown";
+}
+
+/**
+ * Counts one request for this voter and IP against the event's rule. If the
+ * store errors, the request is counted in this instance's memory instead.
+ */
+export async function checkRateLimit(
+  scope: RateLimitScope | "comment" | "remote",
+  eventId: string,
+  rule: RateLimitRule,
+  caller: { voterId: string | null; ip: string }
+): Promise<RateLimitResult> {
+  const ipMultiplier = readNonNegativeInt("RATE_LIMIT_IP_MULTIPLIER", DEFAULT_IP_LIMIT_MULTIPLIER);
+  const checks: { key: string; limit: number }[] = [];
+  // An unknown address would put every caller in one bucket
+  if (ipMultiplier > 0 && caller.ip !== "unknown") {
+    checks.push({ key: `${scope}:${eventId}:ip:${caller.ip}`, limit: rule.limit * ipMultiplier });
+  }
+  if (caller.voterId) {
+    checks.push({ key: `${scope}:${eventId}:voter:${caller.voterId}`, limit: rule.limit });
+  }
+
+  let retryAfterSec: number;
+  try {
+    retryAfterSec = await countHits(getStore(), checks, rule.windowSec);
+  } catch (err) {
+    console.error("Rate limit store unavailable; counting in memory on this instance", err);
+    retryAfterSec = await countHits(getFallbackStore(), checks, rule.windowSec);
+  }
+  return retryAfterSec > 0 ? { ok: false, retryAfterSec } : { ok: true };
+}
+
+/** "about 4 minutes" / "a few seconds" — for the 429 message shown to voters. */
+export function describeRetryAfter(retryAfterSec: number): string {
+  if (retryAfterSec < 60) return "a few seconds";
+  const minutes = Math.ceil(retryAfterSec / 60);
+  return minutes === 1 ? "about a minute" : `about ${minutes} minutes`;
+}
+
+/** 429 response with a Retry-After header and a human-readable error. */
+export function rateLimitedResponse(error: string, retryAfterSec: number) {
+  return NextResponse.json(
+    { error, retryAfter: retryAfterSec },
+    { status: 429, headers: { "Retry-After": String(retryAfterSec) } }
+  );
+}
@@ -0,0 +1,262 @@
+/**
+ * In-process pub/sub for live question and poll updates.
+ * Mutation routes publish deltas here; GET /api/events/[eventId]/stream
+ * forwards them to connected browsers as Server-Sent Events.
+ *
+ * The bus lives in memory, so a stream only sees mutations handled by the
+ * same server instance. Clients refetch on every (re)connect and fall back
+ * to polling while the stream is down, which covers the gaps.
+ */
+import type { Answer, Event, Question } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { POLL_INCLUDE, toPollSnapshot, type PollSnapshot } from "@/lib/polls";
+import type { RemoteSnapshot } from "@/lib/presenterRemote";
+
+export type AnswerSnapshot = {
+  text: string;
+  answeredBy: string;
+  answeredAt: Date;
+  link: string | null;
+};
+
+export type QuestionSnapshot = {
+  id: string;
+  eventId: string;
+  text: string;
+  submittedName: string | null;
+  isAnonymous: boolean;
+  status: "OPEN" | "ANSWERED";
+  isHidden: boolean;
+  isPending: boolean;
+  topicId: string | null;
+  directedToId: string | null;
+  flagReason: string | null; // hosts only — the stream and questions GET blank it for attendees
+  pinnedAt: Date | null;
+  answeredAt: Date | null;
+  createdAt: Date;
+  score: number;
+  voteCount: number;
+  commentCount: number; // visible comments only
+  pendingCommentCount: number; // hosts only — the stream and questions GET zero it for attendees
+  answer: AnswerSnapshot | null;
+};
+
+export type EventSnapshot = {
+  id: string;
+  title: string;
+  description: string | null;
+  isVotingOpen: boolean;
+  status: "OPEN" | "CLOSED";
+  startsAt: Date | null;
+  durationMinutes: number | null; // session countdown and soft per-question limit (lib/sessionTimer.ts)
+  questionLimitMinutes: number | null;
+  type: "company" | "team";
+  hostName: string | null;
+  isPublic: boolean;
+  isModerated: boolean;
+  nowAnsweringId: string | null; // the presenter's current question (lib/nowAnswering.ts)
+  nowAnsweringAt: Date | null;
+};
+
+export type QuestionDeltaType =
+  | "question.created"
+  | "question.edited"
+  | "question.voted"
+  | "question.answered"
+  | "question.answer_edited"
+  | "question.reopened"
+  | "question.hidden"
+  | "question.unhidden"
+  | "question.unflagged"
+  | "question.approved"
+  | "question.rejected"
+  | "question.pinned"
+  | "question.unpinned"
+  | "question.restored"
+  | "question.merged"
+  | "question.retagged"
+  | "question.commented";
+
+// What mutation routes publish. submitterId / voterId never leave the
+// server — the stream route turns them into per-viewer isOwn / myVote.
+export type RealtimeMessage =
+  | {
+      type: QuestionDeltaType;
+      question: QuestionSnapshot;
+      submitterId: string | null;
+      // The voters whose own vote changed; null clears their arrow
+      votes?: { voterId: string; value: 1 | -1 | null }[];
+    }
+  | { type: "question.retracted"; id: string }
+  | { type: "question.removed"; id: string } // moved to the trash by a host
+  | { type: "event.updated"; event: EventSnapshot }
+  | { type: "event.removed" } // moved to the trash
+  | { type: "topics.updated"; topics: { id: string; name: string }[] }
+  | { type: "panelists.updated"; panelists: { id: string; name: string; title: string | null }[] }
+  | { type: "poll.updated"; poll: PollSnapshot }
+  | { type: "poll.removed"; pollId: string }
+  | { type: "remote.updated"; remote: RemoteSnapshot }
+  | { type: "queue.updated"; queue: string[] };
+
+// What the browser receives over the stream.
+export type StreamDelta =
+  | {
+      type: QuestionDeltaType;
+      question: QuestionSnapshot & { isOwn: boolean; myVote?: 1 | -1 | null };
+    }
+  | { type: "question.retracted" | "question.removed"; id: string }
+  | { type: "event.updated"; event: EventSnapshot }
+  | { type: "event.removed" }
+  | { type: "topics.updated"; topics: { id: string; name: string }[] }
+  | { type: "panelists.updated"; panelists: { id: string; name: string; title: string | null }[] }
+  | { type: "poll.updated"; poll: PollSnapshot } // drafts go to hosts only
+  | { type: "poll.removed"; pollId: string }
+  | { type: "remote.updated"; remote: RemoteSnapshot }
+  | { type: "queue.updated"; queue: string[] }; // question ids in run-of-show order
+
+type Listener = (message: RealtimeMessage) => void;
+
+const globalForRealtime = globalThis as unknown as {
+  realtimeListeners: Map<string, Set<Listener>> | undefined;
+};
+
+// Same hot-reload trick as lib/prisma.ts: keep one registry per process.
+const listeners =
+  globalForRealtime.realtimeListeners ?? new Map<string, Set<Listener>>();
+globalForRealtime.realtimeListeners = listeners;
+
+/** Registers a listener for one event's deltas. Returns an unsubscribe fn. */
+export function subscribe(eventId: string, listener: Listener): () => void {
+  let set = listeners.get(eventId);
+  if (!set) {
+    set = new Set();
+    listeners.set(eventId, set);
+  }
+  set.add(listener);
+  return () => {
+    set!.delete(listener);
+    if (set!.size === 0) listeners.delete(eventId);
+  };
+}
+
+export function publish(eventId: string, message: RealtimeMessage): void {
+  const set = listeners.get(eventId);
+  if (!set) return;
+  set.forEach((listener) => {
+    try {
+      listener(message);
+    } catch {
+      // one broken stream must not stop delivery to the others
+    }
+  });
+}
+
+/**
+ * True if attendees (non-hosts) may receive this question. Answered questions
+ * stay visible so the public page can show them with their written answer;
+ * questions awaiting approval are shown only to the person who asked them.
+ */
+export function isPubliclyVisible(q: { isHidden: boolean; isPending: boolean }, isOwn = false): boolean {
+  return !q.isHidden && (!q.isPending || isOwn);
+}
+
+export function toQuestionSnapshot(
+  q: Question & {
+    votes: { value: number }[];
+    answer?: Answer | null;
+    _count?: { comments: number };
+    comments?: { id: string }[];
+  }
+): QuestionSnapshot {
+  return {
+    id: q.id,
+    eventId: q.eventId,
+    text: q.text,
+    submittedName: q.isAnonymous ? null : q.submittedName,
+    isAnonymous: q.isAnonymous,
+    status: q.status,
+    isHidden: q.isHidden,
+    isPending: q.isPending,
+    topicId: q.topicId,
+    directedToId: q.directedToId,
+    flagReason: q.flagReason,
+    pinnedAt: q.pinnedAt,
+    answeredAt: q.answeredAt,
+    createdAt: q.createdAt,
+    score: q.votes.reduce((sum, v) => sum + v.value, 0),
+    voteCount: q.votes.length,
+    commentCount: q._count?.comments ?? 0,
+    pendingCommentCount: q.comments?.length ?? 0,
+    answer: q.answer
+      ? {
+          text: q.answer.text,
+          answeredBy: q.answer.answeredBy,
+          answeredAt: q.answer.answeredAt,
+          link: q.answer.link,
+        }
+      : null,
+  };
+}
+
+export function toEventSnapshot(event: Event): EventSnapshot {
+  return {
+    id: event.id,
+    title: event.title,
+    description: event.description,
+    isVotingOpen: event.isVotingOpen,
+    status: event.status,
+    startsAt: event.startsAt,
+    durationMinutes: event.durationMinutes,
+    questionLimitMinutes: event.questionLimitMinutes,
+    type: event.type,
+    hostName: event.hostName,
+    isPublic: event.isPublic,
+    isModerated: event.isModerated,
+    nowAnsweringId: event.nowAnsweringId,
+    nowAnsweringAt: event.nowAnsweringAt,
+  };
+}
+
+// Includes for toQuestionSnapshot's commentCount and pendingCommentCount
+export const VISIBLE_COMMENT_COUNT = {
+  select: { comments: { where: { isHidden: false, isPending: false } } },
+} as const;
+export const PENDING_COMMENTS = { where: { isPending: true }, select: { id: true } } as const;
+
+/**
+ * Reloads a question with its votes, answer and comment count and publishes it. Called after the
+ * mutation has been committed so subscribers always see persisted state.
+ */
+export async function publishQuestion(
+  type: QuestionDeltaType,
+  questionId: string,
+  votes?: { voterId: string; value: 1 | -1 | null }[]
+): Promise<void> {
+  const q = await prisma.question.findUnique({
+    where: { id: questionId },
+    include: {
+      votes: { select: { value: true } },
+      answer: true,
+      _count: VISIBLE_COMMENT_COUNT,
+      comments: PENDING_COMMENTS,
+    },
+  });
+  if (!q) return;
+  publish(q.eventId, {
+    type,
+    question: toQuestionSnapshot(q),
+    submitterId: q.submitterId,
+    ...(votes ? { votes } : {}),
+  });
+}
+
+/** Reloads a poll with its option counts and publishes it. */
+export async function publishPoll(pollId: string): Promise<void> {
+  const poll = await prisma.poll.findUnique({ where: { id: pollId }, include: POLL_INCLUDE });
+  if (!poll) return;
+  publish(poll.eventId, { type: "poll.updated", poll: toPollSnapshot(poll) });
+}
+
+export function publishEvent(event: Event): void {
+  publish(event.id, { type: "event.updated", event: toEventSnapshot(event) });
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from "vitest";
+import { compileRule, hasNestedQuantifier, screenText, validateRule } from "@/lib/screening";
+
+// Only screenQuestion reads the database
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+describe("hasNestedQuantifier", () => {
+  it.each(["(a+)+", "(\\w+\\s?)*", "(a{2,})+", "((a)+)+", "(x(a+))*", "([a-z]+)*"])("refuses %s", (pattern) => {
+    expect(hasNestedQuantifier(pattern)).toBe(true);
+  });
+
+  it.each(["(a|b)+", "(?:ab)*c", "[(a+)]+", "(a+)b", "\\(a+\\)+", "(a{3})+", "(a+)?", "[\\]a+]+"])(
+    "allows %s",
+    (pattern) => {
+      expect(hasNestedQuantifier(pattern)).toBe(false);
+    }
+  );
+});
+
+describe("validateRule", () => {
+  it("requires a pattern for word and regex rules", () => {
+    expect(validateRule("word", null)).not.toBeNull();
+    expect(validateRule("regex", "")).not.toBeNull();
+    expect(validateRule("email", null)).toBeNull();
+  });
+
+  it("rejects long, invalid and catastrophic patterns", () => {
+    expect(validateRule("regex", "a".repeat(201))).not.toBeNull();
+    expect(validateRule("regex", "(unclosed")).not.toBeNull();
+    expect(validateRule("regex", "(a+)+$")).not.toBeNull();
+    expect(validateRule("employee_id", "(\\d+)+")).not.toBeNull();
+  });
+
+  it("accepts an ordinary pattern", () => {
+    expect(validateRule("regex", "project\\s+(falcon|osprey)")).toBeNull();
+  });
+});
+
+describe("compileRule", () => {
+  it("matches whole words only", () => {
+    const re = compileRule({ match: "word", pattern: "ass" })!;
+    expect(re.test("what an ass")).toBe(true);
+    expect(re.test("our class")).toBe(false);
+  });
+
+  it("skips a stored catastrophic pattern instead of running it", () => {
+    expect(compileRule({ match: "regex", pattern: "(a+)+$" })).toBeNull();
+  });
+});
+
+describe("screenText", () => {
+  const rules = [
+    { match: "word" as const, pattern: "darn", action: "flag" as const },
+    { match: "email" as const, pattern: null, action: "hide" as const },
+    { match: "phone" as const, pattern: null, action: "block" as const },
+  ];
+
+  it("allows clean text", () => {
+    expect(screenText("When is the offsite?", rules)).toEqual({ action: "allow" });
+  });
+
+  it("picks the strictest matching rule", () => {
+    const result = screenText("darn, mail me at jo@example.com or call 415-555-0100", rules);
+    expect(result).toMatchObject({ action: "block", reason: "Phone number" });
+  });
+
+  it("names the subject in the message", () => {
+    const result = screenText("mail jo@example.com", rules, "comment");
+    expect(result.action).toBe("hide");
+    expect("message" in result && result.message).toMatch(/^Your comment wasn't posted/);
+  });
+});
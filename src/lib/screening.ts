@@ -0,0 +1,171 @@
+/**
+ * Content screening for submitted and edited questions. Rules live in the
+ * screening_rules table — global ones (eventId null) plus the event's own —
+ * and each says what to match and what to do:
+ *   block — reject the question and tell the asker why
+ *   hide  — accept it straight into the hidden moderation queue
+ *   flag  — publish it, marked for the hosts' attention
+ * When several rules match, the strictest action wins.
+ */
+import type { ScreeningAction, ScreeningMatch, ScreeningRule } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+export const SCREENING_MATCHES: ScreeningMatch[] = ["word", "regex", "email", "phone", "employee_id"];
+export const SCREENING_ACTIONS: ScreeningAction[] = ["block", "hide", "flag"];
+
+export const MAX_PATTERN_LENGTH = 200;
+
+const BUILT_IN_PATTERNS: Record<"email" | "phone" | "employee_id", RegExp> = {
+  email: /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i,
+  // 10+ digits with optional country code and separators; years and counts don't match
+  phone: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{3}\)|\b\d{3})[\s.-]?\d{3}[\s.-]?\d{4}\b/,
+  employee_id: /\b(?:EMP|E)[-#]?\d{5,8}\b/i,
+};
+
+// What the asker is told when a rule blocks their question or comment
+const BLOCK_MESSAGES: Record<ScreeningMatch, string> = {
+  word: "language that isn't allowed here",
+  regex: "content that isn't allowed here",
+  email: "an email address",
+  phone: "a phone number",
+  employee_id: "an employee ID",
+};
+
+type RuleInput = Pick<ScreeningRule, "match" | "pattern">;
+
+export type ScreeningResult =
+  | { action: "allow" }
+  | { action: ScreeningAction; reason: string; message: string };
+
+const SEVERITY: Record<ScreeningAction, number> = { flag: 1, hide: 2, block: 3 };
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// A quantifier that can repeat: *, +, {n,} or {n,m}
+const REPEAT_AT = /^(?:[*+]|\{\d+,\d*\})/;
+
+/**
+ * Whether a pattern repeats a group that itself repeats, as in (a+)+ or
+ * (\w+\s?)*. Those backtrack exponentially on a near-miss, so one rule could
+ * stall every question submission; screening refuses them.
+ */
+export function hasNestedQuantifier(pattern: string): boolean {
+  // One entry per open group: whether anything inside it repeats
+  const groups: boolean[] = [];
+  let repeats = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "\\") {
+      i++;
+    } else if (ch === "[") {
+      // Skip the character class; a ] straight after [ or [^ is literal
+      i += pattern[i + 1] === "^" ? 2 : 1;
+      if (pattern[i] === "]") i++;
+      while (i < pattern.length && pattern[i] !== "]") i += pattern[i] === "\\" ? 2 : 1;
+    } else if (ch === "(") {
+      groups.push(repeats);
+      repeats = false;
+    } else if (ch === ")") {
+      const quantified = REPEAT_AT.test(pattern.slice(i + 1));
+      if (repeats && quantified) return true;
+      repeats = (groups.pop() ?? false) || repeats || quantified;
+    } else if (REPEAT_AT.test(pattern.slice(i))) {
+      repeats = true;
+    }
+  }
+  return false;
+}
+
+// Rules saved before the nested-quantifier check are skipped rather than run
+function compileCustom(pattern: string): RegExp | null {
+  return hasNestedQuantifier(pattern) ? null : new RegExp(pattern, "i");
+}
+
+/** The rule as a RegExp; null if a stored custom pattern no longer compiles or is unsafe. */
+export function compileRule(rule: RuleInput): RegExp | null {
+  try {
+    switch (rule.match) {
+      case "word":
+        // Whole word (or phrase), case-insensitive, Unicode-aware boundaries
+        return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(rule.pattern ?? "")}(?![\\p{L}\\p{N}])`, "iu");
+      case "regex":
+        return compileCustom(rule.pattern ?? "");
+      case "employee_id":
+        return rule.pattern ? compileCustom(rule.pattern) : BUILT_IN_PATTERNS.employee_id;
+      default:
+        return BUILT_IN_PATTERNS[rule.match];
+    }
+  } catch {
+    return null;
+  }
+}
+
+/** Human-readable rule summary, used as the flag reason shown to moderators. */
+export function describeRule(rule: RuleInput): string {
+  switch (rule.match) {
+    case "word":
+      return `Word "${rule.pattern}"`;
+    case "regex":
+      return `Pattern /${rule.pattern}/`;
+    case "email":
+      return "Email address";
+    case "phone":
+      return "Phone number";
+    case "employee_id":
+      return rule.pattern ? `Employee ID /${rule.pattern}/` : "Employee ID";
+  }
+}
+
+/** Checks a rule from the admin form; returns an error message or null. */
+export function validateRule(match: ScreeningMatch, pattern: string | null): string | null {
+  if ((match === "word" || match === "regex") && !pattern) {
+    return match === "word" ? "Enter a word or phrase" : "Enter a pattern";
+  }
+  if (pattern && pattern.length > MAX_PATTERN_LENGTH) {
+    return `Patterns are limited to ${MAX_PATTERN_LENGTH} characters`;
+  }
+  if (pattern && (match === "regex" || match === "employee_id")) {
+    try {
+      new RegExp(pattern, "i");
+    } catch {
+      return "That is not a valid regular expression";
+    }
+    if (hasNestedQuantifier(pattern)) {
+      return "Patterns can't repeat a group that already repeats, like (a+)+ — it can take minutes to run";
+    }
+  }
+  return null;
+}
+
+/** Runs text through the rules and returns the strictest matching action. */
+export function screenText(
+  text: string,
+  rules: (RuleInput & Pick<ScreeningRule, "action">)[],
+  subject: "question" | "comment" = "question"
+): ScreeningResult {
+  let hit: (RuleInput & Pick<ScreeningRule, "action">) | null = null;
+  for (const rule of rules) {
+    if (hit && SEVERITY[rule.action] <= SEVERITY[hit.action]) continue;
+    if (compileRule(rule)?.test(text)) hit = rule;
+  }
+  if (!hit) return { action: "allow" };
+  return {
+    action: hit.action,
+    reason: describeRule(hit),
+    message: `Your ${subject} wasn't posted because it appears to contain ${BLOCK_MESSAGES[hit.match]}. Please edit it and try again.`,
+  };
+}
+
+/** Screens a question (or a comment on one) against the global rules and the event's own. */
+export async function screenQuestion(
+  eventId: string,
+  text: string,
+  subject: "question" | "comment" = "question"
+): Promise<ScreeningResult> {
+  const rules = await prisma.screeningRule.findMany({
+    where: { OR: [{ eventId: null }, { eventId }] },
+  });
+  return screenText(text, rules, subject);
+}
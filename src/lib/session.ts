@@ -0,0 +1,102 @@
+/**
+ * Server-side session store. Each signed cookie token (lib/auth.ts) names a
+ * row in the sessions table; a token is only honoured while its row exists,
+ * is unrevoked and unexpired. Node runtime only — middleware reaches this
+ * through POST /api/sessions/check.
+ */
+import type { AdminRole, SessionKind } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { ADMIN_COOKIE, createSessionToken, verifySessionToken } from "@/lib/auth";
+
+export type AdminSession = {
+  sid: string;
+  userId: string;
+  role: AdminRole; // current role from admin_users, not the one in the token
+  exp: number;
+};
+
+type CookieReader = { get(name: string): { value: string } | undefined };
+
+/** Persists a session row and returns the signed cookie token for it. */
+export async function startSession(
+  kind: SessionKind,
+  ttlSeconds: number,
+  adminUser?: { id: string; role: AdminRole }
+): Promise<string> {
+  // Opportunistic cleanup of long-dead rows
+  await prisma.session.deleteMany({
+    where: { expiresAt: { lt: new Date(Date.now() - 24 * 60 * 60 * 1000) } },
+  });
+
+  const session = await prisma.session.create({
+    data: {
+      kind,
+      adminUserId: adminUser?.id ?? null,
+      expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+    },
+  });
+  return createSessionToken(
+    {
+      kind,
+      sid: session.id,
+      sub: adminUser?.id ?? "site",
+      ...(adminUser ? { role: adminUser.role } : {}),
+    },
+    ttlSeconds
+  );
+}
+
+/** Verifies a token and confirms its session row is still live. */
+export async function isSessionTokenActive(token: string, kind: SessionKind): Promise<boolean> {
+  const payload = await verifySessionToken(token, kind);
+  if (!payload) return false;
+  const session = await prisma.session.findUnique({ where: { id: payload.sid } });
+  return !!session && session.kind === kind && !session.revokedAt && session.expiresAt > new Date();
+}
+
+/** Reads the admin cookie and resolves it against the sessions table. */
+export async function getAdminSession(cookies: CookieReader): Promise<AdminSession | null> {
+  const token = cookies.get(ADMIN_COOKIE)?.value;
+  if (!token) return null;
+  const payload = await verifySessionToken(token, "admin");
+  if (!payload) return null;
+
+  const session = await prisma.session.findUnique({
+    where: { id: payload.sid },
+    include: { adminUser: { select: { id: true, role: true } } },
+  });
+  if (!session || session.revokedAt || session.expiresAt <= new Date() || !session.adminUser) {
+    return null;
+  }
+  return {
+    sid: session.id,
+    userId: session.adminUser.id,
+    role: session.adminUser.role,
+    exp: payload.exp,
+  };
+}
+
+export async function revokeSession(sid: string): Promise<void> {
+  await prisma.session.updateMany({
+    where: { id: sid, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/** Revokes every live session of one admin user ("log out everywhere"). */
+export async function revokeAdminUserSessions(adminUserId: string): Promise<number> {
+  const { count } = await prisma.session.updateMany({
+    where: { adminUserId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count;
+}
+
+/** Revokes every live site-password session; visitors must log in again. */
+export async function revokeSiteSessions(): Promise<number> {
+  const { count } = await prisma.session.updateMany({
+    where: { kind: "site", revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count;
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_DURATION_MINUTES,
+  formatClock,
+  formatDuration,
+  parseTimerSettings,
+  questionTimerLevel,
+  sessionEndsAt,
+  sessionTimerLevel,
+} from "@/lib/sessionTimer";
+
+describe("parseTimerSettings", () => {
+  it("keeps only the fields present", () => {
+    expect(parseTimerSettings({ durationMinutes: 45 })).toEqual({ data: { durationMinutes: 45 } });
+  });
+
+  it("turns a setting off with null or an empty string", () => {
+    expect(parseTimerSettings({ durationMinutes: null, questionLimitMinutes: "" })).toEqual({
+      data: { durationMinutes: null, questionLimitMinutes: null },
+    });
+  });
+
+  it("rejects fractions, zero, strings and values over the cap", () => {
+    for (const value of [1.5, 0, "30", MAX_DURATION_MINUTES + 1]) {
+      expect(parseTimerSettings({ durationMinutes: value })).toHaveProperty("error");
+    }
+  });
+});
+
+describe("sessionEndsAt", () => {
+  it("adds the duration to the start", () => {
+    expect(sessionEndsAt("2026-01-01T10:00:00.000Z", 90)?.toISOString()).toBe("2026-01-01T11:30:00.000Z");
+  });
+
+  it("is null without a start or a duration", () => {
+    expect(sessionEndsAt(null, 90)).toBeNull();
+    expect(sessionEndsAt(new Date(), null)).toBeNull();
+  });
+});
+
+describe("timer levels", () => {
+  it("warns in the last five minutes of the session and goes over after", () => {
+    expect(sessionTimerLevel(10 * 60)).toBe("normal");
+    expect(sessionTimerLevel(5 * 60)).toBe("warning");
+    expect(sessionTimerLevel(-1)).toBe("over");
+  });
+
+  it("warns at 80% of the per-question limit", () => {
+    expect(questionTimerLevel(100, 3)).toBe("normal");
+    expect(questionTimerLevel(144, 3)).toBe("warning");
+    expect(questionTimerLevel(180, 3)).toBe("over");
+  });
+
+  it("never warns without a per-question limit", () => {
+    expect(questionTimerLevel(10_000, null)).toBe("normal");
+  });
+});
+
+describe("formatting", () => {
+  it("formats a stopwatch", () => {
+    expect(formatClock(75)).toBe("1:15");
+    expect(formatClock(3725)).toBe("1:02:05");
+    expect(formatClock(-5)).toBe("0:00");
+  });
+
+  it("formats prose durations", () => {
+    expect(formatDuration(75)).toBe("1m 15s");
+    expect(formatDuration(42)).toBe("42s");
+  });
+});
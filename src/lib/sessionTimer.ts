@@ -0,0 +1,85 @@
+/**
+ * Session and per-question timing for the presenter view. An event's hard
+ * stop is its startsAt plus durationMinutes; questionLimitMinutes is a soft
+ * limit the per-question timer warns at. Pure, so the presenter page, the
+ * host console and the API routes share it.
+ */
+
+export const MAX_DURATION_MINUTES = 24 * 60;
+export const MAX_QUESTION_LIMIT_MINUTES = 60;
+
+// The session countdown turns amber this close to the end
+export const SESSION_WARNING_SEC = 5 * 60;
+// The question timer turns amber at this share of the soft limit
+export const QUESTION_WARNING_RATIO = 0.8;
+
+export type TimerSettings = {
+  durationMinutes?: number | null;
+  questionLimitMinutes?: number | null;
+};
+
+export type TimerLevel = "normal" | "warning" | "over";
+
+const LIMITS: Record<keyof TimerSettings, number> = {
+  durationMinutes: MAX_DURATION_MINUTES,
+  questionLimitMinutes: MAX_QUESTION_LIMIT_MINUTES,
+};
+
+/**
+ * The timer fields present in a PATCH body, validated. null (or an empty
+ * string from a cleared input) turns a setting off.
+ */
+export function parseTimerSettings(
+  body: Record<string, unknown>
+): { data: TimerSettings } | { error: string } {
+  const data: TimerSettings = {};
+  for (const key of Object.keys(LIMITS) as (keyof TimerSettings)[]) {
+    if (!(key in body)) continue;
+    const value = body[key];
+    if (value === null || value === "") {
+      data[key] = null;
+      continue;
+    }
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 1 || value > LIMITS[key]) {
+      return { error: `${key} must be a whole number from 1 to ${LIMITS[key]}` };
+    }
+    data[key] = value;
+  }
+  return { data };
+}
+
+/** When the session is due to finish, or null without a start time and length. */
+export function sessionEndsAt(startsAt: Date | string | null, durationMinutes: number | null): Date | null {
+  if (!startsAt || !durationMinutes) return null;
+  return new Date(new Date(startsAt).getTime() + durationMinutes * 60_000);
+}
+
+/** Warning state of the session countdown, from the seconds left (negative once over). */
+export function sessionTimerLevel(remainingSec: number): TimerLevel {
+  if (remainingSec < 0) return "over";
+  return remainingSec <= SESSION_WARNING_SEC ? "warning" : "normal";
+}
+
+/** Warning state of the per-question timer; always normal without a soft limit. */
+export function questionTimerLevel(elapsedSec: number, limitMinutes: number | null): TimerLevel {
+  if (!limitMinutes) return "normal";
+  const limitSec = limitMinutes * 60;
+  if (elapsedSec >= limitSec) return "over";
+  return elapsedSec >= limitSec * QUESTION_WARNING_RATIO ? "warning" : "normal";
+}
+
+/** Stopwatch form: 75 → "1:15", 3725 → "1:02:05". */
+export function formatClock(totalSec: number): string {
+  const sec = Math.max(0, Math.floor(totalSec));
+  const hours = Math.floor(sec / 3600);
+  const minutes = Math.floor((sec % 3600) / 60);
+  const seconds = String(sec % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+/** Prose form for recaps and analytics: 75 → "1m 15s". */
+export function formatDuration(totalSec: number): string {
+  const minutes = Math.floor(totalSec / 60);
+  const seconds = totalSec % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
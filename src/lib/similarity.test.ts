@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { SIMILARITY_THRESHOLD, contentWords, findSimilarQuestions, questionSimilarity } from "@/lib/similarity";
+
+describe("contentWords", () => {
+  it("drops stop words and trims endings", () => {
+    expect(contentWords("When is the new office opening?")).toEqual(new Set(["new", "office", "open"]));
+  });
+
+  it("folds accents and apostrophes", () => {
+    expect(contentWords("What's the café's plan")).toEqual(contentWords("whats the cafes plan"));
+  });
+
+  it("keeps stop words when they are the whole question", () => {
+    expect(contentWords("Why?").size).toBe(1);
+  });
+});
+
+describe("questionSimilarity", () => {
+  it("treats rephrasings of one question as the same", () => {
+    expect(
+      questionSimilarity("When will the new office open?", "When is the new office opening")
+    ).toBeGreaterThanOrEqual(SIMILARITY_THRESHOLD);
+  });
+
+  it("scores unrelated questions low", () => {
+    expect(questionSimilarity("What is the parking policy?", "Are we hiring in Berlin?")).toBe(0);
+  });
+
+  it("is 1 for identical questions and 0 for empty ones", () => {
+    expect(questionSimilarity("Remote work policy", "remote work policy")).toBe(1);
+    expect(questionSimilarity("", "remote work policy")).toBe(0);
+  });
+});
+
+describe("findSimilarQuestions", () => {
+  const candidates = [
+    { id: "a", text: "Is the new office opening soon?" },
+    { id: "b", text: "What about parking?" },
+    { id: "c", text: "When does the new office open?" },
+  ];
+
+  it("returns matches above the threshold, most similar first", () => {
+    const matches = findSimilarQuestions("When will the new office open?", candidates);
+    expect(matches.map((q) => q.id)).toEqual(["c", "a"]);
+    expect(matches[0].similarity).toBeGreaterThanOrEqual(matches[1].similarity);
+  });
+
+  it("honours the limit", () => {
+    expect(findSimilarQuestions("new office open", candidates, { limit: 1 })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Local text similarity for spotting duplicate questions — no external
+ * service. Questions are reduced to their content words (lowercased, stop
+ * words dropped, plurals and -ing/-ed endings trimmed) and compared with the
+ * Dice coefficient, so "When will the new office open?" and "When is the new
+ * office opening" count as the same question. Pure, so it runs in the browser
+ * (submit form, merge picker) as well as on the server.
+ */
+
+// Scores at or above this are treated as "probably the same question"
+export const SIMILARITY_THRESHOLD = 0.5;
+
+// Ignored only when they are not the whole question
+const STOP_WORDS = new Set([
+  "a", "about", "an", "and", "any", "are", "as", "at", "be", "been", "but", "by", "can", "could",
+  "did", "do", "does", "for", "from", "had", "has", "have", "how", "i", "if", "in", "is", "it",
+  "its", "me", "my", "of", "on", "or", "our", "should", "so", "that", "the", "their", "them",
+  "there", "these", "they", "this", "those", "to", "us", "was", "we", "were", "what", "when",
+  "whats", "where", "which", "who", "why", "will", "with", "would", "you", "your",
+]);
+
+// Anything but letters and digits, in any script
+const NON_WORD = new RegExp("[^\\p{L}\\p{N}]+", "u");
+
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith("ing")) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.length > 4 && word.endsWith("ed")) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+/** The question's content words, stemmed. */
+export function contentWords(text: string): Set<string> {
+  const words = text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/['’]/g, "")
+    .split(NON_WORD)
+    .filter(Boolean);
+  const content = words.filter((w) => !STOP_WORDS.has(w));
+  return new Set((content.length > 0 ? content : words).map(stem));
+}
+
+/** 0 (nothing in common) to 1 (same content words). */
+export function questionSimilarity(a: string, b: string): number {
+  const wordsA = contentWords(a);
+  const wordsB = contentWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+  let shared = 0;
+  wordsA.forEach((w) => {
+    if (wordsB.has(w)) shared++;
+  });
+  return (2 * shared) / (wordsA.size + wordsB.size);
+}
+
+/** Candidates similar to `text`, most similar first. */
+export function findSimilarQuestions<Q extends { text: string }>(
+  text: string,
+  candidates: Q[],
+  { threshold = SIMILARITY_THRESHOLD, limit = 3 }: { threshold?: number; limit?: number } = {}
+): (Q & { similarity: number })[] {
+  return candidates
+    .map((q) => ({ ...q, similarity: questionSimilarity(text, q.text) }))
+    .filter((q) => q.similarity >= threshold)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
@@ -0,0 +1,32 @@
+/**
+ * Per-event topics. Admins define them for an event; askers may file their
+ * question under one, hosts can retag, and every question list can be
+ * filtered by topic (GET /api/events/[eventId]/questions?topic=<id>).
+ */
+import { prisma } from "@/lib/prisma";
+import { publish } from "@/lib/realtime";
+
+export const MAX_TOPIC_LENGTH = 40;
+export const MAX_TOPICS_PER_EVENT = 20;
+
+export type TopicSummary = { id: string; name: string };
+
+export async function getEventTopics(eventId: string): Promise<TopicSummary[]> {
+  return prisma.eventTopic.findMany({
+    where: { eventId },
+    orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+    select: { id: true, name: true },
+  });
+}
+
+/** Checks a topic name from the admin form; returns an error message or null. */
+export function validateTopicName(name: string): string | null {
+  if (!name) return "Topic name is required";
+  if (name.length > MAX_TOPIC_LENGTH) return `Topic names are limited to ${MAX_TOPIC_LENGTH} characters`;
+  return null;
+}
+
+/** Sends the event's current topic list to everyone watching it. */
+export async function publishTopics(eventId: string): Promise<void> {
+  publish(eventId, { type: "topics.updated", topics: await getEventTopics(eventId) });
+}
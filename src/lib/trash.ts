@@ -0,0 +1,35 @@
+/**
+ * Soft deletion. Deleting an event or question only stamps deletedAt; the
+ * row stays restorable from the Trash section on /admin for
+ * TRASH_RETENTION_DAYS, after which purgeTrash (run by
+ * `npm run db:purge-trash`) removes it for good, cascading to its questions,
+ * votes and answers. Everything that lists or loads events and questions
+ * filters on deletedAt: null.
+ */
+import type { PrismaClient } from "@prisma/client";
+
+export const TRASH_RETENTION_DAYS = 30;
+
+/** Items deleted before this moment are past restoring and due for purging. */
+export function trashCutoff(now = new Date()): Date {
+  return new Date(now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/** When an item deleted at `deletedAt` will be purged. */
+export function purgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Permanently removes everything that has been in the trash past retention.
+ * Takes the client so scripts/purge-trash.ts can call it outside Next.
+ */
+export async function purgeTrash(
+  db: PrismaClient,
+  now = new Date()
+): Promise<{ events: number; questions: number }> {
+  const cutoff = trashCutoff(now);
+  const events = await db.event.deleteMany({ where: { deletedAt: { lt: cutoff } } });
+  const questions = await db.question.deleteMany({ where: { deletedAt: { lt: cutoff } } });
+  return { events: events.count, questions: questions.count };
+}
@@ -0,0 +1,160 @@
+import { useEffect, useRef, useState } from "react";
+import type { AnswerSnapshot, EventSnapshot, QuestionSnapshot, StreamDelta } from "@/lib/realtime";
+import type { PollSnapshot } from "@/lib/polls";
+import type { RemoteSnapshot } from "@/lib/presenterRemote";
+
+/**
+ * Client side of GET /api/events/[eventId]/stream.
+ * Returns whether the stream is currently live so callers can fall back to
+ * polling while it is down. onReady fires on every (re)connect — callers
+ * refetch the full list there so deltas missed while offline are not lost.
+ */
+
+// JSON-decoded shapes of the snapshots (dates arrive as ISO strings)
+export type StreamAnswer = Omit<AnswerSnapshot, "answeredAt"> & { answeredAt: string };
+
+export type StreamQuestion = Omit<QuestionSnapshot, "pinnedAt" | "answeredAt" | "createdAt" | "answer"> & {
+  pinnedAt: string | null;
+  answeredAt: string | null;
+  createdAt: string;
+  answer: StreamAnswer | null;
+  isOwn: boolean;
+  myVote?: 1 | -1 | null;
+};
+
+export type StreamEvent = Omit<EventSnapshot, "startsAt" | "nowAnsweringAt"> & {
+  startsAt: string | null;
+  nowAnsweringAt: string | null;
+};
+
+export type StreamTopic = { id: string; name: string };
+
+export type StreamPanelist = { id: string; name: string; title: string | null };
+
+export type StreamPoll = Omit<PollSnapshot, "openedAt" | "closedAt" | "createdAt"> & {
+  openedAt: string | null;
+  closedAt: string | null;
+  createdAt: string;
+};
+
+export type StreamRemote = Omit<RemoteSnapshot, "pairedAt"> & { pairedAt: string | null };
+
+export type ClientStreamDelta =
+  | {
+      type: Exclude<
+        StreamDelta["type"],
+        | "question.retracted"
+        | "question.removed"
+        | "event.updated"
+        | "event.removed"
+        | "topics.updated"
+        | "panelists.updated"
+        | "poll.updated"
+        | "poll.removed"
+        | "remote.updated"
+        | "queue.updated"
+      >;
+      question: StreamQuestion;
+    }
+  | { type: "question.retracted" | "question.removed"; id: string }
+  | { type: "event.updated"; event: StreamEvent }
+  | { type: "event.removed" }
+  | { type: "topics.updated"; topics: StreamTopic[] }
+  | { type: "panelists.updated"; panelists: StreamPanelist[] }
+  | { type: "poll.updated"; poll: StreamPoll }
+  | { type: "poll.removed"; pollId: string }
+  | { type: "remote.updated"; remote: StreamRemote }
+  | { type: "queue.updated"; queue: string[] };
+
+const RECONNECT_MS = 10_000;
+
+export function useEventStream(
+  eventId: string,
+  handlers: {
+    onDelta: (delta: ClientStreamDelta) => void;
+    onReady?: () => void;
+  }
+): boolean {
+  const [connected, setConnected] = useState(false);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (typeof EventSource === "undefined") return;
+
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let disposed = false;
+
+    function connect() {
+      source = new EventSource(`/api/events/${eventId}/stream`);
+      source.addEventListener("ready", () => {
+        setConnected(true);
+        handlersRef.current.onReady?.();
+      });
+      source.addEventListener("delta", (e) => {
+        try {
+          handlersRef.current.onDelta(JSON.parse((e as MessageEvent<string>).data));
+        } catch {
+          // ignore malformed frames; the next refetch reconciles
+        }
+      });
+      source.onerror = () => {
+        setConnected(false);
+        // EventSource retries by itself unless the server refused outright
+        if (source?.readyState === EventSource.CLOSED && !disposed) {
+          source.close();
+          retryTimer = setTimeout(connect, RECONNECT_MS);
+        }
+      };
+    }
+
+    connect();
+    return () => {
+      disposed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      source?.close();
+      setConnected(false);
+    };
+  }, [eventId]);
+
+  return connected;
+}
+
+/**
+ * Applies a question delta to a list. Existing entries keep any fields the
+ * delta does not carry (e.g. the viewer's own myVote); new entries start with
+ * no vote. Returns the list unchanged for event, topic, panelist, poll,
+ * remote and queue deltas.
+ */
+export function applyQuestionDelta<Q extends { id: string; myVote: 1 | -1 | null }>(
+  questions: Q[],
+  delta: ClientStreamDelta
+): Q[] {
+  if ("id" in delta) return questions.filter((q) => q.id !== delta.id);
+  if (!("question" in delta)) return questions;
+  const incoming = delta.question;
+  const idx = questions.findIndex((q) => q.id === incoming.id);
+  if (idx === -1) {
+    return [...questions, { myVote: null, ...incoming } as unknown as Q];
+  }
+  const next = [...questions];
+  next[idx] = { ...questions[idx], ...incoming } as Q;
+  return next;
+}
+
+/**
+ * Applies a poll delta to a list, newest first. Existing entries keep fields
+ * the delta does not carry (the viewer's own myOptionId). Returns the list
+ * unchanged for any other delta.
+ */
+export function applyPollDelta<P extends StreamPoll>(polls: P[], delta: ClientStreamDelta): P[] {
+  if (delta.type === "poll.removed") return polls.filter((p) => p.id !== delta.pollId);
+  if (delta.type !== "poll.updated") return polls;
+  const incoming = delta.poll;
+  const idx = polls.findIndex((p) => p.id === incoming.id);
+  if (idx === -1) return [incoming as P, ...polls];
+  const next = [...polls];
+  next[idx] = { ...polls[idx], ...incoming };
+  return next;
+}
@@ -0,0 +1,81 @@
+/**
+ * Ballot-stuffing detection. Clearing the voter cookie or opening a private
+ * window mints a fresh signed voter ID, so the votes unique constraint alone
+ * cannot stop one person voting many times. The telltale pattern is several
+ * voter IDs issued in the last few minutes, all voting on the same question
+ * from the same IP — those votes are flagged for review. Flagged votes keep
+ * counting until an admin discards them from the event page.
+ *
+ * An office behind one NAT looks similar at the start of an all-hands, so the
+ * bar rises with the number of new IDs that network brings to the event: a
+ * burst has to be most of them piling onto one question. IDs carried over
+ * from legacy cookies (lib/voter.ts) have no issue time and never count.
+ */
+import { createHmac } from "crypto";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+export const BURST_WINDOW_MS = 10 * 60 * 1000;
+export const BURST_THRESHOLD = 5; // new voter IDs from one IP on one question, at least
+// ...and this share of the new IDs from that IP voting anywhere in the event
+export const BURST_SHARE = 0.8;
+
+export const FLAG_REASONS = {
+  burst: "Several new voter IDs from one network voted on this question within minutes",
+} as const;
+
+export type FlagReason = keyof typeof FLAG_REASONS;
+
+/** Keyed hash so raw IP addresses are never stored. Null when the IP is unknown. */
+export function hashIp(ip: string): string | null {
+  if (!ip || ip === "unknown") return null;
+  return createHmac("sha256", process.env.ADMIN_SESSION_SECRET ?? "")
+    .update(`ip:${ip}`)
+    .digest("hex")
+    .slice(0, 32);
+}
+
+/** Votes currently awaiting review: flagged and not dismissed. */
+export const SUSPICIOUS_VOTE_WHERE = {
+  flaggedAt: { not: null },
+  flagDismissedAt: null,
+} satisfies Prisma.VoteWhereInput;
+
+/** Votes needed on one question to count as a burst, given the new IDs on the network. */
+export function burstThreshold(newVotersOnNetwork: number): number {
+  return Math.max(BURST_THRESHOLD, Math.ceil(newVotersOnNetwork * BURST_SHARE));
+}
+
+/**
+ * Run after a vote is cast. If the question now has a burst of new voter IDs
+ * from this IP, flags every vote in the burst (including earlier ones).
+ * Returns how many votes were newly flagged.
+ */
+export async function detectVoteBurst(
+  eventId: string,
+  questionId: string,
+  ipHash: string | null
+): Promise<number> {
+  if (!ipHash) return 0;
+  const since = new Date(Date.now() - BURST_WINDOW_MS);
+  const fromNewIds = {
+    ipHash,
+    updatedAt: { gte: since },
+    voterIssuedAt: { gte: since },
+  } satisfies Prisma.VoteWhereInput;
+  const burst = { ...fromNewIds, questionId } satisfies Prisma.VoteWhereInput;
+
+  const count = await prisma.vote.count({ where: burst });
+  if (count < BURST_THRESHOLD) return 0;
+  const onNetwork = await prisma.vote.groupBy({
+    by: ["voterId"],
+    where: { ...fromNewIds, question: { eventId } },
+  });
+  if (count < burstThreshold(onNetwork.length)) return 0;
+
+  const { count: flagged } = await prisma.vote.updateMany({
+    where: { ...burst, flaggedAt: null },
+    data: { flaggedAt: new Date(), flagReason: "burst" satisfies FlagReason },
+  });
+  return flagged;
+}
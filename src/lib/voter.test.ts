@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { VOTER_COOKIE, createVoter, getLegacyVoterId, getVoter, migrateLegacyVoter } from "@/lib/voter";
+import { isKnownLegacyVoter } from "@/lib/legacyVoters";
+
+// Each lookup finds a row only for the IDs in `owners`
+const { owners, lookup } = vi.hoisted(() => {
+  const owners = new Set<string>();
+  const lookup = (field: string) => ({
+    findFirst: async ({ where }: { where: Record<string, string> }) =>
+      owners.has(where[field]) ? { id: "row" } : null,
+  });
+  return { owners, lookup };
+});
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    vote: lookup("voterId"),
+    question: lookup("submitterId"),
+    comment: lookup("submitterId"),
+    pollResponse: lookup("voterId"),
+    event: lookup("createdByUserId"),
+    eventCoHost: lookup("voterId"),
+  },
+}));
+
+const LEGACY_ID = "3f2b8c1e-7a4d-4e6f-9b0a-1c2d3e4f5a6b";
+
+function cookies(value?: string) {
+  return { get: (name: string) => (name === VOTER_COOKIE && value !== undefined ? { value } : undefined) };
+}
+
+beforeEach(() => {
+  vi.stubEnv("ADMIN_SESSION_SECRET", "test-secret-at-least-16-chars");
+});
+
+describe("createVoter / getVoter", () => {
+  it("round-trips a new voter", async () => {
+    const voter = await createVoter();
+    const read = await getVoter(cookies(voter.cookie));
+    expect(read).toEqual({ id: voter.id, issuedAt: voter.issuedAt, isMigrated: false });
+  });
+
+  it("returns null without a cookie", async () => {
+    expect(await getVoter(cookies())).toBeNull();
+  });
+
+  it("rejects a cookie with a swapped ID", async () => {
+    const voter = await createVoter();
+    const [, issuedAt, sig] = voter.cookie.split(".");
+    expect(await getVoter(cookies(`${LEGACY_ID}.${issuedAt}.${sig}`))).toBeNull();
+  });
+
+  it("rejects a cookie with a backdated issuedAt", async () => {
+    const voter = await createVoter();
+    const [id, , sig] = voter.cookie.split(".");
+    expect(await getVoter(cookies(`${id}.1.${sig}`))).toBeNull();
+  });
+
+  it("rejects an unknown flag", async () => {
+    const voter = await createVoter();
+    const [id, issuedAt, sig] = voter.cookie.split(".");
+    expect(await getVoter(cookies(`${id}.${issuedAt}.x.${sig}`))).toBeNull();
+  });
+});
+
+describe("legacy cookies", () => {
+  beforeEach(() => {
+    owners.clear();
+  });
+
+  it("never accepts a bare UUID as a voter by itself", async () => {
+    expect(await getVoter(cookies(LEGACY_ID))).toBeNull();
+  });
+
+  it("picks out bare UUIDs only", async () => {
+    const voter = await createVoter();
+    expect(getLegacyVoterId(cookies(LEGACY_ID))).toBe(LEGACY_ID);
+    expect(getLegacyVoterId(cookies(voter.cookie))).toBeNull();
+    expect(getLegacyVoterId(cookies("not-a-uuid"))).toBeNull();
+  });
+
+  it("keeps a legacy ID that owns rows, signed as migrated", async () => {
+    owners.add(LEGACY_ID);
+    expect(await isKnownLegacyVoter(LEGACY_ID)).toBe(true);
+    const signed = await migrateLegacyVoter(LEGACY_ID);
+    expect(await getVoter(cookies(signed))).toMatchObject({ id: LEGACY_ID, isMigrated: true });
+  });
+
+  it("does not accept a forged, unseen UUID", async () => {
+    owners.add(LEGACY_ID);
+    expect(await isKnownLegacyVoter(crypto.randomUUID())).toBe(false);
+  });
+});
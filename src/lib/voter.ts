@@ -1,11 +1,85 @@
 /**
  * Stable anonymous voter ID stored in a cookie.
  * Generated once per browser, persisted server-side in every response.
+ *
+ * The cookie value is "<id>.<issuedAt>.<signature>", HMAC-signed with the
+ * session secret so a voter ID cannot be forged or picked by the client.
+ * Clearing the cookie still yields a fresh ID; issuedAt lets the vote route
+ * spot bursts of brand-new IDs (see lib/voteAnomaly.ts). Edge-safe.
+ *
+ * Cookies from before signing hold a bare UUID. The middleware asks
+ * /api/voters/check whether that ID already owns anything (votes, questions,
+ * comments, team events, co-host seats); if so it is kept and signed once as
+ * "<id>.<issuedAt>.m.<signature>", the "m" marking it as migrated so its
+ * fresh issuedAt is not mistaken for a brand-new voter. Any other bare UUID
+ * is one the client made up, and gets a new voter like a missing cookie.
+ * Route handlers never accept a bare UUID themselves.
  */
+import { signValue, verifySignedValue } from "@/lib/auth";
 
 export const VOTER_COOKIE = "ama_voter_id";
 
+export const VOTER_COOKIE_OPTIONS = {
+  httpOnly: true,
+  sameSite: "lax",
+  maxAge: 60 * 60 * 24 * 365, // 1 year
+  path: "/",
+} as const;
+
+const SIGNING_PURPOSE = "voter";
+const MIGRATED_FLAG = "m";
+const LEGACY_VOTER_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type CookieReader = { get(name: string): { value: string } | undefined };
+
+export type Voter = {
+  id: string;
+  issuedAt: Date;
+  /** Carried over from a legacy unsigned cookie; issuedAt is when it was signed, not minted. */
+  isMigrated: boolean;
+};
+
 export function generateVoterId(): string {
   // Crypto-random UUID — unique enough for MVP voter dedup
   return crypto.randomUUID();
 }
+
+async function signVoter(id: string, isMigrated: boolean): Promise<Voter & { cookie: string }> {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const payload = isMigrated ? `${id}.${issuedAt}.${MIGRATED_FLAG}` : `${id}.${issuedAt}`;
+  const sig = await signValue(SIGNING_PURPOSE, payload);
+  return { id, issuedAt: new Date(issuedAt * 1000), isMigrated, cookie: `${payload}.${sig}` };
+}
+
+/** A new voter and the signed cookie value that identifies it. */
+export async function createVoter(): Promise<Voter & { cookie: string }> {
+  return signVoter(generateVoterId(), false);
+}
+
+/** The legacy unsigned voter ID in the cookie, if that is what it holds. */
+export function getLegacyVoterId(cookies: CookieReader): string | null {
+  const value = cookies.get(VOTER_COOKIE)?.value;
+  return value && LEGACY_VOTER_ID.test(value) ? value : null;
+}
+
+/** The voter named by the signed cookie; null if missing, unsigned or tampered. */
+export async function getVoter(cookies: CookieReader): Promise<Voter | null> {
+  const value = cookies.get(VOTER_COOKIE)?.value;
+  if (!value) return null;
+  const parts = value.split(".");
+  const sig = parts.pop();
+  const [id, issuedAt, flag] = parts;
+  if (!id || !issuedAt || !sig || parts.length > 3) return null;
+  if (flag !== undefined && flag !== MIGRATED_FLAG) return null;
+  if (!(await verifySignedValue(SIGNING_PURPOSE, parts.join("."), sig))) return null;
+  return { id, issuedAt: new Date(Number(issuedAt) * 1000), isMigrated: flag === MIGRATED_FLAG };
+}
+
+/** Signed cookie value keeping a legacy voter ID that /api/voters/check has vouched for. */
+export async function migrateLegacyVoter(legacyId: string): Promise<string> {
+  return (await signVoter(legacyId, true)).cookie;
+}
+
+export async function getVoterId(cookies: CookieReader): Promise<string | null> {
+  return (await getVoter(cookies))?.id ?? null;
+}
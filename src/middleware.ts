@@ -1,6 +1,76 @@
 import { NextRequest, NextResponse } from "next/server";
-import { ADMIN_COOKIE, SITE_COOKIE, verifySessionToken } from "@/lib/auth";
-import { VOTER_COOKIE, generateVoterId } from "@/lib/voter";
+import { ADMIN_COOKIE, SITE_COOKIE, type SessionKind, verifySessionToken } from "@/lib/auth";
+import {
+  VOTER_COOKIE,
+  VOTER_COOKIE_OPTIONS,
+  createVoter,
+  getLegacyVoterId,
+  getVoter,
+  migrateLegacyVoter,
+} from "@/lib/voter";
+
+// Middleware runs on the edge runtime without Prisma, so session rows are
+// confirmed via /api/sessions/check. Results are cached briefly per session
+// id — a revocation takes effect here within SESSION_CHECK_TTL_MS.
+const SESSION_CHECK_TTL_MS = 30_000;
+const sessionCheckCache = new Map<string, { active: boolean; checkedAt: number }>();
+
+async function isSessionValid(
+  request: NextRequest,
+  token: string | undefined,
+  kind: SessionKind
+): Promise<boolean> {
+  if (!token) return false;
+  const payload = await verifySessionToken(token, kind);
+  if (!payload) return false;
+
+  const cached = sessionCheckCache.get(payload.sid);
+  if (cached && Date.now() - cached.checkedAt < SESSION_CHECK_TTL_MS) return cached.active;
+
+  try {
+    const res = await fetch(new URL("/api/sessions/check", request.url), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token, kind }),
+    });
+    if (!res.ok) return false;
+    const { active } = await res.json();
+    if (sessionCheckCache.size > 1000) sessionCheckCache.clear();
+    sessionCheckCache.set(payload.sid, { active: active === true, checkedAt: Date.now() });
+    return active === true;
+  } catch {
+    return false;
+  }
+}
+
+// Whether a legacy unsigned voter ID owns anything; null if that could not be
+// checked, in which case the cookie is left for the next request to retry.
+async function isKnownLegacyVoter(request: NextRequest, voterId: string): Promise<boolean | null> {
+  try {
+    const res = await fetch(new URL("/api/voters/check", request.url), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ voterId }),
+    });
+    if (!res.ok) return null;
+    const { known } = await res.json();
+    return known === true;
+  } catch {
+    return null;
+  }
+}
+
+// The request's Cookie header with the voter cookie replaced, so route
+// handlers see the same voter the response is about to set.
+function withVoterCookie(request: NextRequest, value: string): Headers {
+  const headers = new Headers(request.headers);
+  const others = request.cookies
+    .getAll()
+    .filter((c) => c.name !== VOTER_COOKIE)
+    .map((c) => `${c.name}=${c.value}`);
+  headers.set("cookie", [...others, `${VOTER_COOKIE}=${value}`].join("; "));
+  return headers;
+}
 
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
@@ -9,12 +79,14 @@ export async function middleware(request: NextRequest) {
   const isSiteAuthExempt =
     pathname === "/login" ||
     pathname.startsWith("/api/site-auth") ||
+    pathname === "/api/sessions/check" ||
+    pathname === "/api/voters/check" ||
     pathname.startsWith("/public/") ||
     /\.(png|jpg|jpeg|gif|svg|ico|webp)$/i.test(pathname);
 
   if (!isSiteAuthExempt) {
     const siteToken = request.cookies.get(SITE_COOKIE)?.value;
-    const siteValid = siteToken ? await verifySessionToken(siteToken) : false;
+    const siteValid = await isSessionValid(request, siteToken, "site");
 
     if (!siteValid) {
       const loginUrl = new URL("/login", request.url);
@@ -26,7 +98,7 @@ export async function middleware(request: NextRequest) {
   // ── Admin route protection ──────────────────────────────────────────────
   if (pathname.startsWith("/admin") && !pathname.startsWith("/admin/login")) {
     const token = request.cookies.get(ADMIN_COOKIE)?.value;
-    const isValid = token ? await verifySessionToken(token) : false;
+    const isValid = await isSessionValid(request, token, "admin");
 
     if (!isValid) {
       const loginUrl = new URL("/admin/login", request.url);
@@ -39,19 +111,23 @@ export async function middleware(request: NextRequest) {
   // Any employee with the link can open presenter mode.
 
   // ── Voter ID cookie injection ────────────────────────────────────────────
-  // Ensure every public request has a stable voter ID cookie so we can
-  // attribute votes server-side without requiring a login.
-  const response = NextResponse.next();
-
-  if (!request.cookies.get(VOTER_COOKIE)) {
-    response.cookies.set(VOTER_COOKIE, generateVoterId(), {
-      httpOnly: false, // client JS reads it for optimistic UI
-      sameSite: "lax",
-      maxAge: 60 * 60 * 24 * 365, // 1 year
-      path: "/",
-    });
+  // Ensure every public request has a stable, signed voter ID cookie so we
+  // can attribute votes server-side without requiring a login. Legacy
+  // unsigned IDs that own something are signed in place; made-up and
+  // tampered values are replaced.
+  let cookie: string | null = null;
+  const legacyId = getLegacyVoterId(request.cookies);
+  if (legacyId) {
+    const known = await isKnownLegacyVoter(request, legacyId);
+    if (known) cookie = await migrateLegacyVoter(legacyId);
+    else if (known === false) cookie = (await createVoter()).cookie;
+  } else if (!(await getVoter(request.cookies))) {
+    cookie = (await createVoter()).cookie;
   }
+  if (!cookie) return NextResponse.next();
 
+  const response = NextResponse.next({ request: { headers: withVoterCookie(request, cookie) } });
+  response.cookies.set(VOTER_COOKIE, cookie, VOTER_COOKIE_OPTIONS);
   return response;
 }
 